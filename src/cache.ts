@@ -0,0 +1,238 @@
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { createHash } from "crypto";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Options for the SPARQL result cache */
+export interface SparqlCacheOptions {
+  /** Maximum number of entries kept in memory (least recently used are evicted first) */
+  maxEntries: number;
+  /** Time-to-live for results of the main endpoint, in milliseconds (0 disables caching) */
+  ttlMs: number;
+  /** Time-to-live for results of external endpoints, in milliseconds (0 disables caching) */
+  externalTtlMs: number;
+  /** Directory for on-disk persistence; undefined keeps the cache in memory only */
+  persistDir?: string;
+}
+
+/** Single cached result with its expiry */
+interface CacheEntry<T> {
+  key: string;
+  endpoint: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/** Cache counters exposed by the cache_stats tool */
+export interface SparqlCacheStats {
+  entries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  externalTtlSeconds: number;
+  persistent: boolean;
+  persistDir: string | null;
+  inFlight: number;
+  hits: number;
+  diskHits: number;
+  misses: number;
+  coalesced: number;
+  bypassed: number;
+  evictions: number;
+  hitRate: number;
+}
+
+// =============================================================================
+// CACHE
+// =============================================================================
+
+/**
+ * TTL-based LRU cache for SPARQL results, keyed on endpoint + final query text.
+ * Identical queries issued while one is still running share the same promise.
+ */
+export class SparqlCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly inFlight = new Map<string, Promise<T>>();
+  private readonly counters = { hits: 0, diskHits: 0, misses: 0, coalesced: 0, bypassed: 0, evictions: 0 };
+
+  constructor(
+    private readonly options: SparqlCacheOptions,
+    private readonly mainEndpoint: string
+  ) {}
+
+  /** Build the cache key for an endpoint and the exact query text sent to it */
+  static keyFor(endpoint: string, query: string): string {
+    return createHash("sha256").update(endpoint).update("\n").update(query).digest("hex");
+  }
+
+  /**
+   * Return a cached result or run the loader, storing its result on success.
+   * With bypass=true the loader always runs, but its result still refreshes the cache.
+   */
+  async getOrLoad(endpoint: string, query: string, loader: () => Promise<T>, bypass = false): Promise<T> {
+    const ttlMs = this.ttlFor(endpoint);
+    if (ttlMs <= 0) {
+      return loader();
+    }
+
+    const key = SparqlCache.keyFor(endpoint, query);
+
+    if (bypass) {
+      this.counters.bypassed++;
+    } else {
+      const cached = this.entries.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        // Refresh LRU position
+        this.entries.delete(key);
+        this.entries.set(key, cached);
+        this.counters.hits++;
+        return cached.value;
+      }
+      if (cached) {
+        this.entries.delete(key);
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        this.counters.coalesced++;
+        return pending;
+      }
+    }
+
+    const promise = (async () => {
+      if (!bypass) {
+        const fromDisk = await this.readFromDisk(key);
+        if (fromDisk) {
+          this.counters.diskHits++;
+          this.remember(fromDisk, false);
+          return fromDisk.value;
+        }
+        this.counters.misses++;
+      }
+      const value = await loader();
+      const now = Date.now();
+      this.remember({ key, endpoint, value, storedAt: now, expiresAt: now + ttlMs }, true);
+      return value;
+    })();
+
+    this.inFlight.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /** Drop every entry (optionally only those of one endpoint), in memory and on disk */
+  async clear(endpoint?: string): Promise<number> {
+    const removed = new Set<string>();
+    for (const [key, entry] of this.entries) {
+      if (!endpoint || entry.endpoint === endpoint) {
+        this.entries.delete(key);
+        removed.add(key);
+      }
+    }
+
+    const dir = this.options.persistDir;
+    if (!dir) return removed.size;
+
+    let files: string[] = [];
+    try {
+      files = await readdir(dir);
+    } catch {
+      return removed.size;
+    }
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const path = join(dir, file);
+      if (endpoint) {
+        const entry = await this.readEntryFile(path);
+        if (entry && entry.endpoint !== endpoint) continue;
+      }
+      try {
+        await rm(path, { force: true });
+        removed.add(file.slice(0, -".json".length));
+      } catch (err) {
+        console.error("[Cache] Failed to remove cache file:", err);
+      }
+    }
+    return removed.size;
+  }
+
+  /** Snapshot of cache size and counters */
+  stats(): SparqlCacheStats {
+    const lookups = this.counters.hits + this.counters.diskHits + this.counters.misses + this.counters.coalesced;
+    const served = this.counters.hits + this.counters.diskHits + this.counters.coalesced;
+    return {
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlSeconds: Math.round(this.options.ttlMs / 1000),
+      externalTtlSeconds: Math.round(this.options.externalTtlMs / 1000),
+      persistent: this.options.persistDir !== undefined,
+      persistDir: this.options.persistDir ?? null,
+      inFlight: this.inFlight.size,
+      ...this.counters,
+      hitRate: lookups > 0 ? Math.round((served / lookups) * 1000) / 1000 : 0,
+    };
+  }
+
+  private ttlFor(endpoint: string): number {
+    return endpoint === this.mainEndpoint ? this.options.ttlMs : this.options.externalTtlMs;
+  }
+
+  private remember(entry: CacheEntry<T>, persist: boolean): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+
+    if (persist) {
+      void this.writeToDisk(entry);
+    }
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry<T> | undefined> {
+    const dir = this.options.persistDir;
+    if (!dir) return undefined;
+
+    const path = join(dir, `${key}.json`);
+    const entry = await this.readEntryFile(path);
+    if (!entry) return undefined;
+
+    if (entry.key !== key || entry.expiresAt <= Date.now()) {
+      await rm(path, { force: true }).catch(() => undefined);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private async readEntryFile(path: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as CacheEntry<T>;
+    } catch {
+      // Missing or corrupted file: treat as a miss
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry<T>): Promise<void> {
+    const dir = this.options.persistDir;
+    if (!dir) return;
+    try {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${entry.key}.json`), JSON.stringify(entry));
+    } catch (err) {
+      console.error("[Cache] Failed to persist cache entry:", err);
+    }
+  }
+}
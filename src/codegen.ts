@@ -0,0 +1,209 @@
+import { compactIri } from "./rdf.js";
+import { datatypeSchema, isDatatypeRange, localName, uniqueNames } from "./schema.js";
+import type { SchemaClass, SchemaProperty } from "./schema.js";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** A class of the code model, with its direct superclasses */
+export interface ModelClass extends SchemaClass {
+  /** Direct named superclasses */
+  parents: string[];
+}
+
+/** Names given to classes (interfaces) and properties (fields and context terms) */
+interface ModelNames {
+  classes: Map<string, string>;
+  properties: Map<string, string>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Base interface of the classes without a superclass in the model */
+const BASE_INTERFACE = "JsonLdNode";
+
+/** Preamble of the generated TypeScript: the base interface and the Ref type for linked resources */
+const TYPESCRIPT_PREAMBLE = `/** A JSON-LD node: "id" and "type" are mapped to @id and @type by the context */
+export interface ${BASE_INTERFACE} {
+  id?: string;
+  type?: string | string[];
+}
+
+/** A linked resource, as its IRI or embedded */
+export type Ref<T> = string | T;
+`;
+
+// =============================================================================
+// NAMING
+// =============================================================================
+
+/** A valid identifier from a name: other characters become "_", a leading digit gets "_" */
+function identifier(name: string): string {
+  const cleaned = name.replace(/[^\p{L}\p{N}_$]/gu, "_");
+  return /^\p{N}/u.test(cleaned) ? `_${cleaned}` : cleaned;
+}
+
+/**
+ * Interface names (PascalCase) and property names of a model, unique across it:
+ * the context maps every name to one IRI
+ */
+function modelNames(classes: ModelClass[], compact: (uri: string) => string): ModelNames {
+  const classNames = uniqueNames(classes.map((cls) => cls.uri), compact);
+  const propertyUris = [...new Set(classes.flatMap((cls) => cls.properties.map((property) => property.uri)))];
+  const propertyNames = uniqueNames(propertyUris, compact);
+  const pascal = (name: string) => identifier(name.charAt(0).toUpperCase() + name.slice(1));
+
+  // "id" and "type" are taken by the base interface
+  for (const [uri, name] of propertyNames) {
+    if (name === "id" || name === "type") propertyNames.set(uri, `${compact(uri).replace(/:.*$/, "") || "ns"}_${name}`);
+  }
+  return {
+    classes: new Map([...classNames].map(([uri, name]) => [uri, pascal(name)])),
+    properties: propertyNames,
+  };
+}
+
+// =============================================================================
+// TYPESCRIPT
+// =============================================================================
+
+/** A doc comment from a label, a comment and the IRI, indented */
+function docComment(lines: (string | undefined)[], iri: string, indent: string): string {
+  const text = lines
+    .filter((line): line is string => line !== undefined && line.trim() !== "")
+    .map((line) => line.replace(/\*\//g, "*\\/").trim());
+  const body = [...text.flatMap((line, i) => (i > 0 ? ["", ...line.split(/\r?\n/)] : line.split(/\r?\n/))), `@see ${iri}`];
+  return [`${indent}/**`, ...body.map((line) => (line === "" ? `${indent} *` : `${indent} * ${line}`)), `${indent} */`].join("\n");
+}
+
+/** TypeScript type of one value of a property */
+function valueType(property: SchemaProperty, names: ModelNames): string {
+  const types = property.ranges.map((range) => {
+    if (isDatatypeRange(range)) {
+      const type = datatypeSchema(range).type;
+      return type === "integer" || type === "number" ? "number" : type === "boolean" ? "boolean" : "string";
+    }
+    const name = names.classes.get(range);
+    return name ? `Ref<${name}>` : "string";
+  });
+  if (types.length === 0) return property.kind === "object" ? "Ref<JsonLdNode>" : "string";
+  const distinct = [...new Set(types)];
+  return distinct.length === 1 ? distinct[0] as string : distinct.join(" | ");
+}
+
+/**
+ * TypeScript interfaces for a model, superclasses first.
+ * A property is declared on the class that has it in its domain (or restriction), not repeated on subclasses;
+ * maxCount 1 gives a single value, otherwise an array; minCount ≥ 1 makes the field required.
+ */
+export function generateTypeScript(classes: ModelClass[], compact: (uri: string) => string): string {
+  const names = modelNames(classes, compact);
+  const byUri = new Map(classes.map((cls) => [cls.uri, cls]));
+
+  // Properties declared by a class or by any of its ancestors in the model
+  const inherited = new Map<string, Set<string>>();
+  const declaredAbove = (uri: string, seen = new Set<string>()): Set<string> => {
+    const cached = inherited.get(uri);
+    if (cached) return cached;
+    const result = new Set<string>();
+    seen.add(uri);
+    for (const parent of byUri.get(uri)?.parents ?? []) {
+      if (seen.has(parent)) continue;
+      for (const property of byUri.get(parent)?.properties ?? []) result.add(property.uri);
+      for (const property of declaredAbove(parent, seen)) result.add(property);
+    }
+    inherited.set(uri, result);
+    return result;
+  };
+
+  // Superclasses before subclasses, then by name
+  const ordered: ModelClass[] = [];
+  const placed = new Set<string>();
+  const place = (cls: ModelClass, visiting: Set<string>) => {
+    if (placed.has(cls.uri) || visiting.has(cls.uri)) return;
+    visiting.add(cls.uri);
+    for (const parent of cls.parents) {
+      const parentClass = byUri.get(parent);
+      if (parentClass) place(parentClass, visiting);
+    }
+    placed.add(cls.uri);
+    ordered.push(cls);
+  };
+  const byName = (a: ModelClass, b: ModelClass) => (names.classes.get(a.uri) ?? "").localeCompare(names.classes.get(b.uri) ?? "");
+  for (const cls of [...classes].sort(byName)) place(cls, new Set());
+
+  const interfaces = ordered.map((cls) => {
+    const name = names.classes.get(cls.uri) ?? identifier(localName(cls.uri));
+    const parents = cls.parents.map((parent) => names.classes.get(parent)).filter((parent): parent is string => parent !== undefined);
+    const above = declaredAbove(cls.uri);
+    const fields = cls.properties
+      .filter((property) => !above.has(property.uri))
+      .sort((a, b) => (names.properties.get(a.uri) ?? "").localeCompare(names.properties.get(b.uri) ?? ""))
+      .map((property) => {
+        const field = names.properties.get(property.uri) ?? localName(property.uri);
+        const key = /^[\p{L}_$][\p{L}\p{N}_$]*$/u.test(field) ? field : JSON.stringify(field);
+        const optional = (property.minCount ?? 0) > 0 ? "" : "?";
+        const type = valueType(property, names);
+        const fieldType = property.maxCount === 1 ? type : type.includes(" ") ? `(${type})[]` : `${type}[]`;
+        return `${docComment([property.label, property.description], property.uri, "  ")}\n  ${key}${optional}: ${fieldType};`;
+      });
+    const header = `export interface ${name} extends ${(parents.length > 0 ? parents : [BASE_INTERFACE]).join(", ")}`;
+    return `${docComment([cls.label, cls.description], cls.uri, "")}\n${header} {${fields.length > 0 ? `\n${fields.join("\n\n")}\n` : ""}}\n`;
+  });
+
+  return [TYPESCRIPT_PREAMBLE, ...interfaces].join("\n");
+}
+
+// =============================================================================
+// JSON-LD CONTEXT
+// =============================================================================
+
+/**
+ * JSON-LD @context matching the generated interfaces: "id" and "type" as keywords,
+ * the used prefixes, each interface name to its class and each field to its property,
+ * with @type for references and typed literals and @container @set for arrays
+ */
+export function generateJsonLdContext(classes: ModelClass[], prefixes: Record<string, string>): Record<string, unknown> {
+  const compact = (uri: string) => compactIri(uri, prefixes);
+  const names = modelNames(classes, compact);
+  const used = new Set<string>();
+  const term = (uri: string) => {
+    const curie = compact(uri);
+    if (curie !== uri) used.add(curie.slice(0, curie.indexOf(":")));
+    return curie;
+  };
+
+  const terms: Record<string, unknown> = {};
+  for (const cls of classes) terms[names.classes.get(cls.uri) ?? localName(cls.uri)] = term(cls.uri);
+
+  const properties = new Map<string, SchemaProperty>();
+  for (const property of classes.flatMap((cls) => cls.properties)) {
+    const current = properties.get(property.uri);
+    // An array anywhere makes the term a set
+    if (!current || (current.maxCount === 1 && property.maxCount !== 1)) properties.set(property.uri, property);
+  }
+  for (const property of [...properties.values()].sort((a, b) => (names.properties.get(a.uri) ?? "").localeCompare(names.properties.get(b.uri) ?? ""))) {
+    const isReference = property.ranges.length > 0 ? property.ranges.every((range) => !isDatatypeRange(range)) : property.kind === "object";
+    const [range] = property.ranges;
+    const datatype = !isReference && property.ranges.length === 1 && range?.startsWith("http://www.w3.org/2001/XMLSchema#") && !range.endsWith("#string")
+      ? term(range)
+      : undefined;
+    terms[names.properties.get(property.uri) ?? localName(property.uri)] = {
+      "@id": term(property.uri),
+      ...(isReference ? { "@type": "@id" } : datatype ? { "@type": datatype } : {}),
+      ...(property.maxCount !== 1 ? { "@container": "@set" } : {}),
+    };
+  }
+
+  return {
+    "@context": {
+      id: "@id",
+      type: "@type",
+      ...Object.fromEntries([...used].sort().map((prefix) => [prefix, prefixes[prefix]])),
+      ...terms,
+    },
+  };
+}
@@ -0,0 +1,447 @@
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { existsSync, readFileSync } from "fs";
+import { dirname, extname, join, resolve } from "path";
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+const DEFAULT_ENDPOINT = "https://schema.gov.it/sparql";
+const DEFAULT_USER_AGENT = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/133.0.0.0 Safari/537.36";
+
+/** Config files looked up in the working directory when MCP_CONFIG is not set */
+const DEFAULT_CONFIG_FILES = ["schema-gov-it-mcp.yaml", "schema-gov-it-mcp.yml", "schema-gov-it-mcp.json"];
+
+const timeoutMs = z.number().int().positive();
+
+/** Timeouts without defaults, used for profile and env overrides */
+const timeoutOverridesSchema = z.object({
+  /** Queries against the main endpoint */
+  sparqlMs: timeoutMs.optional(),
+  /** Queries against external endpoints (query_external_endpoint, explore_external_endpoint) */
+  externalMs: timeoutMs.optional(),
+  /** Downloads of distribution files (preview_distribution) */
+  distributionMs: timeoutMs.optional(),
+  /** Queries that build the full-text search index */
+  indexMs: timeoutMs.optional(),
+});
+
+const timeoutsSchema = z.object({
+  sparqlMs: timeoutMs.default(30000),
+  externalMs: timeoutMs.default(15000),
+  distributionMs: timeoutMs.default(10000),
+  indexMs: timeoutMs.default(120000),
+});
+
+const cacheOverridesSchema = z.object({
+  ttlSeconds: z.number().int().nonnegative().optional(),
+  externalTtlSeconds: z.number().int().nonnegative().optional(),
+  maxEntries: z.number().int().positive().optional(),
+  persist: z.boolean().optional(),
+  /** Defaults to a "cache" directory next to logDir */
+  dir: z.string().optional(),
+});
+
+const cacheSchema = z.object({
+  ttlSeconds: z.number().int().nonnegative().default(3600),
+  externalTtlSeconds: z.number().int().nonnegative().default(600),
+  maxEntries: z.number().int().positive().default(500),
+  persist: z.boolean().default(false),
+  dir: z.string().optional(),
+});
+
+const searchIndexOverridesSchema = z.object({
+  enabled: z.boolean().optional(),
+  refreshMinutes: z.number().int().nonnegative().optional(),
+});
+
+/** Full-text index over labels used by the search tools; 0 minutes disables the scheduled refresh */
+const searchIndexSchema = z.object({
+  enabled: z.boolean().default(true),
+  refreshMinutes: z.number().int().nonnegative().default(360),
+});
+
+const monitorOverridesSchema = z.object({
+  enabled: z.boolean().optional(),
+  intervalMinutes: z.number().int().positive().optional(),
+  dir: z.string().optional(),
+});
+
+/** Background catalog monitor, run in HTTP mode; dir defaults to a "monitor" directory next to logDir */
+const monitorSchema = z.object({
+  enabled: z.boolean().default(true),
+  intervalMinutes: z.number().int().positive().default(60),
+  dir: z.string().optional(),
+});
+
+const recommendedEndpointSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  endpointUrl: z.url({ protocol: /^https$/ }),
+  category: z.enum(["italian-pa", "eu", "knowledge-graph"]),
+  whySuggested: z.string(),
+  bestFor: z.array(z.string()),
+  relatedTo: z.array(z.string()),
+  exampleQueryIdea: z.string(),
+  status: z.literal("curated").default("curated"),
+});
+
+/** Named endpoint profile: a mirror, a staging instance or a private Virtuoso */
+const profileSchema = z.object({
+  description: z.string().optional(),
+  endpoint: z.url({ protocol: /^https?$/ }),
+  /** Extra HTTP headers sent to this endpoint only (e.g. Authorization for a private store) */
+  headers: z.record(z.string(), z.string()).optional(),
+  timeouts: timeoutOverridesSchema.optional(),
+  characterLimit: z.number().int().positive().optional(),
+  userAgent: z.string().optional(),
+});
+
+const fileSchema = z.object({
+  profile: z.string().optional(),
+  profiles: z.record(z.string(), profileSchema).default({}),
+  endpoint: z.url({ protocol: /^https?$/ }).default(DEFAULT_ENDPOINT),
+  headers: z.record(z.string(), z.string()).default({}),
+  characterLimit: z.number().int().positive().default(50_000),
+  /** Most bytes read from a distribution (after decompression) by preview_distribution and the profiling tools */
+  distributionMaxBytes: z.number().int().positive().default(20_000_000),
+  logDir: z.string().default("logs"),
+  userAgent: z.string().min(1).default(DEFAULT_USER_AGENT),
+  timeouts: timeoutsSchema.prefault({}),
+  cache: cacheSchema.prefault({}),
+  searchIndex: searchIndexSchema.prefault({}),
+  monitor: monitorSchema.prefault({}),
+  snapshot: z.string().optional(),
+  /** Directory where export tools may save files; exports are only returned as resources when unset */
+  exportDir: z.string().optional(),
+  /** Directory of the ontology snapshots saved by diff_ontology */
+  ontologySnapshotDir: z.string().optional(),
+  /** Directory diff_ontology may read "file:" sources from; they are refused when unset */
+  ontologyFileDir: z.string().optional(),
+  recommendedExternalEndpoints: z.array(recommendedEndpointSchema).optional(),
+  /** Endpoints that SERVICE clauses in raw queries may target (default: main endpoint + recommended ones) */
+  allowedServiceEndpoints: z.array(z.url({ protocol: /^https?$/ })).optional(),
+}).strict();
+
+/** Values that can be overridden through MCP_* environment variables */
+const envSchema = z.object({
+  endpoint: z.url({ protocol: /^https?$/ }).optional(),
+  characterLimit: z.number().int().positive().optional(),
+  distributionMaxBytes: z.number().int().positive().optional(),
+  logDir: z.string().optional(),
+  userAgent: z.string().min(1).optional(),
+  snapshot: z.string().optional(),
+  exportDir: z.string().optional(),
+  ontologySnapshotDir: z.string().optional(),
+  ontologyFileDir: z.string().optional(),
+  timeouts: timeoutOverridesSchema,
+  cache: cacheOverridesSchema,
+  searchIndex: searchIndexOverridesSchema,
+  monitor: monitorOverridesSchema,
+});
+
+export type RecommendedExternalEndpoint = z.infer<typeof recommendedEndpointSchema>;
+export type EndpointProfile = z.infer<typeof profileSchema>;
+
+/** Fully resolved configuration: file values, then the selected profile, then env overrides */
+export interface ServerConfig {
+  /** Where the configuration was read from, or null for built-in defaults */
+  source: string | null;
+  /** Name of the active endpoint profile, or null when the top-level endpoint is used */
+  profile: string | null;
+  endpoint: string;
+  headers: Record<string, string>;
+  characterLimit: number;
+  distributionMaxBytes: number;
+  logDir: string;
+  userAgent: string;
+  timeouts: z.infer<typeof timeoutsSchema>;
+  cache: Omit<z.infer<typeof cacheSchema>, "dir"> & { dir: string };
+  searchIndex: z.infer<typeof searchIndexSchema>;
+  monitor: Omit<z.infer<typeof monitorSchema>, "dir"> & { dir: string };
+  snapshot: string | undefined;
+  exportDir: string | undefined;
+  ontologySnapshotDir: string;
+  ontologyFileDir: string | undefined;
+  /** Every endpoint profile defined in the file, usable as a source by diff_ontology */
+  profiles: Record<string, EndpointProfile>;
+  recommendedExternalEndpoints: RecommendedExternalEndpoint[];
+  allowedServiceEndpoints: string[];
+}
+
+// =============================================================================
+// DEFAULTS
+// =============================================================================
+
+const DEFAULT_RECOMMENDED_EXTERNAL_ENDPOINTS: RecommendedExternalEndpoint[] = [
+  {
+    id: "lod-dati-gov-it",
+    name: "lod.dati.gov.it SPARQL",
+    endpointUrl: "https://lod.dati.gov.it/sparql",
+    category: "italian-pa",
+    whySuggested: "National linked open data endpoint for Italian public datasets and metadata, useful as a natural extension of schema.gov.it exploration.",
+    bestFor: ["dataset metadata", "catalog linking", "DCAT exploration", "public sector discovery"],
+    relatedTo: ["dati.gov.it", "catalogo nazionale open data", "DCAT-AP_IT"],
+    exampleQueryIdea: "Start from concepts or vocabularies in schema.gov.it, then inspect linked dataset metadata and distributions in the national catalog.",
+    status: "curated",
+  },
+  {
+    id: "dati-cultura",
+    name: "dati.cultura.gov.it SPARQL",
+    endpointUrl: "https://dati.cultura.gov.it/sparql",
+    category: "italian-pa",
+    whySuggested: "Italian culture domain endpoint for heritage, institutions, and cultural linked data modeled with national semantics.",
+    bestFor: ["cultural heritage", "museums", "archives", "domain-specific linked data"],
+    relatedTo: ["MiC", "beni culturali", "knowledge graphs della cultura"],
+    exampleQueryIdea: "Reuse shared concepts from schema.gov.it to explore cultural entities, places, and heritage datasets.",
+    status: "curated",
+  },
+  {
+    id: "dati-camera",
+    name: "dati.camera.it SPARQL",
+    endpointUrl: "https://dati.camera.it/sparql",
+    category: "italian-pa",
+    whySuggested: "Rich institutional linked open data from the Italian Chamber of Deputies, useful for public sector entity linking.",
+    bestFor: ["institutional data", "persons", "organizations", "legislative references"],
+    relatedTo: ["dati.camera.it", "open data PA", "entity reconciliation"],
+    exampleQueryIdea: "Link people, organizations, or roles found in schema.gov.it against parliamentary resources.",
+    status: "curated",
+  },
+  {
+    id: "dati-senato",
+    name: "dati.senato.it SPARQL",
+    endpointUrl: "https://dati.senato.it/sparql",
+    category: "italian-pa",
+    whySuggested: "Institutional RDF endpoint complementary to Camera data for cross-checking public administration actors and legislative entities.",
+    bestFor: ["institutional data", "senate acts", "persons", "cross-checking"],
+    relatedTo: ["dati.senato.it", "open data PA", "interoperability"],
+    exampleQueryIdea: "Compare entities or legal references across multiple Italian institutional datasets.",
+    status: "curated",
+  },
+  {
+    id: "eu-publications",
+    name: "EU Publications Office SPARQL",
+    endpointUrl: "https://publications.europa.eu/webapi/rdf/sparql",
+    category: "eu",
+    whySuggested: "Reference endpoint for EU vocabularies, legal resources, and interoperability artifacts often linked from Italian public data.",
+    bestFor: ["EU vocabularies", "legal metadata", "authority tables", "cross-border mappings"],
+    relatedTo: ["EUR-Lex ecosystem", "DCAT-AP", "European interoperability"],
+    exampleQueryIdea: "Resolve controlled vocabularies or legal concepts connected to Italian datasets and metadata profiles.",
+    status: "curated",
+  },
+  {
+    id: "wikidata",
+    name: "Wikidata Query Service",
+    endpointUrl: "https://query.wikidata.org/sparql",
+    category: "knowledge-graph",
+    whySuggested: "Broad public knowledge graph useful for enrichment and entity linking after you identify concepts in schema.gov.it.",
+    bestFor: ["entity enrichment", "place data", "cross-dataset identifiers", "background knowledge"],
+    relatedTo: ["Wikidata", "entity linking", "semantic enrichment"],
+    exampleQueryIdea: "Enrich municipalities, organizations, or concepts discovered in schema.gov.it with external identifiers.",
+    status: "curated",
+  },
+  {
+    id: "dbpedia",
+    name: "DBpedia SPARQL",
+    endpointUrl: "https://dbpedia.org/sparql",
+    category: "knowledge-graph",
+    whySuggested: "General-purpose linked data endpoint still useful for simple lookups and alignment experiments.",
+    bestFor: ["quick lookups", "sameAs checks", "exploratory linking"],
+    relatedTo: ["DBpedia", "linked open data", "alignment testing"],
+    exampleQueryIdea: "Test owl:sameAs or skos mappings from Italian concepts toward well-known public resources.",
+    status: "curated",
+  },
+];
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/** Environment variable behind each overridable setting, used in error messages */
+const ENV_VARIABLES: Record<string, string> = {
+  "endpoint": "MCP_ENDPOINT",
+  "characterLimit": "MCP_CHARACTER_LIMIT",
+  "distributionMaxBytes": "MCP_DISTRIBUTION_MAX_BYTES",
+  "logDir": "MCP_LOG_DIR",
+  "userAgent": "MCP_USER_AGENT",
+  "snapshot": "MCP_SNAPSHOT",
+  "exportDir": "MCP_EXPORT_DIR",
+  "ontologySnapshotDir": "MCP_ONTOLOGY_SNAPSHOT_DIR",
+  "ontologyFileDir": "MCP_ONTOLOGY_FILE_DIR",
+  "timeouts.sparqlMs": "MCP_SPARQL_TIMEOUT_MS",
+  "timeouts.externalMs": "MCP_EXTERNAL_TIMEOUT_MS",
+  "timeouts.distributionMs": "MCP_DISTRIBUTION_TIMEOUT_MS",
+  "timeouts.indexMs": "MCP_INDEX_TIMEOUT_MS",
+  "cache.ttlSeconds": "MCP_CACHE_TTL",
+  "cache.externalTtlSeconds": "MCP_CACHE_EXTERNAL_TTL",
+  "cache.maxEntries": "MCP_CACHE_MAX_ENTRIES",
+  "cache.persist": "MCP_CACHE_PERSIST",
+  "cache.dir": "MCP_CACHE_DIR",
+  "searchIndex.enabled": "MCP_SEARCH_INDEX",
+  "searchIndex.refreshMinutes": "MCP_SEARCH_INDEX_REFRESH_MINUTES",
+  "monitor.enabled": "MCP_MONITOR",
+  "monitor.intervalMinutes": "MCP_MONITOR_INTERVAL_MINUTES",
+  "monitor.dir": "MCP_MONITOR_DIR",
+};
+
+/** Format zod issues as "path: message" lines, naming the source they came from */
+function formatIssues(error: z.ZodError, source: string, names: Record<string, string> = {}): string {
+  const lines = error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    const name = names[path];
+    return `  - ${name ? `${name} (${path})` : path}: ${issue.message}`;
+  });
+  return `Invalid configuration in ${source}:\n${lines.join("\n")}`;
+}
+
+/** Read a JSON or YAML config file into a plain object */
+function readConfigFile(path: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (err) {
+    throw new Error(`Cannot read configuration file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  try {
+    const ext = extname(path).toLowerCase();
+    const parsed: unknown = ext === ".json" ? JSON.parse(text) : parseYaml(text);
+    return parsed ?? {};
+  } catch (err) {
+    throw new Error(`Cannot parse configuration file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Locate the config file: MCP_CONFIG, or one of the default names in the working directory */
+function findConfigFile(env: NodeJS.ProcessEnv): string | null {
+  if (env.MCP_CONFIG) {
+    return resolve(env.MCP_CONFIG);
+  }
+  for (const name of DEFAULT_CONFIG_FILES) {
+    const candidate = join(process.cwd(), name);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+/** Parse a numeric env var; non-numeric values are kept so zod reports them */
+function envNumber(value: string | undefined): number | string | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  return Number.isNaN(n) ? value : n;
+}
+
+/** Drop undefined values so they don't override file settings */
+function defined<T extends Record<string, unknown>>(obj: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+/**
+ * Load and validate the server configuration.
+ * Precedence (highest first): environment variables, selected profile, config file, built-in defaults.
+ * Throws an Error listing every schema violation.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const source = findConfigFile(env);
+  const raw = source ? readConfigFile(source) : {};
+
+  const parsedFile = fileSchema.safeParse(raw);
+  if (!parsedFile.success) {
+    throw new Error(formatIssues(parsedFile.error, source ?? "built-in defaults"));
+  }
+  const file = parsedFile.data;
+
+  const profileName = env.MCP_PROFILE || file.profile || null;
+  const profile = profileName ? file.profiles[profileName] : undefined;
+  if (profileName && !profile) {
+    const available = Object.keys(file.profiles);
+    throw new Error(
+      `Unknown endpoint profile "${profileName}"` +
+      (available.length > 0 ? `. Available profiles: ${available.join(", ")}` : ". No profiles are defined in the configuration")
+    );
+  }
+
+  // Environment overrides are validated with the same schema as the file
+  const overrides = envSchema.safeParse({
+    ...defined({
+      endpoint: env.MCP_ENDPOINT || undefined,
+      characterLimit: envNumber(env.MCP_CHARACTER_LIMIT),
+      distributionMaxBytes: envNumber(env.MCP_DISTRIBUTION_MAX_BYTES),
+      logDir: env.MCP_LOG_DIR || undefined,
+      userAgent: env.MCP_USER_AGENT || undefined,
+      snapshot: env.MCP_SNAPSHOT || undefined,
+      exportDir: env.MCP_EXPORT_DIR || undefined,
+      ontologySnapshotDir: env.MCP_ONTOLOGY_SNAPSHOT_DIR || undefined,
+      ontologyFileDir: env.MCP_ONTOLOGY_FILE_DIR || undefined,
+    }),
+    timeouts: defined({
+      sparqlMs: envNumber(env.MCP_SPARQL_TIMEOUT_MS),
+      externalMs: envNumber(env.MCP_EXTERNAL_TIMEOUT_MS),
+      distributionMs: envNumber(env.MCP_DISTRIBUTION_TIMEOUT_MS),
+      indexMs: envNumber(env.MCP_INDEX_TIMEOUT_MS),
+    }),
+    cache: defined({
+      ttlSeconds: envNumber(env.MCP_CACHE_TTL),
+      externalTtlSeconds: envNumber(env.MCP_CACHE_EXTERNAL_TTL),
+      maxEntries: envNumber(env.MCP_CACHE_MAX_ENTRIES),
+      persist: env.MCP_CACHE_PERSIST === undefined ? undefined : env.MCP_CACHE_PERSIST === "true" || env.MCP_CACHE_PERSIST === "1",
+      dir: env.MCP_CACHE_DIR || undefined,
+    }),
+    searchIndex: defined({
+      enabled: env.MCP_SEARCH_INDEX === undefined ? undefined : env.MCP_SEARCH_INDEX === "true" || env.MCP_SEARCH_INDEX === "1",
+      refreshMinutes: envNumber(env.MCP_SEARCH_INDEX_REFRESH_MINUTES),
+    }),
+    monitor: defined({
+      enabled: env.MCP_MONITOR === undefined ? undefined : env.MCP_MONITOR === "true" || env.MCP_MONITOR === "1",
+      intervalMinutes: envNumber(env.MCP_MONITOR_INTERVAL_MINUTES),
+      dir: env.MCP_MONITOR_DIR || undefined,
+    }),
+  });
+  if (!overrides.success) {
+    throw new Error(formatIssues(overrides.error, "environment variables", ENV_VARIABLES));
+  }
+  const envValues = overrides.data;
+
+  const logDir = resolve(envValues.logDir ?? file.logDir);
+  const cacheDir = envValues.cache.dir ?? file.cache.dir;
+  const monitorDir = envValues.monitor.dir ?? file.monitor.dir;
+  const exportDir = envValues.exportDir ?? file.exportDir;
+  const ontologySnapshotDir = envValues.ontologySnapshotDir ?? file.ontologySnapshotDir;
+  const ontologyFileDir = envValues.ontologyFileDir ?? file.ontologyFileDir;
+
+  const endpoint = envValues.endpoint ?? profile?.endpoint ?? file.endpoint;
+  // Profile headers (e.g. Authorization) go only to the profile's endpoint, not to one set by MCP_ENDPOINT
+  const profileHeaders = profile && endpoint === profile.endpoint ? profile.headers : undefined;
+  const recommendedExternalEndpoints = file.recommendedExternalEndpoints ?? DEFAULT_RECOMMENDED_EXTERNAL_ENDPOINTS;
+
+  return {
+    source,
+    profile: profileName,
+    endpoint,
+    headers: { ...file.headers, ...profileHeaders },
+    characterLimit: envValues.characterLimit ?? profile?.characterLimit ?? file.characterLimit,
+    distributionMaxBytes: envValues.distributionMaxBytes ?? file.distributionMaxBytes,
+    logDir,
+    userAgent: envValues.userAgent ?? profile?.userAgent ?? file.userAgent,
+    timeouts: { ...file.timeouts, ...defined(profile?.timeouts ?? {}), ...defined(envValues.timeouts) },
+    cache: {
+      ...file.cache,
+      ...defined(envValues.cache),
+      dir: cacheDir ? resolve(cacheDir) : join(dirname(logDir), "cache"),
+    },
+    searchIndex: { ...file.searchIndex, ...defined(envValues.searchIndex) },
+    monitor: {
+      ...file.monitor,
+      ...defined(envValues.monitor),
+      dir: monitorDir ? resolve(monitorDir) : join(dirname(logDir), "monitor"),
+    },
+    snapshot: envValues.snapshot ?? file.snapshot,
+    exportDir: exportDir ? resolve(exportDir) : undefined,
+    ontologySnapshotDir: ontologySnapshotDir ? resolve(ontologySnapshotDir) : join(dirname(logDir), "ontology-snapshots"),
+    ontologyFileDir: ontologyFileDir ? resolve(ontologyFileDir) : undefined,
+    profiles: file.profiles,
+    recommendedExternalEndpoints,
+    allowedServiceEndpoints: file.allowedServiceEndpoints
+      ?? [endpoint, ...recommendedExternalEndpoints.map((e) => e.endpointUrl)],
+  };
+}
@@ -0,0 +1,226 @@
+import { randomUUID } from "crypto";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Options for the server-side buffer of truncated results */
+export interface CursorStoreOptions {
+  /** Maximum number of pending cursors (oldest are dropped first) */
+  maxEntries: number;
+  /** How long a cursor stays valid, in milliseconds */
+  ttlMs: number;
+}
+
+/** Rows left over by a truncated response, waiting for fetch_more */
+export interface PendingRows {
+  toolName: string;
+  /** "rows" for arrays (and tabular results), "lines" for long text such as Turtle */
+  kind: "rows" | "lines";
+  rows: unknown[];
+  /** Column names of a tabular result, repeated in each chunk */
+  headers?: string[];
+}
+
+/** Outcome of fitting a result into the character limit */
+export interface TruncationResult {
+  /** The value to serialize: the data itself, or an envelope describing the truncation */
+  output: unknown;
+  truncated: boolean;
+}
+
+interface CursorEntry extends PendingRows {
+  expiresAt: number;
+}
+
+/** Location of the list that gets cut: the container holding it and its key */
+interface ListLocation {
+  parent: Record<string, unknown> | unknown[] | null;
+  key: string | number | null;
+  kind: "rows" | "lines";
+  size: number;
+}
+
+// =============================================================================
+// CURSOR STORE
+// =============================================================================
+
+/** In-memory buffer of the rows omitted from truncated responses, keyed by opaque cursor */
+export class CursorStore {
+  private readonly entries = new Map<string, CursorEntry>();
+
+  constructor(private readonly options: CursorStoreOptions) {}
+
+  /** Keep the rows and return the cursor that retrieves them */
+  put(pending: PendingRows): string {
+    this.prune();
+    const cursor = randomUUID();
+    this.entries.set(cursor, { ...pending, expiresAt: Date.now() + this.options.ttlMs });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    return cursor;
+  }
+
+  /** Take the rows of a cursor; each cursor can be used once */
+  take(cursor: string): PendingRows | undefined {
+    const entry = this.entries.get(cursor);
+    this.entries.delete(cursor);
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return {
+      toolName: entry.toolName,
+      kind: entry.kind,
+      rows: entry.rows,
+      ...(entry.headers ? { headers: entry.headers } : {}),
+    };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [cursor, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(cursor);
+    }
+  }
+}
+
+// =============================================================================
+// TRUNCATION
+// =============================================================================
+
+/** Room left for the truncation envelope (_truncated, _message, _cursor...) */
+const ENVELOPE_RESERVE = 400;
+
+/** Find the largest list in the result: an array, or a multi-line string */
+function findLargestList(
+  value: unknown,
+  parent: ListLocation["parent"] = null,
+  key: ListLocation["key"] = null
+): ListLocation | undefined {
+  if (Array.isArray(value)) {
+    return { parent, key, kind: "rows", size: JSON.stringify(value).length };
+  }
+  if (typeof value === "string") {
+    return value.includes("\n") ? { parent, key, kind: "lines", size: value.length } : undefined;
+  }
+  if (value === null || typeof value !== "object") return undefined;
+
+  let largest: ListLocation | undefined;
+  const record = value as Record<string, unknown>;
+  for (const [childKey, child] of Object.entries(record)) {
+    const found = findLargestList(child, record, childKey);
+    if (found && (!largest || found.size > largest.size)) largest = found;
+  }
+  return largest;
+}
+
+function readList(data: unknown, location: ListLocation): unknown {
+  if (location.parent === null) return data;
+  return (location.parent as Record<string | number, unknown>)[location.key as string | number];
+}
+
+/**
+ * Fit a result into `limit` characters by cutting its largest list at a row (or line) boundary.
+ * The omitted rows go to the cursor store, and the response says how many were left out.
+ * Results without a list to cut fall back to a plain text prefix.
+ */
+export function truncateToLimit(
+  data: unknown,
+  limit: number,
+  store: CursorStore,
+  toolName: string
+): TruncationResult {
+  const text = JSON.stringify(data) ?? "null";
+  if (text.length <= limit) {
+    return { output: data, truncated: false };
+  }
+
+  const location = findLargestList(data);
+  if (location) {
+    const original = readList(data, location);
+    const rows: unknown[] = location.kind === "lines" ? String(original).split("\n") : original as unknown[];
+    const withRows = (count: number): unknown => {
+      const kept = location.kind === "lines" ? rows.slice(0, count).join("\n") : rows.slice(0, count);
+      if (location.parent === null) return kept;
+      const parent = location.parent as Record<string | number, unknown>;
+      const previous = parent[location.key as string | number];
+      parent[location.key as string | number] = kept;
+      const copy = structuredClone(data);
+      parent[location.key as string | number] = previous;
+      return copy;
+    };
+
+    // Largest number of rows that still fits
+    let low = 0;
+    let high = rows.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (JSON.stringify(withRows(mid)).length + ENVELOPE_RESERVE <= limit) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const parent = location.parent;
+    const headers = parent && !Array.isArray(parent) && Array.isArray(parent.headers) && location.key === "rows"
+      ? (parent.headers as string[])
+      : undefined;
+    const unit = location.kind === "lines" ? "lines" : "rows";
+    const keep = (rest: unknown[]): string | undefined => rest.length === 0
+      ? undefined
+      : store.put({ toolName, kind: location.kind, rows: rest, ...(headers ? { headers } : {}) });
+
+    // Not even one row fits: cut the first one as text, so that every page consumes at least a row
+    if (low === 0 && rows.length > 0) {
+      const first = location.kind === "lines" ? String(rows[0]) : JSON.stringify(rows[0]) ?? "null";
+      const omitted = rows.length - 1;
+      const cursor = keep(rows.slice(1));
+      return {
+        truncated: true,
+        output: {
+          _truncated: true,
+          _message: `The first ${unit.slice(0, -1)} alone exceeded ${limit} characters and was cut as text` +
+            (cursor ? `; ${omitted} ${unit} omitted. Call fetch_more with the cursor for the rest` : ""),
+          _returned: 1,
+          _omitted: omitted,
+          ...(cursor ? { _cursor: cursor } : {}),
+          text: first.slice(0, Math.max(0, limit - ENVELOPE_RESERVE)),
+        },
+      };
+    }
+
+    const trimmed = withRows(low);
+    if (JSON.stringify(trimmed).length + ENVELOPE_RESERVE <= limit) {
+      const omitted = rows.length - low;
+      return {
+        truncated: true,
+        output: {
+          _truncated: true,
+          _message: `Result exceeded ${limit} characters: returned ${low} ${unit}, ${omitted} omitted. Call fetch_more with the cursor for the rest`,
+          _returned: low,
+          _omitted: omitted,
+          _cursor: keep(rows.slice(low)),
+          data: trimmed,
+        },
+      };
+    }
+  }
+
+  return {
+    truncated: true,
+    output: {
+      _truncated: true,
+      _message: `Result exceeded ${limit} characters and was cut as text`,
+      text: text.slice(0, Math.max(0, limit - ENVELOPE_RESERVE)),
+    },
+  };
+}
+
+/** Rebuild the value returned by fetch_more from the pending rows */
+export function pendingToData(pending: PendingRows): unknown {
+  if (pending.kind === "lines") return pending.rows.join("\n");
+  if (pending.headers) return { headers: pending.headers, rows: pending.rows };
+  return pending.rows;
+}
@@ -0,0 +1,311 @@
+import type { Quad } from "n3";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Kind of an ontology term, from its rdf:type */
+export type TermKind = "class" | "objectProperty" | "datatypeProperty" | "annotationProperty" | "property";
+
+/** A class or property of an ontology, with the fields compared by diff_ontology */
+export interface OntologyTerm {
+  uri: string;
+  kind: TermKind;
+  /** First label / comment per language ("" for untagged) */
+  labels: Record<string, string>;
+  comments: Record<string, string>;
+  domain: string[];
+  range: string[];
+  /** rdfs:subClassOf for classes, rdfs:subPropertyOf for properties */
+  parents: string[];
+  deprecated: boolean;
+  /** dct:isReplacedBy, owl:equivalentClass and owl:equivalentProperty targets */
+  replacedBy: string[];
+}
+
+/** One version of an ontology: its header and its terms */
+export interface OntologyModel {
+  uri: string;
+  versionInfo?: string;
+  versionIri?: string;
+  modified?: string;
+  terms: Map<string, OntologyTerm>;
+}
+
+/** How much a change affects data and applications built on the previous version */
+export type ChangeSeverity = "breaking" | "additive" | "editorial";
+
+export type ChangeType =
+  | "added"
+  | "removed"
+  | "renamed"
+  | "kind_changed"
+  | "domain_changed"
+  | "range_changed"
+  | "parent_added"
+  | "parent_removed"
+  | "deprecated"
+  | "undeprecated"
+  | "label_changed"
+  | "comment_changed"
+  | "version_changed";
+
+/** One entry of the changelog */
+export interface OntologyChange {
+  change: ChangeType;
+  uri: string;
+  kind?: TermKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#";
+const OWL = "http://www.w3.org/2002/07/owl#";
+const DCT = "http://purl.org/dc/terms/";
+
+/** Predicates read for the ontology header and its terms */
+export const ONTOLOGY_PREDICATES = [
+  `${RDF}type`,
+  `${RDFS}label`,
+  `${RDFS}comment`,
+  `${RDFS}domain`,
+  `${RDFS}range`,
+  `${RDFS}subClassOf`,
+  `${RDFS}subPropertyOf`,
+  `${OWL}deprecated`,
+  `${OWL}equivalentClass`,
+  `${OWL}equivalentProperty`,
+  `${DCT}isReplacedBy`,
+  `${OWL}versionInfo`,
+  `${OWL}versionIRI`,
+  `${DCT}modified`,
+];
+
+/** rdf:type values that make a subject a term, most specific first */
+const TERM_KINDS: [string, TermKind][] = [
+  [`${OWL}Class`, "class"],
+  [`${RDFS}Class`, "class"],
+  [`${OWL}ObjectProperty`, "objectProperty"],
+  [`${OWL}DatatypeProperty`, "datatypeProperty"],
+  [`${OWL}AnnotationProperty`, "annotationProperty"],
+  [`${RDF}Property`, "property"],
+];
+
+/** Severity of each change type */
+export const CHANGE_SEVERITY: Record<ChangeType, ChangeSeverity> = {
+  removed: "breaking",
+  renamed: "breaking",
+  kind_changed: "breaking",
+  domain_changed: "breaking",
+  range_changed: "breaking",
+  parent_removed: "breaking",
+  added: "additive",
+  parent_added: "additive",
+  deprecated: "additive",
+  undeprecated: "additive",
+  label_changed: "editorial",
+  comment_changed: "editorial",
+  version_changed: "editorial",
+};
+
+// =============================================================================
+// MODEL
+// =============================================================================
+
+/**
+ * Keep the quads describing an ontology: the ONTOLOGY_PREDICATES of subjects whose URI starts with `ontologyUri`.
+ * Blank-node objects (anonymous restrictions, owl:unionOf lists) are dropped:
+ * their identifiers differ between sources.
+ */
+export function selectOntologyQuads(quads: Quad[], ontologyUri: string): Quad[] {
+  return quads.filter((quad) =>
+    quad.subject.termType === "NamedNode" &&
+    quad.subject.value.startsWith(ontologyUri) &&
+    quad.object.termType !== "BlankNode" &&
+    ONTOLOGY_PREDICATES.includes(quad.predicate.value)
+  );
+}
+
+/** Build an ontology version from its quads: the header of `ontologyUri` and every class or property under it */
+export function ontologyFromQuads(quads: Quad[], ontologyUri: string): OntologyModel {
+  const bySubject = new Map<string, Quad[]>();
+  for (const quad of selectOntologyQuads(quads, ontologyUri)) {
+    const list = bySubject.get(quad.subject.value) ?? [];
+    list.push(quad);
+    bySubject.set(quad.subject.value, list);
+  }
+
+  const model: OntologyModel = { uri: ontologyUri, terms: new Map() };
+  for (const quad of bySubject.get(ontologyUri) ?? []) {
+    const value = quad.object.value;
+    if (quad.predicate.value === `${OWL}versionInfo`) model.versionInfo ??= value;
+    if (quad.predicate.value === `${OWL}versionIRI`) model.versionIri ??= value;
+    if (quad.predicate.value === `${DCT}modified`) model.modified ??= value;
+  }
+
+  for (const [uri, subjectQuads] of bySubject) {
+    if (uri === ontologyUri) continue;
+    const types = new Set(subjectQuads.filter((quad) => quad.predicate.value === `${RDF}type`).map((quad) => quad.object.value));
+    const kind = TERM_KINDS.find(([type]) => types.has(type))?.[1];
+    if (!kind) continue;
+
+    const term: OntologyTerm = {
+      uri,
+      kind,
+      labels: {},
+      comments: {},
+      domain: [],
+      range: [],
+      parents: [],
+      deprecated: false,
+      replacedBy: [],
+    };
+    const add = (list: string[], value: string) => {
+      if (!list.includes(value)) list.push(value);
+    };
+    for (const quad of subjectQuads) {
+      const value = quad.object.value;
+      const lang = quad.object.termType === "Literal" ? quad.object.language : "";
+      switch (quad.predicate.value) {
+        case `${RDFS}label`: term.labels[lang] ??= value; break;
+        case `${RDFS}comment`: term.comments[lang] ??= value; break;
+        case `${RDFS}domain`: add(term.domain, value); break;
+        case `${RDFS}range`: add(term.range, value); break;
+        case `${RDFS}subClassOf`:
+        case `${RDFS}subPropertyOf`:
+          if (value !== uri) add(term.parents, value);
+          break;
+        case `${OWL}deprecated`: term.deprecated = value === "true" || value === "1"; break;
+        case `${OWL}equivalentClass`:
+        case `${OWL}equivalentProperty`:
+        case `${DCT}isReplacedBy`:
+          if (value !== uri) add(term.replacedBy, value);
+          break;
+      }
+    }
+    model.terms.set(uri, term);
+  }
+  return model;
+}
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+/** Lowercased, accent-free text for label comparison */
+function normalizeLabel(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().trim();
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+function sameTexts(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => a[key] === b[key]);
+}
+
+/** Texts that differ between two versions, by language */
+function changedTexts(a: Record<string, string>, b: Record<string, string>): { before: Record<string, string>; after: Record<string, string> } {
+  const before: Record<string, string> = {};
+  const after: Record<string, string> = {};
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (a[key] === b[key]) continue;
+    if (a[key] !== undefined) before[key] = a[key];
+    if (b[key] !== undefined) after[key] = b[key];
+  }
+  return { before, after };
+}
+
+/**
+ * Pair removed terms with added ones that replace them: an explicit link
+ * (dct:isReplacedBy or owl:equivalent* on either side), or else a single added term
+ * of the same kind sharing a label
+ */
+function findRenames(removed: OntologyTerm[], added: OntologyTerm[]): Map<string, OntologyTerm> {
+  const renames = new Map<string, OntologyTerm>();
+  const taken = new Set<string>();
+  const labelsOf = (term: OntologyTerm) => new Set(Object.values(term.labels).map(normalizeLabel));
+
+  for (const old of removed) {
+    const candidates = added.filter((term) => !taken.has(term.uri) && term.kind === old.kind);
+    let match = candidates.find((term) => old.replacedBy.includes(term.uri) || term.replacedBy.includes(old.uri));
+    if (!match) {
+      const oldLabels = labelsOf(old);
+      const byLabel = candidates.filter((term) => [...labelsOf(term)].some((label) => oldLabels.has(label)));
+      if (byLabel.length === 1) match = byLabel[0];
+    }
+    if (match) {
+      renames.set(old.uri, match);
+      taken.add(match.uri);
+    }
+  }
+  return renames;
+}
+
+/** Changes of a term present in both versions */
+function termChanges(before: OntologyTerm, after: OntologyTerm): OntologyChange[] {
+  const changes: OntologyChange[] = [];
+  const { uri, kind } = after;
+  if (before.kind !== after.kind) changes.push({ change: "kind_changed", uri, kind, before: before.kind, after: after.kind });
+  if (!sameSet(before.domain, after.domain)) changes.push({ change: "domain_changed", uri, kind, before: before.domain, after: after.domain });
+  if (!sameSet(before.range, after.range)) changes.push({ change: "range_changed", uri, kind, before: before.range, after: after.range });
+
+  const removedParents = before.parents.filter((parent) => !after.parents.includes(parent));
+  const addedParents = after.parents.filter((parent) => !before.parents.includes(parent));
+  if (removedParents.length > 0) changes.push({ change: "parent_removed", uri, kind, before: removedParents });
+  if (addedParents.length > 0) changes.push({ change: "parent_added", uri, kind, after: addedParents });
+
+  if (!before.deprecated && after.deprecated) {
+    changes.push({ change: "deprecated", uri, kind, ...(after.replacedBy.length > 0 ? { after: after.replacedBy } : {}) });
+  }
+  if (before.deprecated && !after.deprecated) changes.push({ change: "undeprecated", uri, kind });
+
+  if (!sameTexts(before.labels, after.labels)) changes.push({ change: "label_changed", uri, kind, ...changedTexts(before.labels, after.labels) });
+  if (!sameTexts(before.comments, after.comments)) changes.push({ change: "comment_changed", uri, kind, ...changedTexts(before.comments, after.comments) });
+  return changes;
+}
+
+/** Compare two versions of an ontology; changes are ordered by term URI */
+export function diffOntologies(before: OntologyModel, after: OntologyModel): OntologyChange[] {
+  const changes: OntologyChange[] = [];
+
+  const header = (model: OntologyModel) => ({
+    ...(model.versionInfo !== undefined ? { versionInfo: model.versionInfo } : {}),
+    ...(model.versionIri !== undefined ? { versionIri: model.versionIri } : {}),
+    ...(model.modified !== undefined ? { modified: model.modified } : {}),
+  });
+  if (before.versionInfo !== after.versionInfo || before.versionIri !== after.versionIri || before.modified !== after.modified) {
+    changes.push({ change: "version_changed", uri: after.uri, before: header(before), after: header(after) });
+  }
+
+  const removed = [...before.terms.values()].filter((term) => !after.terms.has(term.uri));
+  const added = [...after.terms.values()].filter((term) => !before.terms.has(term.uri));
+  const renames = findRenames(removed, added);
+  const renamedTo = new Set([...renames.values()].map((term) => term.uri));
+
+  for (const term of removed) {
+    const replacement = renames.get(term.uri);
+    if (replacement) {
+      changes.push({ change: "renamed", uri: term.uri, kind: term.kind, after: replacement.uri });
+      changes.push(...termChanges(term, replacement).map((change) => ({ ...change, uri: replacement.uri })));
+    } else {
+      changes.push({ change: "removed", uri: term.uri, kind: term.kind });
+    }
+  }
+  for (const term of added) {
+    if (!renamedTo.has(term.uri)) changes.push({ change: "added", uri: term.uri, kind: term.kind });
+  }
+  for (const term of before.terms.values()) {
+    const next = after.terms.get(term.uri);
+    if (next) changes.push(...termChanges(term, next));
+  }
+
+  return changes.sort((a, b) => a.uri.localeCompare(b.uri));
+}
@@ -0,0 +1,298 @@
+import { Gunzip, Unzip, UnzipInflate } from "fflate";
+import { extname } from "path";
+import {
+  isFeatureCollection,
+  jsonLinesToTable,
+  jsonToTable,
+  looksLikeJsonLines,
+  parseCsvTable,
+  recordsToTable,
+  truncatedJsonItems,
+} from "./tabular.js";
+import type { Table } from "./tabular.js";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Formats read as tables */
+export type DistributionFormat = "csv" | "json" | "jsonl" | "geojson";
+
+/** Compression wrapping a distribution file (HTTP Content-Encoding is undone by fetch) */
+export type Compression = "gzip" | "zip";
+
+/** How a distribution was read */
+export interface DistributionDialect {
+  format: DistributionFormat;
+  compression?: Compression;
+  /** File read from a zip archive */
+  entry?: string;
+  /** Character encoding used to decode the bytes */
+  charset: string;
+  /** The text started with a byte order mark */
+  bom: boolean;
+  delimiter?: string;
+  quote?: string;
+  header?: boolean;
+  /** Bytes read, after decompression */
+  bytes: number;
+  /** The byte cap stopped the reading: the last rows of the file are missing */
+  truncated: boolean;
+}
+
+/** A distribution read as a table */
+export interface Distribution {
+  table: Table;
+  dialect: DistributionDialect;
+}
+
+/** Limits and settings of a read; format, delimiter and header are detected unless given */
+export interface DistributionOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  maxRows?: number | undefined;
+  format?: DistributionFormat | undefined;
+  delimiter?: string | undefined;
+  header?: boolean | undefined;
+}
+
+/** Bytes of a body, decompressed */
+interface BodyContent {
+  bytes: Uint8Array;
+  compression?: Compression;
+  entry?: string;
+  truncated: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Extensions of the zip entries that can be read */
+const READABLE_ENTRIES = new Set([".csv", ".tsv", ".txt", ".json", ".jsonl", ".ndjson", ".geojson"]);
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/** Concatenate byte chunks */
+function concatBytes(chunks: Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Read a body as a stream, undoing gzip or zip compression (recognised by their magic bytes)
+ * as the chunks arrive, and stop once maxBytes have been produced. From a zip archive the first
+ * CSV, JSON, JSON Lines or GeoJSON file is read.
+ */
+async function readBody(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<BodyContent> {
+  const output: Uint8Array[] = [];
+  let size = 0;
+  let full = false;
+  const collect = (data: Uint8Array) => {
+    if (full) return;
+    const room = maxBytes - size;
+    if (data.length > room) {
+      output.push(data.subarray(0, room));
+      size = maxBytes;
+      full = true;
+    } else {
+      output.push(data);
+      size += data.length;
+    }
+  };
+
+  const content: Omit<BodyContent, "bytes" | "truncated"> = {};
+  const skipped: string[] = [];
+  let failure: Error | undefined;
+  let decode: ((chunk: Uint8Array, final: boolean) => void) | undefined;
+  let head: Uint8Array = new Uint8Array(0);
+  let raw = 0;
+  let streamDone = false;
+  let entryDone = false;
+
+  const reader = body.getReader();
+  try {
+    while (!full) {
+      const { done, value } = await reader.read();
+      let chunk = value ?? new Uint8Array(0);
+      raw += chunk.length;
+
+      // Wait for the magic bytes before choosing how to decode
+      if (!decode) {
+        head = concatBytes([head, chunk], head.length + chunk.length);
+        if (head.length < 4 && !done) continue;
+        chunk = head;
+        if (head[0] === 0x1f && head[1] === 0x8b) {
+          content.compression = "gzip";
+          const gunzip = new Gunzip((data) => collect(data));
+          decode = (data, final) => gunzip.push(data, final);
+        } else if (head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04) {
+          content.compression = "zip";
+          const unzip = new Unzip();
+          unzip.register(UnzipInflate);
+          unzip.onfile = (file) => {
+            if (content.entry !== undefined || file.name.includes("__MACOSX") || !READABLE_ENTRIES.has(extname(file.name).toLowerCase())) {
+              skipped.push(file.name);
+              return;
+            }
+            content.entry = file.name;
+            file.ondata = (err, data, final) => {
+              if (err) failure = err;
+              else collect(data);
+              entryDone ||= final;
+            };
+            file.start();
+          };
+          decode = (data, final) => unzip.push(data, final);
+        } else {
+          decode = (data) => collect(data);
+        }
+      }
+
+      decode(chunk, done);
+      if (failure) throw failure;
+      streamDone = done;
+      // The rest of a zip archive (other entries, central directory) is not needed
+      if (done || entryDone) break;
+      // Zip entries that are skipped still stream past, within the same budget
+      if (raw > maxBytes) full = true;
+    }
+  } finally {
+    if (!streamDone) await reader.cancel().catch(() => undefined);
+  }
+
+  if (content.compression === "zip" && content.entry === undefined) {
+    throw new Error(
+      `No CSV or JSON file found in the zip archive${skipped.length > 0 ? ` (entries: ${skipped.slice(0, 10).join(", ")})` : ""}`
+    );
+  }
+  return { ...content, bytes: concatBytes(output, size), truncated: !streamDone && !entryDone };
+}
+
+/**
+ * Decode bytes to text: a byte order mark decides (UTF-8 or UTF-16), then a charset other than
+ * UTF-8 declared by the server; otherwise UTF-8 when the bytes are valid UTF-8, else Windows-1252
+ * (the superset of Latin-1 that Italian spreadsheets export)
+ */
+export function decodeText(bytes: Uint8Array, declaredCharset?: string): { text: string; charset: string; bom: boolean } {
+  const boms: [number[], string][] = [[[0xef, 0xbb, 0xbf], "utf-8"], [[0xff, 0xfe], "utf-16le"], [[0xfe, 0xff], "utf-16be"]];
+  for (const [mark, charset] of boms) {
+    if (mark.every((byte, i) => bytes[i] === byte)) {
+      return { text: new TextDecoder(charset).decode(bytes.subarray(mark.length), { stream: true }), charset, bom: true };
+    }
+  }
+
+  const declared = declaredCharset?.trim().toLowerCase();
+  if (declared && declared !== "utf-8" && declared !== "utf8") {
+    try {
+      const decoder = new TextDecoder(declared);
+      return { text: decoder.decode(bytes, { stream: true }), charset: decoder.encoding, bom: false };
+    } catch {
+      // Unknown label: detect as if undeclared
+    }
+  }
+  try {
+    // stream: a character cut by the byte cap is left out instead of failing the check
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true }), charset: "utf-8", bom: false };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), charset: "windows-1252", bom: false };
+  }
+}
+
+/** Format of a distribution from the file extension, the Content-Type and the text itself */
+export function detectFormat(text: string, name: string, contentType: string): DistributionFormat {
+  const extension = extname(name.replace(/\.gz$/i, "")).toLowerCase();
+  const type = contentType.toLowerCase();
+  if (extension === ".geojson" || type.includes("geo+json")) return "geojson";
+  if (extension === ".jsonl" || extension === ".ndjson" || type.includes("ndjson") || type.includes("jsonl")) return "jsonl";
+
+  const start = text.trimStart();
+  if (/^[[{]/.test(start) || extension === ".json" || type.includes("json")) {
+    if (start.startsWith("{") && looksLikeJsonLines(start)) return "jsonl";
+    return /^\{[^[]*"type"\s*:\s*"FeatureCollection"/.test(start.slice(0, 4096)) ? "geojson" : "json";
+  }
+  return "csv";
+}
+
+/** Parse decoded text as a table of the given format; partial text is read up to its last complete record */
+export function parseDistributionText(
+  text: string,
+  format: DistributionFormat,
+  options: { maxRows?: number | undefined; delimiter?: string | undefined; header?: boolean | undefined; partial: boolean }
+): { table: Table; format: DistributionFormat; dialect?: { delimiter: string; quote: string; header: boolean } } {
+  const maxRows = options.maxRows ?? Infinity;
+  if (format === "csv") {
+    const { dialect, ...table } = parseCsvTable(text, { delimiter: options.delimiter, header: options.header, maxRows, partial: options.partial });
+    return { table, format, dialect };
+  }
+  if (format === "jsonl") return { table: jsonLinesToTable(text, maxRows, options.partial), format };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    // Cut by the byte cap: keep the complete records of the array
+    const items = options.partial ? truncatedJsonItems(text, maxRows) : [];
+    if (items.length === 0) throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    return { table: recordsToTable(items), format };
+  }
+  return { table: jsonToTable(json, maxRows), format: isFeatureCollection(json) ? "geojson" : "json" };
+}
+
+/**
+ * Download a distribution and read it as a table, streaming at most maxBytes (after decompression)
+ * within timeoutMs. Detects gzip and zip wrapping, charset and byte order mark, the format
+ * (CSV, JSON, JSON Lines, GeoJSON) and, for CSV, delimiter, quote character and header row.
+ */
+export async function readDistribution(url: string, options: DistributionOptions): Promise<Distribution> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`Failed to fetch distribution: ${response.status} ${response.statusText}`);
+    }
+    const contentType = response.headers.get("content-type") ?? "";
+    const body = response.body
+      ? await readBody(response.body, options.maxBytes)
+      : { bytes: new Uint8Array(0), truncated: false };
+
+    // A compressed file's own Content-Type (e.g. application/zip) says nothing about its content
+    const charset = body.compression ? undefined : /charset=([^;]+)/i.exec(contentType)?.[1]?.replace(/"/g, "");
+    const { text, charset: usedCharset, bom } = decodeText(body.bytes, charset);
+    const name = body.entry ?? new URL(url).pathname;
+    const parsed = parseDistributionText(text, options.format ?? detectFormat(text, name, body.compression ? "" : contentType), {
+      maxRows: options.maxRows,
+      delimiter: options.delimiter,
+      header: options.header,
+      partial: body.truncated,
+    });
+
+    return {
+      table: parsed.table,
+      dialect: {
+        format: parsed.format,
+        ...(body.compression ? { compression: body.compression } : {}),
+        ...(body.entry !== undefined ? { entry: body.entry } : {}),
+        charset: usedCharset,
+        bom,
+        ...(parsed.dialect ?? {}),
+        bytes: body.bytes.length,
+        truncated: body.truncated,
+      },
+    };
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error(`Download of ${url} timed out after ${options.timeoutMs / 1000} seconds`);
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,253 @@
+import { randomUUID } from "crypto";
+import type { Quad } from "n3";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** File formats offered by export_vocabulary */
+export type ExportFormat = "csv" | "json" | "turtle" | "jsonld";
+
+/** A concept of an exported vocabulary, with its multilingual texts keyed by language ("" for untagged) */
+export interface VocabularyConcept {
+  uri: string;
+  notation?: string;
+  prefLabel: Record<string, string>;
+  altLabel: Record<string, string[]>;
+  definition: Record<string, string>;
+  broader: string[];
+  narrower: string[];
+  validFrom?: string;
+  validTo?: string;
+}
+
+/** A generated export kept in memory and served as an MCP resource */
+export interface ExportFile {
+  /** File name suggested to the client, e.g. "titoli-di-studio.csv" */
+  name: string;
+  mimeType: string;
+  content: string;
+  createdAt: string;
+}
+
+/** Options for the in-memory buffer of exports */
+export interface ExportStoreOptions {
+  maxEntries: number;
+  ttlMs: number;
+}
+
+interface ExportEntry extends ExportFile {
+  expiresAt: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SKOS = "http://www.w3.org/2004/02/skos/core#";
+
+/** Predicates read for each concept, by the field they fill */
+export const CONCEPT_PREDICATES = {
+  notation: [`${SKOS}notation`],
+  prefLabel: [`${SKOS}prefLabel`],
+  altLabel: [`${SKOS}altLabel`],
+  definition: [`${SKOS}definition`],
+  broader: [`${SKOS}broader`],
+  narrower: [`${SKOS}narrower`],
+  validFrom: [
+    "http://www.w3.org/ns/dcat#startDate",
+    "http://schema.org/startDate",
+    "https://w3id.org/italia/onto/TI/startTime",
+  ],
+  validTo: [
+    "http://www.w3.org/ns/dcat#endDate",
+    "http://schema.org/endDate",
+    "https://w3id.org/italia/onto/TI/endTime",
+  ],
+} as const;
+
+/** MIME type and file extension of each export format */
+export const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  csv: { mimeType: "text/csv", extension: "csv" },
+  json: { mimeType: "application/json", extension: "json" },
+  turtle: { mimeType: "text/turtle", extension: "ttl" },
+  jsonld: { mimeType: "application/ld+json", extension: "jsonld" },
+};
+
+/** Separator for multiple values in one CSV cell */
+const CSV_MULTI_VALUE_SEPARATOR = " | ";
+
+// =============================================================================
+// CONCEPTS
+// =============================================================================
+
+/** Field filled by a predicate, if any */
+function fieldFor(predicate: string): keyof typeof CONCEPT_PREDICATES | undefined {
+  for (const [field, predicates] of Object.entries(CONCEPT_PREDICATES)) {
+    if ((predicates as readonly string[]).includes(predicate)) return field as keyof typeof CONCEPT_PREDICATES;
+  }
+  return undefined;
+}
+
+/**
+ * Collect the concepts of a vocabulary graph, ordered by notation (numeric-aware) then URI.
+ * broader/narrower are completed with their inverse within the vocabulary.
+ */
+export function conceptsFromQuads(quads: Quad[], conceptUris: Set<string>): VocabularyConcept[] {
+  const concepts = new Map<string, VocabularyConcept>();
+  for (const uri of conceptUris) {
+    concepts.set(uri, { uri, prefLabel: {}, altLabel: {}, definition: {}, broader: [], narrower: [] });
+  }
+
+  for (const quad of quads) {
+    const concept = concepts.get(quad.subject.value);
+    const field = fieldFor(quad.predicate.value);
+    if (!concept || !field) continue;
+    const value = quad.object.value;
+    const lang = quad.object.termType === "Literal" ? quad.object.language : "";
+
+    switch (field) {
+      case "prefLabel":
+      case "definition":
+        concept[field][lang] ??= value;
+        break;
+      case "altLabel":
+        (concept.altLabel[lang] ??= []).push(value);
+        break;
+      case "broader":
+      case "narrower":
+        if (!concept[field].includes(value)) concept[field].push(value);
+        break;
+      default:
+        concept[field] ??= value;
+    }
+  }
+
+  // Vocabularies often state only one direction of the hierarchy: complete the other
+  for (const concept of concepts.values()) {
+    for (const broader of concept.broader) {
+      const parent = concepts.get(broader);
+      if (parent && !parent.narrower.includes(concept.uri)) parent.narrower.push(concept.uri);
+    }
+    for (const narrower of concept.narrower) {
+      const child = concepts.get(narrower);
+      if (child && !child.broader.includes(concept.uri)) child.broader.push(concept.uri);
+    }
+  }
+
+  return [...concepts.values()].sort((a, b) =>
+    (a.notation ?? "\uffff").localeCompare(b.notation ?? "\uffff", undefined, { numeric: true }) ||
+    a.uri.localeCompare(b.uri)
+  );
+}
+
+/** Languages used by the concepts' texts, Italian and English first */
+export function conceptLanguages(concepts: VocabularyConcept[]): string[] {
+  const found = new Set<string>();
+  for (const concept of concepts) {
+    for (const texts of [concept.prefLabel, concept.altLabel, concept.definition]) {
+      for (const lang of Object.keys(texts)) found.add(lang);
+    }
+  }
+  const order = (lang: string) => (lang === "it" ? 0 : lang === "en" ? 1 : lang === "" ? 3 : 2);
+  return [...found].sort((a, b) => order(a) - order(b) || a.localeCompare(b));
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/** Quote a CSV cell when it contains a separator, a quote or a line break (RFC 4180) */
+function csvCell(value: string | undefined): string {
+  if (value === undefined) return "";
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Column name of a multilingual field: prefLabel_it, or prefLabel for untagged texts */
+function languageColumn(field: string, lang: string): string {
+  return lang === "" ? field : `${field}_${lang}`;
+}
+
+/** One row per concept, one column per field and language; multiple values are joined with " | " */
+export function conceptsToCsv(concepts: VocabularyConcept[], languages: string[]): string {
+  const header = [
+    "uri",
+    "notation",
+    ...languages.map((lang) => languageColumn("prefLabel", lang)),
+    ...languages.map((lang) => languageColumn("altLabel", lang)),
+    ...languages.map((lang) => languageColumn("definition", lang)),
+    "broader",
+    "narrower",
+    "validFrom",
+    "validTo",
+  ];
+
+  const rows = concepts.map((concept) => [
+    concept.uri,
+    concept.notation,
+    ...languages.map((lang) => concept.prefLabel[lang]),
+    ...languages.map((lang) => concept.altLabel[lang]?.join(CSV_MULTI_VALUE_SEPARATOR)),
+    ...languages.map((lang) => concept.definition[lang]),
+    concept.broader.join(CSV_MULTI_VALUE_SEPARATOR),
+    concept.narrower.join(CSV_MULTI_VALUE_SEPARATOR),
+    concept.validFrom,
+    concept.validTo,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** File name for an export, from the vocabulary label or the last segment of its URI */
+export function exportFileName(schemeUri: string, label: string | undefined, format: ExportFormat): string {
+  const base = (label ?? schemeUri.replace(/[/#]$/, "").split(/[/#]/).pop() ?? "vocabulary")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${base || "vocabulary"}.${EXPORT_FORMATS[format].extension}`;
+}
+
+// =============================================================================
+// EXPORT STORE
+// =============================================================================
+
+/** In-memory buffer of generated exports, read back through the schemagovit://export/{id} resource */
+export class ExportStore {
+  private readonly entries = new Map<string, ExportEntry>();
+
+  constructor(private readonly options: ExportStoreOptions) {}
+
+  /** Keep an export and return its id */
+  put(file: Omit<ExportFile, "createdAt">): string {
+    this.prune();
+    const id = randomUUID();
+    this.entries.set(id, { ...file, createdAt: new Date().toISOString(), expiresAt: Date.now() + this.options.ttlMs });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    return id;
+  }
+
+  /** An export by id; exports can be read any number of times until they expire */
+  get(id: string): ExportFile | undefined {
+    const entry = this.entries.get(id);
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return { name: entry.name, mimeType: entry.mimeType, content: entry.content, createdAt: entry.createdAt };
+  }
+
+  /** Ids and names of the exports still available */
+  list(): { id: string; name: string; mimeType: string }[] {
+    this.prune();
+    return [...this.entries].map(([id, entry]) => ({ id, name: entry.name, mimeType: entry.mimeType }));
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(id);
+    }
+  }
+}
@@ -1,13 +1,58 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { appendFile, readFile } from "fs/promises";
-import { join } from "path";
+import { appendFile, mkdir, readFile, readdir, writeFile } from "fs/promises";
+import { extname, join } from "path";
 import { existsSync, mkdirSync } from "fs";
 import { createServer, IncomingMessage, ServerResponse } from "http";
 import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { SparqlCache } from "./cache.js";
+import { CursorStore, pendingToData, truncateToLimit } from "./cursor.js";
+import {
+  CONCEPT_PREDICATES,
+  EXPORT_FORMATS,
+  ExportStore,
+  conceptLanguages,
+  conceptsFromQuads,
+  conceptsToCsv,
+  exportFileName,
+} from "./export.js";
+import { WORKFLOW_PROMPTS } from "./prompts.js";
+import { CHANGE_SEVERITY, ONTOLOGY_PREDICATES, diffOntologies, ontologyFromQuads, selectOntologyQuads } from "./diff.js";
+import type { ChangeSeverity, OntologyChange, OntologyModel } from "./diff.js";
+import { generateJsonLdContext, generateTypeScript } from "./codegen.js";
+import type { ModelClass } from "./codegen.js";
+import { flattenRecord, matchFields, nameSimilarity, recordsToQuads, templateFields, valueIri } from "./mapping.js";
+import type { FieldMapping, FieldMatch, ValueTarget } from "./mapping.js";
+import { CODE_DESCRIPTIONS, ISTAT_CODE_DIGITS, columnStatistics, isEmptyValue, padIstatCode, profileColumn } from "./profile.js";
+import type { CodeKind, ColumnProfile, InferredDatatype } from "./profile.js";
+import { resolveWithin } from "./paths.js";
+import { generateSchemaDocument, isDatatypeRange, localName } from "./schema.js";
+import type { SchemaClass, SchemaProperty, SchemaTarget, SchemaVocabulary } from "./schema.js";
+import { SearchIndex, checkRegex } from "./search.js";
+import { SH, dataClasses, deriveShapes, detectRdfFormat, parseRdfInput, subClassQuads, validateAgainstShapes } from "./shacl.js";
+import type { ClassConstraints, PropertyConstraint, RdfInputFormat } from "./shacl.js";
+import { columnValues, parseCsvTable } from "./tabular.js";
+import type { Table } from "./tabular.js";
+import { compareNodes, expandTree, pathToTree, renderOutline } from "./tree.js";
+import type { NodeInfo, TreeNode, TreeSource } from "./tree.js";
+import type { IndexedText, SearchHit, SearchType } from "./search.js";
+import { CatalogHistory, fingerprint } from "./monitor.js";
+import { readDistribution } from "./distribution.js";
+import type { Distribution, DistributionDialect, DistributionFormat } from "./distribution.js";
+import type { ArtifactKind, ArtifactState, CatalogChange, CatalogObservation } from "./monitor.js";
+import { loadSnapshot } from "./snapshot.js";
+import type { Snapshot } from "./snapshot.js";
+import { loadConfig } from "./config.js";
+import type { RecommendedExternalEndpoint, ServerConfig } from "./config.js";
+import { validateQuery } from "./validation.js";
+import { compactIri, expandCurie, parsePrefixBlock, parseTurtle, serializeGraph } from "./rdf.js";
+import type { GraphFormat } from "./rdf.js";
+import type { Quad } from "n3";
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -26,10 +71,11 @@ interface SparqlBinding {
   [key: string]: SparqlBindingValue;
 }
 
-/** Full SPARQL query result structure */
+/** Full SPARQL query result structure (bindings for SELECT, a boolean for ASK) */
 interface SparqlResult {
-  head: { vars: string[] };
-  results: { bindings: SparqlBinding[] };
+  head: { vars?: string[] };
+  results?: { bindings: SparqlBinding[] };
+  boolean?: boolean;
 }
 
 /** Compressed result format for large datasets */
@@ -42,7 +88,18 @@ interface CompressedTabular {
 type CompressedSimple = Record<string, string>[];
 
 /** Union type for compressed SPARQL results */
-type CompressedResult = CompressedTabular | CompressedSimple | [];
+type CompressedResult = CompressedTabular | CompressedSimple | [] | boolean;
+
+/** How a keyword is compared with text: literally (case-insensitive) or, on request, as a regex */
+type MatchMode = "exact" | "prefix" | "contains" | "regex";
+
+/** Options controlling how SPARQL results are compressed */
+interface CompressOptions {
+  /** Preferred languages, best first: rows differing only by a literal's language keep the best match */
+  languages?: string[] | undefined;
+  /** Render literals as "value"@lang or "value"^^datatype instead of the bare value */
+  typedLiterals?: boolean;
+}
 
 /** Successful tool result */
 interface ToolSuccess<T = unknown> {
@@ -56,51 +113,121 @@ interface ToolError {
   success: false;
   error: string;
   suggestion?: string;
+  /** Structured information (e.g. positioned query issues) the caller can use to fix the request */
+  details?: unknown;
 }
 
 /** Union type for tool results */
 type ToolResult<T = unknown> = ToolSuccess<T> | ToolError;
 
+/** Link to a resource the client can read with resources/read */
+interface McpResourceLink {
+  type: "resource_link";
+  uri: string;
+  name: string;
+  mimeType?: string;
+  description?: string;
+}
+
 /** MCP tool response format with index signature for SDK compatibility */
 interface McpToolResponse {
   [x: string]: unknown;
-  content: { type: "text"; text: string }[];
+  content: ({ type: "text"; text: string } | McpResourceLink)[];
   isError?: boolean;
 }
 
-interface RecommendedExternalEndpoint {
-  id: string;
-  name: string;
-  endpointUrl: string;
-  category: "italian-pa" | "eu" | "knowledge-graph";
-  whySuggested: string;
-  bestFor: string[];
-  relatedTo: string[];
-  exampleQueryIdea: string;
-  status: "curated";
-}
-
 // =============================================================================
 // CONSTANTS
 // =============================================================================
 
+/** Server configuration: config file, endpoint profile and env overrides (see config.ts) */
+let CONFIG: ServerConfig;
+try {
+  CONFIG = loadConfig();
+} catch (error) {
+  console.error("[Startup]", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
 /** Maximum character limit for tool responses to prevent excessive output */
-const CHARACTER_LIMIT = 50_000;
+const CHARACTER_LIMIT = CONFIG.characterLimit;
 
-const LOG_DIR = join(process.cwd(), "logs");
+const LOG_DIR = CONFIG.logDir;
 const LOG_FILE = join(LOG_DIR, "usage_log.jsonl");
-const BROWSER_LIKE_USER_AGENT = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/133.0.0.0 Safari/537.36";
+const BROWSER_LIKE_USER_AGENT = CONFIG.userAgent;
 
-/**
- * Create and configure a new MCP server instance with all tools registered.
- * For SSE mode, call this for each new connection.
- * For stdio mode, call this once at startup.
- */
-function createAndConfigureServer(): McpServer {
-  const server = new McpServer({
-    name: "schema-gov-it",
-    version: "1.0.0",
-  });
+// SPARQL Endpoint
+const ENDPOINT = CONFIG.endpoint;
+
+/** Request timeouts in milliseconds */
+const SPARQL_TIMEOUT_MS = CONFIG.timeouts.sparqlMs;
+const EXTERNAL_TIMEOUT_MS = CONFIG.timeouts.externalMs;
+const DISTRIBUTION_TIMEOUT_MS = CONFIG.timeouts.distributionMs;
+const DISTRIBUTION_MAX_BYTES = CONFIG.distributionMaxBytes;
+const INDEX_TIMEOUT_MS = CONFIG.timeouts.indexMs;
+
+/** Shared across sessions so concurrent clients benefit from each other's queries (graph results are kept as Turtle) */
+const sparqlCache = new SparqlCache<SparqlResult | string>(
+  {
+    maxEntries: CONFIG.cache.maxEntries,
+    ttlMs: CONFIG.cache.ttlSeconds * 1000,
+    externalTtlMs: CONFIG.cache.externalTtlSeconds * 1000,
+    ...(CONFIG.cache.persist ? { persistDir: CONFIG.cache.dir } : {}),
+  },
+  ENDPOINT
+);
+
+/** Rows omitted from truncated responses, served by fetch_more; shared across sessions */
+const cursorStore = new CursorStore({ maxEntries: 200, ttlMs: 15 * 60 * 1000 });
+
+/** Generated exports served as schemagovit://export/{id} resources; shared across sessions */
+const exportStore = new ExportStore({ maxEntries: 20, ttlMs: 60 * 60 * 1000 });
+
+/** Directory where export tools may save files (destination "file") */
+const EXPORT_DIR = CONFIG.exportDir;
+
+/** Set to true by executeTool while a tool runs with noCache, read by executeSparql */
+const cacheBypass = new AsyncLocalStorage<boolean>();
+
+/** Prefixes declared by ontologies through vann:preferredNamespacePrefix, shared across sessions */
+let discoveredPrefixes: Record<string, string> = {};
+
+/** Pending or completed prefix discovery, shared across sessions */
+let prefixDiscovery: Promise<void> | undefined;
+
+/** Full-text index over labels, shared across sessions; undefined until the first build succeeds */
+let searchIndex: SearchIndex | undefined;
+
+/** Pending index build, shared across sessions */
+let searchIndexBuild: Promise<SearchIndex | undefined> | undefined;
+
+/** Timer of the scheduled index refresh, started by the first successful build */
+let searchIndexTimer: NodeJS.Timeout | undefined;
+
+/** Failed index builds in a row, and when the last one failed (on-demand builds back off meanwhile) */
+let searchIndexFailures = 0;
+let searchIndexFailedAt = 0;
+
+/** Prefixes for CURIE compaction, set by executeTool while a tool runs with curies; collects the prefixes used */
+const curieContext = new AsyncLocalStorage<{ prefixes: Record<string, string>; used: Record<string, string> }>();
+
+/** Path of a local RDF dump (file or directory) to serve instead of the live endpoint */
+const SNAPSHOT_PATH = CONFIG.snapshot;
+
+/** Offline snapshot store, loaded in main() when MCP_SNAPSHOT is set */
+let snapshot: Snapshot | undefined;
+
+/** Observations and changes recorded by the catalog monitor, kept on disk */
+const catalogHistory = new CatalogHistory(CONFIG.monitor.dir);
+
+/** Whether the catalog monitor was started (by the HTTP server) */
+let catalogMonitorStarted = false;
+
+/** Pending catalog observation, shared across sessions */
+let catalogObservation: Promise<CatalogChange[]> | undefined;
+
+/** Resources each session subscribed to, notified when the monitor finds changes */
+const resourceSubscribers = new Set<{ server: McpServer; uris: Set<string> }>();
 
 // =============================================================================
 // LOGGING
@@ -125,9 +252,6 @@ async function logUsage(
   }
 }
 
-// SPARQL Endpoint
-const ENDPOINT = "https://schema.gov.it/sparql";
-
 // Sanitize string literals for safe SPARQL interpolation
 function sanitizeSparqlString(input: string): string {
   return input.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\r/g, "\\r");
@@ -141,6 +265,66 @@ function sanitizeSparqlUri(input: string): string {
   return input;
 }
 
+// Parse a language preference such as "it,en" into lowercase language tags, best first
+function parseLanguagePreference(input: string | undefined): string[] | undefined {
+  if (!input) return undefined;
+  const tags = input.split(",").map((tag) => tag.trim().toLowerCase()).filter((tag) => tag !== "");
+  for (const tag of tags) {
+    if (!/^[a-z]{1,8}(-[a-z0-9]{1,8})*$/.test(tag)) {
+      throw new Error(`Invalid language tag: ${tag}`);
+    }
+  }
+  return tags.length > 0 ? tags : undefined;
+}
+
+// Expand a CURIE argument (e.g. clv:City) with the known prefixes, then validate it as a URI
+function resolveUri(input: string): string {
+  const value = input.trim();
+  const expanded = expandCurie(value, knownPrefixes());
+  if (expanded === value && /^[A-Za-z][\w.-]*:[^/]/.test(value) && !/^https?:/i.test(value)) {
+    const prefix = value.slice(0, value.indexOf(":"));
+    throw new Error(`Unknown prefix "${prefix}:" in ${value}. Known prefixes: ${Object.keys(knownPrefixes()).join(", ")}`);
+  }
+  return sanitizeSparqlUri(expanded);
+}
+
+// FILTER keeping non-literals, untagged literals and literals in one of the preferred languages
+function languageFilter(variable: string, languages: string[] | undefined): string {
+  if (!languages) return "";
+  const matches = languages.map((tag) => `LANGMATCHES(LANG(?${variable}), "${tag}")`);
+  return `FILTER(!ISLITERAL(?${variable}) || LANG(?${variable}) = "" || ${matches.join(" || ")})`;
+}
+
+/**
+ * FILTER comparing the string value of a variable with a keyword, ignoring case.
+ * Literal modes use STRSTARTS / CONTAINS / equality on LCASE, so metacharacters in the keyword
+ * ("S.p.A.", "(ex)") have no special meaning; REGEX is only used when explicitly requested,
+ * after the handler has checked the pattern with keywordError.
+ */
+function keywordFilter(variable: string, keyword: string, match: MatchMode): string {
+  const text = `LCASE(STR(?${variable}))`;
+  const lowered = sanitizeSparqlString(keyword.toLowerCase());
+  switch (match) {
+    case "exact":
+      return `FILTER(${text} = "${lowered}")`;
+    case "prefix":
+      return `FILTER(STRSTARTS(${text}, "${lowered}"))`;
+    case "contains":
+      return `FILTER(CONTAINS(${text}, "${lowered}"))`;
+    case "regex": {
+      const problem = checkRegex(keyword);
+      if (problem) throw new Error(problem.error);
+      return `FILTER(REGEX(STR(?${variable}), "${sanitizeSparqlString(keyword)}", "i"))`;
+    }
+  }
+}
+
+/** ToolError for a keyword refused in regex match mode; undefined for other modes and accepted patterns */
+function keywordError(keyword: string | undefined, match: MatchMode | undefined): ToolError | undefined {
+  const problem = match === "regex" && keyword !== undefined ? checkRegex(keyword) : undefined;
+  return problem ? { success: false, ...problem } : undefined;
+}
+
 const PREFIXES = `
 PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
 PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
@@ -156,104 +340,86 @@ PREFIX l0: <https://w3id.org/italia/onto/l0/>
 PREFIX sm: <https://w3id.org/italia/onto/SM/>
 `;
 
-const RECOMMENDED_EXTERNAL_ENDPOINTS: RecommendedExternalEndpoint[] = [
-  {
-    id: "lod-dati-gov-it",
-    name: "lod.dati.gov.it SPARQL",
-    endpointUrl: "https://lod.dati.gov.it/sparql",
-    category: "italian-pa",
-    whySuggested: "National linked open data endpoint for Italian public datasets and metadata, useful as a natural extension of schema.gov.it exploration.",
-    bestFor: ["dataset metadata", "catalog linking", "DCAT exploration", "public sector discovery"],
-    relatedTo: ["dati.gov.it", "catalogo nazionale open data", "DCAT-AP_IT"],
-    exampleQueryIdea: "Start from concepts or vocabularies in schema.gov.it, then inspect linked dataset metadata and distributions in the national catalog.",
-    status: "curated",
-  },
-  {
-    id: "dati-cultura",
-    name: "dati.cultura.gov.it SPARQL",
-    endpointUrl: "https://dati.cultura.gov.it/sparql",
-    category: "italian-pa",
-    whySuggested: "Italian culture domain endpoint for heritage, institutions, and cultural linked data modeled with national semantics.",
-    bestFor: ["cultural heritage", "museums", "archives", "domain-specific linked data"],
-    relatedTo: ["MiC", "beni culturali", "knowledge graphs della cultura"],
-    exampleQueryIdea: "Reuse shared concepts from schema.gov.it to explore cultural entities, places, and heritage datasets.",
-    status: "curated",
-  },
-  {
-    id: "dati-camera",
-    name: "dati.camera.it SPARQL",
-    endpointUrl: "https://dati.camera.it/sparql",
-    category: "italian-pa",
-    whySuggested: "Rich institutional linked open data from the Italian Chamber of Deputies, useful for public sector entity linking.",
-    bestFor: ["institutional data", "persons", "organizations", "legislative references"],
-    relatedTo: ["dati.camera.it", "open data PA", "entity reconciliation"],
-    exampleQueryIdea: "Link people, organizations, or roles found in schema.gov.it against parliamentary resources.",
-    status: "curated",
-  },
-  {
-    id: "dati-senato",
-    name: "dati.senato.it SPARQL",
-    endpointUrl: "https://dati.senato.it/sparql",
-    category: "italian-pa",
-    whySuggested: "Institutional RDF endpoint complementary to Camera data for cross-checking public administration actors and legislative entities.",
-    bestFor: ["institutional data", "senate acts", "persons", "cross-checking"],
-    relatedTo: ["dati.senato.it", "open data PA", "interoperability"],
-    exampleQueryIdea: "Compare entities or legal references across multiple Italian institutional datasets.",
-    status: "curated",
-  },
-  {
-    id: "eu-publications",
-    name: "EU Publications Office SPARQL",
-    endpointUrl: "https://publications.europa.eu/webapi/rdf/sparql",
-    category: "eu",
-    whySuggested: "Reference endpoint for EU vocabularies, legal resources, and interoperability artifacts often linked from Italian public data.",
-    bestFor: ["EU vocabularies", "legal metadata", "authority tables", "cross-border mappings"],
-    relatedTo: ["EUR-Lex ecosystem", "DCAT-AP", "European interoperability"],
-    exampleQueryIdea: "Resolve controlled vocabularies or legal concepts connected to Italian datasets and metadata profiles.",
-    status: "curated",
-  },
-  {
-    id: "wikidata",
-    name: "Wikidata Query Service",
-    endpointUrl: "https://query.wikidata.org/sparql",
-    category: "knowledge-graph",
-    whySuggested: "Broad public knowledge graph useful for enrichment and entity linking after you identify concepts in schema.gov.it.",
-    bestFor: ["entity enrichment", "place data", "cross-dataset identifiers", "background knowledge"],
-    relatedTo: ["Wikidata", "entity linking", "semantic enrichment"],
-    exampleQueryIdea: "Enrich municipalities, organizations, or concepts discovered in schema.gov.it with external identifiers.",
-    status: "curated",
-  },
-  {
-    id: "dbpedia",
-    name: "DBpedia SPARQL",
-    endpointUrl: "https://dbpedia.org/sparql",
-    category: "knowledge-graph",
-    whySuggested: "General-purpose linked data endpoint still useful for simple lookups and alignment experiments.",
-    bestFor: ["quick lookups", "sameAs checks", "exploratory linking"],
-    relatedTo: ["DBpedia", "linked open data", "alignment testing"],
-    exampleQueryIdea: "Test owl:sameAs or skos mappings from Italian concepts toward well-known public resources.",
-    status: "curated",
-  },
-];
+/** Prefix → namespace map of PREFIXES, used to compact graph results */
+const PREFIX_MAP = parsePrefixBlock(PREFIXES);
+
+/** Accept header for SELECT/ASK queries */
+const RESULTS_ACCEPT = "application/sparql-results+json";
+
+/** Accept header for CONSTRUCT/DESCRIBE queries (both answers are parsed as Turtle) */
+const GRAPH_ACCEPT = "text/turtle, application/n-triples;q=0.9";
+
+const RECOMMENDED_EXTERNAL_ENDPOINTS: RecommendedExternalEndpoint[] = CONFIG.recommendedExternalEndpoints;
+
+/** Endpoints that SERVICE clauses in raw queries may target */
+const ALLOWED_SERVICE_ENDPOINTS = CONFIG.allowedServiceEndpoints;
 
 async function executeSparql(
   query: string,
   endpoint: string = ENDPOINT,
   injectPrefixes: boolean = true,
-  timeoutMs: number = 30000
+  timeoutMs: number = SPARQL_TIMEOUT_MS
 ): Promise<SparqlResult> {
   const fullQuery = injectPrefixes ? PREFIXES + "\n" + query : query;
+
+  // Offline mode: schema.gov.it queries are answered by the local snapshot, external ones still go out
+  if (snapshot && endpoint === ENDPOINT) {
+    return JSON.parse(snapshot.query(fullQuery)) as SparqlResult;
+  }
+
+  const result = await sparqlCache.getOrLoad(
+    endpoint,
+    fullQuery,
+    async () => JSON.parse(await fetchSparql(fullQuery, endpoint, timeoutMs, RESULTS_ACCEPT)) as SparqlResult,
+    cacheBypass.getStore() === true
+  );
+  return result as SparqlResult;
+}
+
+/** Execute a CONSTRUCT or DESCRIBE query and return the resulting triples */
+async function executeSparqlGraph(
+  query: string,
+  endpoint: string = ENDPOINT,
+  injectPrefixes: boolean = true,
+  timeoutMs: number = SPARQL_TIMEOUT_MS
+): Promise<Quad[]> {
+  const fullQuery = injectPrefixes ? PREFIXES + "\n" + query : query;
+
+  if (snapshot && endpoint === ENDPOINT) {
+    return parseTurtle(snapshot.query(fullQuery, "text/turtle"));
+  }
+
+  const turtle = await sparqlCache.getOrLoad(
+    endpoint,
+    fullQuery,
+    () => fetchSparql(fullQuery, endpoint, timeoutMs, GRAPH_ACCEPT),
+    cacheBypass.getStore() === true
+  );
+  return parseTurtle(turtle as string);
+}
+
+/** Send a SPARQL query over HTTP, bypassing the result cache, and return the response body */
+async function fetchSparql(
+  fullQuery: string,
+  endpoint: string,
+  timeoutMs: number,
+  accept: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<string> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
   const isExternalEndpoint = endpoint !== ENDPOINT;
   const baseHeaders: Record<string, string> = {
-    "Accept": "application/sparql-results+json",
+    "Accept": accept,
   };
 
   if (isExternalEndpoint) {
     baseHeaders["User-Agent"] = BROWSER_LIKE_USER_AGENT;
     baseHeaders["Accept-Language"] = "it-IT,it;q=0.9,en;q=0.8";
+  } else {
+    Object.assign(baseHeaders, CONFIG.headers);
   }
+  Object.assign(baseHeaders, extraHeaders);
 
   try {
     const postResponse = await fetch(endpoint, {
@@ -267,7 +433,7 @@ async function executeSparql(
     });
 
     if (postResponse.ok) {
-      return postResponse.json() as Promise<SparqlResult>;
+      return postResponse.text();
     }
 
     // Some public endpoints behind proxies/WAFs reject POST from API clients
@@ -283,7 +449,7 @@ async function executeSparql(
       });
 
       if (getResponse.ok) {
-        return getResponse.json() as Promise<SparqlResult>;
+        return getResponse.text();
       }
 
       throw new Error(`SPARQL request failed: ${getResponse.status} ${getResponse.statusText}`);
@@ -295,15 +461,279 @@ async function executeSparql(
   }
 }
 
+// =============================================================================
+// PREFIX DISCOVERY
+// =============================================================================
+
+/** Injected PREFIXES plus discovered ones; injected prefixes win on conflicts */
+function knownPrefixes(): Record<string, string> {
+  return { ...discoveredPrefixes, ...PREFIX_MAP };
+}
+
+/**
+ * Load the preferred prefixes of the ontologies published on the endpoint.
+ * Runs once; on failure the injected PREFIXES are still used and the next call retries.
+ */
+function discoverPrefixes(): Promise<void> {
+  prefixDiscovery ??= (async () => {
+    const result = await executeSparql(`
+      SELECT DISTINCT ?ont ?prefix ?namespace
+      WHERE {
+        ?ont a owl:Ontology ;
+          <http://purl.org/vocab/vann/preferredNamespacePrefix> ?prefix .
+        OPTIONAL { ?ont <http://purl.org/vocab/vann/preferredNamespaceUri> ?namespace }
+      }
+    `);
+
+    const injectedNamespaces = new Set(Object.values(PREFIX_MAP));
+    const discovered: Record<string, string> = {};
+    for (const binding of result.results?.bindings ?? []) {
+      const prefix = binding.prefix?.value.trim() ?? "";
+      const ontology = binding.ont?.value ?? "";
+      // Ontologies without vann:preferredNamespaceUri use their own IRI as namespace
+      const namespace = binding.namespace?.value
+        ?? (/[/#]$/.test(ontology) ? ontology : `${ontology}/`);
+      if (!/^[A-Za-z][\w.-]*$/.test(prefix) || !/^https?:\/\//.test(namespace)) continue;
+      if (injectedNamespaces.has(namespace) || discovered[prefix] !== undefined) continue;
+      discovered[prefix] = namespace;
+    }
+    discoveredPrefixes = discovered;
+    console.error(`[Prefixes] Discovered ${Object.keys(discovered).length} ontology prefixes`);
+  })().catch((err: unknown) => {
+    console.error("[Prefixes] Prefix discovery failed, using the built-in prefixes only:", getErrorMessage(err));
+    prefixDiscovery = undefined;
+  });
+  return prefixDiscovery;
+}
+
+// =============================================================================
+// SEARCH INDEX
+// =============================================================================
+
+/** Rows fetched per page while building the index (Virtuoso caps result sets) */
+const INDEX_PAGE_SIZE = 10000;
+
+/** Upper bound of rows per index query, to keep memory in check */
+const INDEX_MAX_ROWS = 1_000_000;
+
+/** Wait after a failed index build before an on-demand retry, doubled at each failure in a row */
+const INDEX_RETRY_MS = 5 * 60 * 1000;
+const INDEX_MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Run an index query page by page, without going through the result cache. The query must
+ * end with an ORDER BY giving a total order, otherwise pages may skip or repeat rows; it is
+ * wrapped in a subquery because Virtuoso refuses to sort past its top-rows limit with OFFSET.
+ */
+async function loadIndexRows(query: string): Promise<SparqlBinding[]> {
+  const rows: SparqlBinding[] = [];
+  for (let offset = 0; offset < INDEX_MAX_ROWS; offset += INDEX_PAGE_SIZE) {
+    const fullQuery = `${PREFIXES}\nSELECT * WHERE {\n{${query}}\n}\nLIMIT ${INDEX_PAGE_SIZE}\nOFFSET ${offset}`;
+    const text = snapshot
+      ? snapshot.query(fullQuery)
+      : await fetchSparql(fullQuery, ENDPOINT, INDEX_TIMEOUT_MS, RESULTS_ACCEPT);
+    const page = (JSON.parse(text) as SparqlResult).results?.bindings ?? [];
+    rows.push(...page);
+    if (page.length < INDEX_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Load labels, altLabels, notations and comments of the indexed resource types */
+async function buildSearchIndex(): Promise<SearchIndex> {
+  const textsQuery = `
+    SELECT ?s ?type ?field (SUBSTR(STR(?value), 1, 300) AS ?text) (LANG(?value) AS ?lang)
+    WHERE {
+      VALUES (?class ?type) {
+        (owl:Class "class") (rdfs:Class "class")
+        (owl:ObjectProperty "property") (owl:DatatypeProperty "property") (rdf:Property "property")
+        (skos:Concept "concept") (skos:ConceptScheme "vocabulary")
+        (<http://dati.gov.it/onto/dcatapit#Dataset> "dataset") (dcat:Dataset "dataset")
+      }
+      VALUES (?p ?field) {
+        (rdfs:label "label") (skos:prefLabel "label") (dct:title "label")
+        (skos:altLabel "altLabel") (skos:notation "notation")
+        (rdfs:comment "comment") (skos:definition "comment") (dct:description "comment")
+      }
+      ?s a ?class ;
+        ?p ?value .
+      FILTER(ISIRI(?s) && ISLITERAL(?value))
+    }
+    ORDER BY ?s ?type ?field ?value
+  `;
+  const membershipQuery = `
+    SELECT ?s ?scheme
+    WHERE {
+      ?s a skos:Concept ;
+        skos:inScheme ?scheme .
+    }
+    ORDER BY ?s ?scheme
+  `;
+
+  const [textRows, membershipRows] = await Promise.all([loadIndexRows(textsQuery), loadIndexRows(membershipQuery)]);
+  const texts: IndexedText[] = [];
+  for (const row of textRows) {
+    if (!row.s || !row.type || !row.field || !row.text) continue;
+    texts.push({
+      uri: row.s.value,
+      type: row.type.value as SearchType,
+      field: row.field.value as IndexedText["field"],
+      text: row.text.value,
+      lang: row.lang?.value ?? "",
+    });
+  }
+  const memberships: [string, string][] = [];
+  for (const row of membershipRows) {
+    if (row.s && row.scheme) memberships.push([row.s.value, row.scheme.value]);
+  }
+  return new SearchIndex(texts, memberships);
+}
+
+/** Rebuild the index; on failure the previous index (if any) stays in use */
+function refreshSearchIndex(): Promise<SearchIndex | undefined> {
+  searchIndexBuild ??= (async () => {
+    const started = Date.now();
+    try {
+      searchIndex = await buildSearchIndex();
+      searchIndexFailures = 0;
+      const { resources, texts } = searchIndex.info;
+      console.error(`[Search] Indexed ${texts} texts of ${resources} resources in ${Date.now() - started} ms`);
+      // Refresh on schedule once the index is in use; a snapshot never changes, so it is indexed once
+      if (CONFIG.searchIndex.refreshMinutes > 0 && !snapshot && !searchIndexTimer) {
+        searchIndexTimer = setInterval(() => void refreshSearchIndex(), CONFIG.searchIndex.refreshMinutes * 60 * 1000);
+        searchIndexTimer.unref();
+      }
+    } catch (err) {
+      searchIndexFailures++;
+      searchIndexFailedAt = Date.now();
+      console.error("[Search] Index build failed, search tools fall back to REGEX queries:", getErrorMessage(err));
+    } finally {
+      searchIndexBuild = undefined;
+    }
+    return searchIndex;
+  })();
+  return searchIndexBuild;
+}
+
+/**
+ * The index when it is built; undefined when disabled or not built yet. The first call starts
+ * the build in the background, and callers answer with live SPARQL queries until it is ready.
+ * After a failed build, new attempts wait INDEX_RETRY_MS, doubled at each failure in a row.
+ */
+function getSearchIndex(): SearchIndex | undefined {
+  if (!CONFIG.searchIndex.enabled) return undefined;
+  if (!searchIndex && !searchIndexBuild) {
+    const backoff = Math.min(INDEX_RETRY_MS * 2 ** Math.max(searchIndexFailures - 1, 0), INDEX_MAX_RETRY_MS);
+    if (searchIndexFailures === 0 || Date.now() - searchIndexFailedAt >= backoff) void refreshSearchIndex();
+  }
+  return searchIndex;
+}
+
+/** Render a search hit as a result row: CURIE-aware URI, optionally typed label */
+function searchHitRow(hit: SearchHit, typedLiterals: boolean, uriKey: string = "uri"): Record<string, unknown> {
+  const label = hit.label === undefined
+    ? undefined
+    : formatBindingValue({ type: "literal", value: hit.label, ...(hit.labelLang ? { "xml:lang": hit.labelLang } : {}) }, typedLiterals);
+  return {
+    [uriKey]: compactForOutput(hit.uri),
+    ...(uriKey === "uri" ? { type: hit.type } : {}),
+    ...(label !== undefined ? { label } : {}),
+    ...(hit.code !== undefined ? { code: hit.code } : {}),
+    score: hit.score,
+    match: hit.match,
+    ...(hit.matchedText !== undefined ? { matchedOn: { field: hit.matchedField, text: hit.matchedText } } : {}),
+  };
+}
+
 // =============================================================================
 // RESULT COMPRESSION
 // =============================================================================
 
+const XSD_STRING = "http://www.w3.org/2001/XMLSchema#string";
+
+/** Position of a value's language in the preference list; untagged values come right after, others last */
+function languageRank(value: SparqlBindingValue, languages: string[]): number {
+  const lang = value["xml:lang"]?.toLowerCase();
+  if (!lang) return languages.length;
+  const index = languages.findIndex((tag) => lang === tag || lang.startsWith(`${tag}-`));
+  return index === -1 ? languages.length + 1 : index;
+}
+
+/**
+ * Keep, among rows that differ only by the language of their literals,
+ * those whose languages best match the preference (e.g. the Italian label over the English one).
+ */
+function preferLanguages(bindings: SparqlBinding[], languages: string[]): SparqlBinding[] {
+  const groups = new Map<string, { rank: number; rows: SparqlBinding[] }>();
+
+  for (const binding of bindings) {
+    let rank = 0;
+    const keyParts: string[] = [];
+    for (const name of Object.keys(binding).sort()) {
+      const value = binding[name];
+      if (!value) continue;
+      if (value["xml:lang"] !== undefined) {
+        rank += languageRank(value, languages);
+        keyParts.push(`${name}@`);
+      } else {
+        keyParts.push(`${name}=${value.value}`);
+      }
+    }
+
+    const key = JSON.stringify(keyParts);
+    const group = groups.get(key);
+    if (!group || rank < group.rank) {
+      groups.set(key, { rank, rows: [binding] });
+    } else if (rank === group.rank) {
+      group.rows.push(binding);
+    }
+  }
+
+  // Group order follows the first appearance of each key, preserving the query's ORDER BY
+  return [...groups.values()].flatMap((group) => group.rows);
+}
+
+/** Compact a URI into a CURIE when the running tool asked for it, recording the prefix used */
+function compactForOutput(uri: string): string {
+  const context = curieContext.getStore();
+  if (!context) return uri;
+  const curie = compactIri(uri, context.prefixes);
+  if (curie !== uri) {
+    const prefix = curie.slice(0, curie.indexOf(":"));
+    context.used[prefix] = context.prefixes[prefix] ?? "";
+  }
+  return curie;
+}
+
+/** Render a binding value, optionally keeping the language tag or datatype of literals */
+function formatBindingValue(value: SparqlBindingValue, typedLiterals: boolean): string {
+  if (value.type === "uri") {
+    return compactForOutput(value.value);
+  }
+  if (!typedLiterals || (value.type !== "literal" && value.type !== "typed-literal")) {
+    return value.value;
+  }
+  const quoted = JSON.stringify(value.value);
+  if (value["xml:lang"]) return `${quoted}@${value["xml:lang"]}`;
+  if (value.datatype && value.datatype !== XSD_STRING) {
+    const datatype = curieContext.getStore()
+      ? compactForOutput(value.datatype)
+      : compactIri(value.datatype, PREFIX_MAP);
+    return `${quoted}^^${datatype === value.datatype ? `<${datatype}>` : datatype}`;
+  }
+  return quoted;
+}
+
 /** Compress SPARQL results for token efficiency */
-function compressSparqlResult(result: SparqlResult): CompressedResult {
+function compressSparqlResult(result: SparqlResult, options: CompressOptions = {}): CompressedResult {
+  // ASK queries: the answer is the plain boolean
+  if (typeof result?.boolean === "boolean") return result.boolean;
   if (!result?.results?.bindings) return [];
 
-  const bindings = result.results.bindings;
+  const typedLiterals = options.typedLiterals ?? false;
+  const bindings = options.languages
+    ? preferLanguages(result.results.bindings, options.languages)
+    : result.results.bindings;
   if (bindings.length === 0) return [];
 
   // Optimization: For lists > 5 items, return tabular format to save tokens on repeated keys
@@ -311,7 +741,10 @@ function compressSparqlResult(result: SparqlResult): CompressedResult {
     const firstBinding = bindings[0];
     const headers = result.head?.vars || (firstBinding ? Object.keys(firstBinding) : []);
     const rows = bindings.map((b: SparqlBinding) => {
-      return headers.map((h: string) => b[h]?.value ?? null);
+      return headers.map((h: string) => {
+        const value = b[h];
+        return value ? formatBindingValue(value, typedLiterals) : null;
+      });
     });
     return { headers, rows };
   }
@@ -323,7 +756,7 @@ function compressSparqlResult(result: SparqlResult): CompressedResult {
       if (Object.prototype.hasOwnProperty.call(binding, key)) {
         const bindingValue = binding[key];
         if (bindingValue) {
-          row[key] = bindingValue.value;
+          row[key] = formatBindingValue(bindingValue, typedLiterals);
         }
       }
     }
@@ -345,15 +778,6 @@ function getErrorMessage(error: unknown): string {
   return String(error);
 }
 
-/** Truncate text to CHARACTER_LIMIT with indicator */
-function truncateResult(text: string): { text: string; truncated: boolean } {
-  if (text.length <= CHARACTER_LIMIT) {
-    return { text, truncated: false };
-  }
-  const truncated = text.slice(0, CHARACTER_LIMIT);
-  return { text: truncated, truncated: true };
-}
-
 /**
  * Central helper for executing tools with consistent error handling, logging, and truncation.
  * @param toolName - Name of the tool for logging
@@ -367,7 +791,17 @@ async function executeTool<T>(
 ): Promise<McpToolResponse> {
   console.error(`[Tool] Executing: ${toolName}`, args);
   try {
-    const result = await handler();
+    const bypassing = args.noCache === true
+      ? () => cacheBypass.run(true, handler)
+      : handler;
+    let curies: { prefixes: Record<string, string>; used: Record<string, string> } | undefined;
+    if (args.curies === true) {
+      await discoverPrefixes();
+      curies = { prefixes: knownPrefixes(), used: {} };
+    }
+    const result = curies
+      ? await curieContext.run(curies, bypassing)
+      : await bypassing();
     console.error(`[Tool] ${toolName} completed: ${result.success ? 'SUCCESS' : 'FAILURE'}`);
 
     if (!result.success) {
@@ -376,33 +810,27 @@ async function executeTool<T>(
       if (result.suggestion) {
         errorText += `\nSuggestion: ${result.suggestion}`;
       }
+      if (result.details !== undefined) {
+        errorText += `\nDetails: ${JSON.stringify(result.details)}`;
+      }
       return {
         content: [{ type: "text", text: errorText }],
         isError: true,
       };
     }
 
-    const jsonText = JSON.stringify(result.data);
-    const { text, truncated } = truncateResult(jsonText);
+    // The prefix map is returned once, next to the compacted data
+    const data = curies && Object.keys(curies.used).length > 0
+      ? { _prefixes: curies.used, data: result.data }
+      : result.data;
+    // Oversized results keep whole rows; the rest stays in the cursor store for fetch_more
+    const { output, truncated } = truncateToLimit(data, CHARACTER_LIMIT, cursorStore, toolName);
 
     const rowInfo = result.rowCount !== undefined ? `, ${result.rowCount} rows` : "";
     await logUsage(toolName, args, `Success${rowInfo}${truncated ? " (truncated)" : ""}`);
 
-    if (truncated) {
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            _truncated: true,
-            _message: `Result exceeded ${CHARACTER_LIMIT} characters and was truncated`,
-            data: JSON.parse(text.slice(0, text.lastIndexOf("}") + 1) || "null")
-          })
-        }],
-      };
-    }
-
     return {
-      content: [{ type: "text", text }],
+      content: [{ type: "text", text: JSON.stringify(output) }],
     };
   } catch (error: unknown) {
     const message = getErrorMessage(error);
@@ -415,6 +843,45 @@ async function executeTool<T>(
   }
 }
 
+/**
+ * Check a user-written query locally, then run it with the response shape of its form:
+ * compressed bindings for SELECT, a boolean for ASK, a serialized graph for CONSTRUCT/DESCRIBE.
+ * Syntax errors, undeclared prefixes, unbound projections, updates and non-allowed
+ * SERVICE clauses are returned as a ToolError without reaching the endpoint.
+ */
+async function runRawQuery(
+  query: string,
+  endpoint: string,
+  injectPrefixes: boolean,
+  timeoutMs: number,
+  format: GraphFormat,
+  options: CompressOptions = {}
+): Promise<ToolResult<unknown>> {
+  const validation = validateQuery(query, {
+    prefixes: PREFIXES,
+    injectPrefixes,
+    allowedServiceEndpoints: ALLOWED_SERVICE_ENDPOINTS,
+  });
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: validation.error,
+      suggestion: validation.suggestion,
+      ...(validation.issues ? { details: { issues: validation.issues } } : {}),
+    };
+  }
+
+  if (validation.queryForm === "CONSTRUCT" || validation.queryForm === "DESCRIBE") {
+    const quads = await executeSparqlGraph(query, endpoint, injectPrefixes, timeoutMs);
+    const graph = await serializeGraph(quads, format, { ...PREFIX_MAP, ...validation.prefixes });
+    return { success: true, data: graph, rowCount: graph.tripleCount };
+  }
+
+  const result = await executeSparql(query, endpoint, injectPrefixes, timeoutMs);
+  const rowCount = result.results?.bindings?.length ?? 0;
+  return { success: true, data: compressSparqlResult(result, options), rowCount };
+}
+
 /**
  * Specialized helper for SPARQL-based tools.
  * Handles query execution, compression, and standard response formatting.
@@ -422,19 +889,1690 @@ async function executeTool<T>(
 async function executeSparqlTool(
   toolName: string,
   args: Record<string, unknown>,
-  query: string
+  query: string,
+  options: CompressOptions = {}
 ): Promise<McpToolResponse> {
   return executeTool(toolName, args, async () => {
     const result = await executeSparql(query);
     const rowCount = result.results?.bindings?.length ?? 0;
-    const compressed = compressSparqlResult(result);
+    const compressed = compressSparqlResult(result, options);
     return { success: true, data: compressed, rowCount };
   });
-}
+}
+
+// =============================================================================
+// CATALOG QUERIES (shared by tools and resources)
+// =============================================================================
+
+/** Ontologies with their label or title */
+function listOntologiesQuery(limit: number, languages: string[] | undefined): string {
+  return `
+      SELECT DISTINCT ?ont ?label
+      WHERE {
+        ?ont a owl:Ontology .
+        OPTIONAL { ?ont rdfs:label|dct:title ?label . ${languageFilter("label", languages)} }
+      }
+      ORDER BY ?label
+      LIMIT ${limit}
+    `;
+}
+
+/** Classes and properties whose URI starts with the ontology URI */
+function exploreOntologyQuery(safeUri: string, languages: string[] | undefined): string {
+  return `
+      SELECT DISTINCT ?type ?item ?label
+      WHERE {
+        VALUES ?type { owl:Class owl:ObjectProperty owl:DatatypeProperty }
+        ?item a ?type .
+        OPTIONAL { ?item rdfs:label ?label . ${languageFilter("label", languages)} }
+        FILTER(STRSTARTS(STR(?item), "${safeUri}"))
+      }
+      ORDER BY ?type ?item
+      LIMIT 200
+    `;
+}
+
+/** ConceptSchemes with their label and concept count */
+function listVocabulariesQuery(limit: number, languages: string[] | undefined): string {
+  return `
+      SELECT DISTINCT ?scheme ?label (COUNT(?c) AS ?count)
+      WHERE {
+        ?scheme a skos:ConceptScheme .
+        OPTIONAL { ?scheme rdfs:label|dct:title ?label . ${languageFilter("label", languages)} }
+        OPTIONAL { ?c skos:inScheme ?scheme }
+      }
+      GROUP BY ?scheme ?label
+      ORDER BY DESC(?count)
+      LIMIT ${limit}
+    `;
+}
+
+/** One page of concepts of a ConceptScheme, and the total count for pagination */
+function browseVocabularyQueries(
+  safeSchemeUri: string,
+  limit: number,
+  offset: number,
+  keyword: string | undefined,
+  match: MatchMode,
+  languages: string[] | undefined
+): { dataQuery: string; countQuery: string } {
+  const labelFilter = keyword ? keywordFilter("label", keyword, match) : "";
+
+  const dataQuery = `
+      SELECT ?concept ?code ?label
+      WHERE {
+        ?concept skos:inScheme <${safeSchemeUri}> .
+        ?concept a skos:Concept .
+        OPTIONAL { ?concept skos:notation ?code }
+        OPTIONAL { ?concept skos:prefLabel|rdfs:label ?label . ${languageFilter("label", languages)} }
+        ${labelFilter}
+      }
+      ORDER BY ?code ?label
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+  const countQuery = `
+      SELECT (COUNT(?concept) AS ?total)
+      WHERE {
+        ?concept skos:inScheme <${safeSchemeUri}> .
+        ?concept a skos:Concept .
+        ${keyword ? `
+          ?concept skos:prefLabel|rdfs:label ?label .
+          ${labelFilter}
+        ` : ""}
+      }
+    `;
+
+  return { dataQuery, countQuery };
+}
+
+/** One page of datasets with their title, and the total count for pagination */
+function listDatasetsQueries(
+  limit: number,
+  offset: number,
+  languages: string[] | undefined
+): { dataQuery: string; countQuery: string } {
+  const dataQuery = `
+      SELECT DISTINCT ?dataset ?label
+      WHERE {
+        ?dataset a <http://dati.gov.it/onto/dcatapit#Dataset> .
+        OPTIONAL { ?dataset dct:title ?label . ${languageFilter("label", languages)} }
+      }
+      ORDER BY ?label
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+  const countQuery = `
+      SELECT (COUNT(DISTINCT ?dataset) AS ?total)
+      WHERE {
+        ?dataset a <http://dati.gov.it/onto/dcatapit#Dataset> .
+      }
+    `;
+
+  return { dataQuery, countQuery };
+}
+
+/** Literal metadata and distributions of a dataset */
+function exploreDatasetQueries(
+  safeUri: string,
+  languages: string[] | undefined
+): { metadataQuery: string; distQuery: string } {
+  const metadataQuery = `
+      SELECT ?p ?o
+      WHERE {
+        <${safeUri}> ?p ?o .
+        FILTER (ISLITERAL(?o) || (ISURI(?o) && EXISTS { ?o a <http://dati.gov.it/onto/dcatapit#Distribution> }))
+        ${languageFilter("o", languages)}
+      }
+      LIMIT 100
+    `;
+
+  const distQuery = `
+      SELECT ?dist ?format ?url
+      WHERE {
+        ?dist a <http://dati.gov.it/onto/dcatapit#Distribution> .
+        { <${safeUri}> dcat:distribution ?dist } UNION { ?dist isDistributionOf <${safeUri}> } .
+        OPTIONAL { ?dist dct:format ?format }
+        OPTIONAL { ?dist dcat:downloadURL ?url }
+      }
+      LIMIT 20
+    `;
+
+  return { metadataQuery, distQuery };
+}
+
+// =============================================================================
+// HIERARCHIES
+// =============================================================================
+
+/** Parents sent per query when loading a hierarchy level */
+const HIERARCHY_BATCH_SIZE = 200;
+
+/** Longest broader chain followed when looking for the root of a concept */
+const MAX_PATH_LENGTH = 30;
+
+/** Split a list into chunks of at most `size` items */
+function inChunks<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** VALUES clause binding a variable to a list of URIs */
+function valuesClause(variable: string, uris: string[]): string {
+  return `VALUES ?${variable} { ${uris.map((uri) => `<${sanitizeSparqlUri(uri)}>`).join(" ")} }`;
+}
+
+/**
+ * Group rows with ?{groupVariable}, ?node, ?code and ?label into one NodeInfo per node and group,
+ * keeping the label in the best language
+ */
+function groupNodeInfos(bindings: SparqlBinding[], groupVariable: string, languages: string[]): Map<string, NodeInfo[]> {
+  const best = new Map<string, Map<string, { info: NodeInfo; rank: number }>>();
+  for (const binding of bindings) {
+    const group = binding[groupVariable]?.value ?? "";
+    const uri = binding.node?.value;
+    if (!uri) continue;
+    let nodes = best.get(group);
+    if (!nodes) {
+      nodes = new Map();
+      best.set(group, nodes);
+    }
+    const rank = binding.label ? languageRank(binding.label, languages) : Infinity;
+    const current = nodes.get(uri);
+    if (current && current.rank <= rank) {
+      if (current.info.code === undefined && binding.code) current.info.code = binding.code.value;
+      continue;
+    }
+    const code = binding.code?.value ?? current?.info.code;
+    nodes.set(uri, {
+      rank,
+      info: {
+        uri,
+        ...(code !== undefined ? { code } : {}),
+        ...(binding.label ? { label: binding.label.value } : {}),
+      },
+    });
+  }
+  return new Map([...best].map(([group, nodes]) => [group, [...nodes.values()].map((entry) => entry.info)]));
+}
+
+/**
+ * Hierarchy read with SPARQL: `edge` links ?parent to a child ?node,
+ * `details` binds the ?code and ?label of ?node
+ */
+function sparqlTreeSource(edge: string, details: string, languages: string[]): TreeSource {
+  return {
+    async children(parents) {
+      const results = await Promise.all(inChunks(parents, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+        SELECT DISTINCT ?parent ?node ?code ?label
+        WHERE {
+          ${valuesClause("parent", chunk)}
+          ${edge}
+          ${details}
+        }
+      `)));
+      return groupNodeInfos(results.flatMap((result) => result.results?.bindings ?? []), "parent", languages);
+    },
+    async childCounts(nodes) {
+      const results = await Promise.all(inChunks(nodes, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+        SELECT ?parent (COUNT(DISTINCT ?node) AS ?count)
+        WHERE {
+          ${valuesClause("parent", chunk)}
+          ${edge}
+        }
+        GROUP BY ?parent
+      `)));
+      const counts = new Map<string, number>();
+      for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+        if (binding.parent && binding.count) counts.set(binding.parent.value, parseInt(binding.count.value, 10));
+      }
+      return counts;
+    },
+  };
+}
+
+/** Code and label of some nodes, in the order given */
+async function nodeInfos(uris: string[], details: string, languages: string[]): Promise<NodeInfo[]> {
+  const results = await Promise.all(inChunks(uris, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT ?node ?code ?label
+    WHERE {
+      ${valuesClause("node", chunk)}
+      ${details}
+    }
+  `)));
+  const infos = groupNodeInfos(results.flatMap((result) => result.results?.bindings ?? []), "", languages).get("") ?? [];
+  return uris.map((uri) => infos.find((info) => info.uri === uri) ?? { uri });
+}
+
+/** skos:notation and skos:prefLabel of ?node */
+function skosDetails(languages: string[]): string {
+  return `
+    OPTIONAL { ?node skos:notation ?code }
+    OPTIONAL { ?node skos:prefLabel ?label . ${languageFilter("label", languages)} }
+  `;
+}
+
+/** SKOS hierarchy (skos:broader / skos:narrower), optionally restricted to the concepts of a scheme */
+function skosTreeSource(safeSchemeUri: string | undefined, languages: string[]): TreeSource {
+  const inScheme = safeSchemeUri ? `?node skos:inScheme <${safeSchemeUri}> .` : "";
+  return sparqlTreeSource(
+    `{ ?node skos:broader ?parent } UNION { ?parent skos:narrower ?node } ${inScheme}`,
+    skosDetails(languages),
+    languages
+  );
+}
+
+/** Top concepts of a scheme; without explicit ones, the concepts with no broader concept in the scheme */
+async function skosTopConcepts(safeSchemeUri: string, languages: string[], limit: number): Promise<NodeInfo[]> {
+  const details = skosDetails(languages);
+  const explicit = await executeSparql(`
+    SELECT DISTINCT ?node ?code ?label
+    WHERE {
+      { ?node skos:topConceptOf <${safeSchemeUri}> } UNION { <${safeSchemeUri}> skos:hasTopConcept ?node }
+      ${details}
+    }
+  `);
+  let bindings = explicit.results?.bindings ?? [];
+  if (bindings.length === 0) {
+    const implicit = await executeSparql(`
+      SELECT DISTINCT ?node ?code ?label
+      WHERE {
+        ?node skos:inScheme <${safeSchemeUri}> .
+        FILTER NOT EXISTS { ?node skos:broader ?up . ?up skos:inScheme <${safeSchemeUri}> }
+        FILTER NOT EXISTS { ?up skos:narrower ?node . ?up skos:inScheme <${safeSchemeUri}> }
+        ${details}
+      }
+      LIMIT ${limit}
+    `);
+    bindings = implicit.results?.bindings ?? [];
+  }
+  return groupNodeInfos(bindings, "", languages).get("") ?? [];
+}
+
+/**
+ * Follow skos:broader from a concept up to a root.
+ * With several broader concepts the first one (by code, then label) is followed and the others are reported.
+ */
+async function skosPathToRoot(
+  safeConceptUri: string,
+  languages: string[]
+): Promise<{ path: NodeInfo[]; otherParents: Record<string, string[]> }> {
+  const [start] = await nodeInfos([safeConceptUri], skosDetails(languages), languages);
+  const path: NodeInfo[] = [start ?? { uri: safeConceptUri }];
+  const otherParents: Record<string, string[]> = {};
+  const visited = new Set([safeConceptUri]);
+
+  for (let step = 0; step < MAX_PATH_LENGTH; step++) {
+    const current = path[0]?.uri ?? safeConceptUri;
+    const result = await executeSparql(`
+      SELECT DISTINCT ?node ?code ?label
+      WHERE {
+        { <${sanitizeSparqlUri(current)}> skos:broader ?node } UNION { ?node skos:narrower <${sanitizeSparqlUri(current)}> }
+        ${skosDetails(languages)}
+      }
+    `);
+    const parents = (groupNodeInfos(result.results?.bindings ?? [], "", languages).get("") ?? []).sort(compareNodes);
+    const [parent, ...others] = parents;
+    if (!parent || visited.has(parent.uri)) break;
+    if (others.length > 0) otherParents[current] = others.map((other) => other.uri);
+    visited.add(parent.uri);
+    path.unshift(parent);
+  }
+  return { path, otherParents };
+}
+
+/** rdfs:label of ?node */
+function classDetails(languages: string[]): string {
+  return `OPTIONAL { ?node rdfs:label ?label . ${languageFilter("label", languages)} }`;
+}
+
+/** rdfs:subClassOf hierarchy between named classes, across ontologies */
+function subClassTreeSource(languages: string[]): TreeSource {
+  return sparqlTreeSource(
+    "?node rdfs:subClassOf ?parent . FILTER(ISIRI(?node) && ?node != ?parent)",
+    classDetails(languages),
+    languages
+  );
+}
+
+/** Namespace of a term: its URI up to the last "#" or "/" */
+function namespaceOf(uri: string): string {
+  return uri.slice(0, Math.max(uri.lastIndexOf("#"), uri.lastIndexOf("/")) + 1) || uri;
+}
+
+/** A named superclass of a class */
+interface ClassAncestor extends NodeInfo {
+  /** Length of the shortest rdfs:subClassOf chain from the class */
+  distance: number;
+  /** Direct superclasses of this ancestor */
+  parents: string[];
+  namespace: string;
+}
+
+/** A property whose rdfs:domain is the class or one of its ancestors */
+interface ApplicableProperty {
+  uri: string;
+  label?: string;
+  type?: string;
+  range: string[];
+  /** The nearest class declaring the property as its domain */
+  declaredOn: string;
+  inherited: boolean;
+  distance: number;
+}
+
+/** Transitive named superclasses of a class, nearest first */
+async function classAncestors(safeClassUri: string, languages: string[]): Promise<ClassAncestor[]> {
+  const result = await executeSparql(`
+    SELECT DISTINCT ?child ?parent
+    WHERE {
+      <${safeClassUri}> rdfs:subClassOf* ?child .
+      ?child rdfs:subClassOf ?parent .
+      FILTER(ISIRI(?child) && ISIRI(?parent) && ?child != ?parent)
+    }
+    LIMIT 5000
+  `);
+  const parentsOf = new Map<string, string[]>();
+  for (const binding of result.results?.bindings ?? []) {
+    const child = binding.child?.value;
+    const parent = binding.parent?.value;
+    if (!child || !parent) continue;
+    const parents = parentsOf.get(child) ?? [];
+    if (!parents.includes(parent)) parents.push(parent);
+    parentsOf.set(child, parents);
+  }
+
+  // Shortest distance from the class, breadth-first (cycles are visited once)
+  const distances = new Map<string, number>([[safeClassUri, 0]]);
+  let frontier = [safeClassUri];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const uri of frontier) {
+      for (const parent of parentsOf.get(uri) ?? []) {
+        if (distances.has(parent)) continue;
+        distances.set(parent, (distances.get(uri) ?? 0) + 1);
+        next.push(parent);
+      }
+    }
+    frontier = next;
+  }
+  distances.delete(safeClassUri);
+  if (distances.size === 0) return [];
+
+  const infos = await nodeInfos([...distances.keys()], classDetails(languages), languages);
+  return infos
+    .map((info) => ({
+      ...info,
+      distance: distances.get(info.uri) ?? 0,
+      parents: parentsOf.get(info.uri) ?? [],
+      namespace: namespaceOf(info.uri),
+    }))
+    .sort((a, b) => a.distance - b.distance || compareNodes(a, b));
+}
+
+/**
+ * Properties applicable to a class through rdfs:domain on the class or its ancestors
+ * (including domains given as owl:unionOf), each attributed to the nearest declaring class
+ */
+async function applicableProperties(
+  safeClassUri: string,
+  ancestors: ClassAncestor[],
+  languages: string[]
+): Promise<ApplicableProperty[]> {
+  const distances = new Map([[safeClassUri, 0], ...ancestors.map((ancestor): [string, number] => [ancestor.uri, ancestor.distance])]);
+  const results = await Promise.all(inChunks([...distances.keys()], HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT DISTINCT ?property ?domain ?type ?range ?label
+    WHERE {
+      ${valuesClause("domain", chunk)}
+      { ?property rdfs:domain ?domain } UNION { ?property rdfs:domain/owl:unionOf/rdf:rest*/rdf:first ?domain }
+      OPTIONAL { ?property a ?type . FILTER(?type IN (owl:ObjectProperty, owl:DatatypeProperty, owl:AnnotationProperty, rdf:Property)) }
+      OPTIONAL { ?property rdfs:range ?range . FILTER(ISIRI(?range)) }
+      OPTIONAL { ?property rdfs:label ?label . ${languageFilter("label", languages)} }
+    }
+  `)));
+
+  const properties = new Map<string, ApplicableProperty & { labelRank: number }>();
+  for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+    const uri = binding.property?.value;
+    const domain = binding.domain?.value;
+    if (!uri || !domain) continue;
+    const distance = distances.get(domain) ?? 0;
+    let property = properties.get(uri);
+    if (!property) {
+      property = { uri, range: [], declaredOn: domain, inherited: distance > 0, distance, labelRank: Infinity };
+      properties.set(uri, property);
+    } else if (distance < property.distance) {
+      Object.assign(property, { declaredOn: domain, inherited: distance > 0, distance });
+    }
+    if (binding.type && (property.type === undefined || property.type === "Property")) {
+      property.type = binding.type.value.replace(/^.*[#/]/, "");
+    }
+    if (binding.range && !property.range.includes(binding.range.value)) property.range.push(binding.range.value);
+    if (binding.label) {
+      const rank = languageRank(binding.label, languages);
+      if (rank < property.labelRank) {
+        property.label = binding.label.value;
+        property.labelRank = rank;
+      }
+    }
+  }
+
+  return [...properties.values()]
+    .map(({ labelRank: _labelRank, ...property }) => property)
+    .sort((a, b) => a.distance - b.distance || (a.label ?? a.uri).localeCompare(b.label ?? b.uri));
+}
+
+/** Apply CURIE compaction (when requested) to the URIs of a tree */
+function compactTree(nodes: TreeNode[]): TreeNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    uri: compactForOutput(node.uri),
+    ...(node.children ? { children: compactTree(node.children) } : {}),
+  }));
+}
+
+// =============================================================================
+// ONTOLOGY VERSIONS
+// =============================================================================
+
+/** Directory of the ontology snapshots written by diff_ontology */
+const ONTOLOGY_SNAPSHOT_DIR = CONFIG.ontologySnapshotDir;
+
+/** Directory "file:" sources are read from; they are refused when unset */
+const ONTOLOGY_FILE_DIR = CONFIG.ontologyFileDir;
+
+/** Names accepted for stored ontology snapshots (they become file names) */
+const SNAPSHOT_NAME_PATTERN = /^[\w.-]+$/;
+
+/** Where diff_ontology reads a version of an ontology from */
+type OntologySource =
+  | { kind: "live" }
+  | { kind: "profile"; name: string }
+  | { kind: "file"; path: string }
+  | { kind: "snapshot"; name: string };
+
+/** Parse "live", "profile:<name>", "file:<path>" or "snapshot:<name>" */
+function parseOntologySource(source: string): OntologySource {
+  const separator = source.indexOf(":");
+  const kind = separator === -1 ? source : source.slice(0, separator);
+  const value = separator === -1 ? "" : source.slice(separator + 1).trim();
+
+  if (kind === "live" && value === "") return { kind: "live" };
+  if (kind === "profile" && value !== "") {
+    if (!CONFIG.profiles[value]) {
+      const available = Object.keys(CONFIG.profiles);
+      throw new Error(`Unknown endpoint profile "${value}". ${available.length > 0 ? `Available profiles: ${available.join(", ")}` : "No profiles are defined in the configuration"}`);
+    }
+    return { kind: "profile", name: value };
+  }
+  if (kind === "file" && value !== "") {
+    if (!ONTOLOGY_FILE_DIR) {
+      throw new Error('"file:" sources are disabled: set MCP_ONTOLOGY_FILE_DIR (or ontologyFileDir in the configuration) to the directory holding the ontology files');
+    }
+    if (![".ttl", ".nt"].includes(extname(value).toLowerCase())) {
+      throw new Error(`Unsupported file ${value}: use a Turtle (.ttl) or N-Triples (.nt) file`);
+    }
+    return { kind: "file", path: value };
+  }
+  if (kind === "snapshot" && SNAPSHOT_NAME_PATTERN.test(value)) return { kind: "snapshot", name: value };
+  throw new Error(`Invalid source "${source}". Use "live", "profile:<name>", "file:<path.ttl>" or "snapshot:<name>" (letters, digits, ".", "-", "_")`);
+}
+
+/** Names of the stored ontology snapshots */
+async function listOntologySnapshots(): Promise<string[]> {
+  const entries = await readdir(ONTOLOGY_SNAPSHOT_DIR).catch(() => []);
+  return entries.filter((entry) => entry.endsWith(".ttl")).map((entry) => entry.slice(0, -".ttl".length)).sort();
+}
+
+/** Read the quads describing an ontology from a source */
+async function loadOntologyQuads(source: OntologySource, safeUri: string): Promise<Quad[]> {
+  const query = `
+    CONSTRUCT { ?s ?p ?o }
+    WHERE {
+      VALUES ?p { ${ONTOLOGY_PREDICATES.map((predicate) => `<${predicate}>`).join(" ")} }
+      ?s ?p ?o .
+      FILTER(STRSTARTS(STR(?s), "${safeUri}") && !ISBLANK(?o))
+    }
+  `;
+
+  switch (source.kind) {
+    case "live":
+      return executeSparqlGraph(query);
+    case "profile": {
+      const profile = CONFIG.profiles[source.name];
+      if (!profile) throw new Error(`Unknown endpoint profile "${source.name}"`);
+      const turtle = await fetchSparql(
+        PREFIXES + "\n" + query,
+        profile.endpoint,
+        profile.timeouts?.sparqlMs ?? SPARQL_TIMEOUT_MS,
+        GRAPH_ACCEPT,
+        { ...(profile.userAgent ? { "User-Agent": profile.userAgent } : {}), ...profile.headers }
+      );
+      return parseTurtle(turtle);
+    }
+    case "file": {
+      if (!ONTOLOGY_FILE_DIR) throw new Error('"file:" sources are disabled');
+      const file = await resolveWithin(ONTOLOGY_FILE_DIR, source.path);
+      return selectOntologyQuads(parseTurtle(await readFile(file, "utf-8")), safeUri);
+    }
+    case "snapshot": {
+      const file = ontologySnapshotFile(source.name);
+      if (!existsSync(file)) {
+        const available = await listOntologySnapshots();
+        throw new Error(`No ontology snapshot named "${source.name}". ${available.length > 0 ? `Available snapshots: ${available.join(", ")}` : `No snapshots in ${ONTOLOGY_SNAPSHOT_DIR}`}`);
+      }
+      return selectOntologyQuads(parseTurtle(await readFile(file, "utf-8")), safeUri);
+    }
+  }
+}
+
+/** File of snapshot:<name> */
+function ontologySnapshotFile(name: string): string {
+  return join(ONTOLOGY_SNAPSHOT_DIR, `${name}.ttl`);
+}
+
+/** Store the quads of an ontology version as snapshot:<name>; an existing one is only replaced with overwrite */
+async function saveOntologySnapshot(name: string, quads: Quad[], overwrite: boolean): Promise<string> {
+  const graph = await serializeGraph(quads, "turtle", knownPrefixes());
+  await mkdir(ONTOLOGY_SNAPSHOT_DIR, { recursive: true });
+  const file = ontologySnapshotFile(name);
+  await writeFile(file, graph.content as string, { encoding: "utf-8", flag: overwrite ? "w" : "wx" });
+  return file;
+}
+
+/** Version header and term count of one side of a diff */
+function ontologyVersionSummary(source: string, model: OntologyModel): Record<string, unknown> {
+  return {
+    source,
+    ...(model.versionInfo !== undefined ? { versionInfo: model.versionInfo } : {}),
+    ...(model.versionIri !== undefined ? { versionIri: model.versionIri } : {}),
+    ...(model.modified !== undefined ? { modified: model.modified } : {}),
+    classes: [...model.terms.values()].filter((term) => term.kind === "class").length,
+    properties: [...model.terms.values()].filter((term) => term.kind !== "class").length,
+  };
+}
+
+/** Apply CURIE compaction (when requested) to the URIs of a change */
+function compactChange(change: OntologyChange): OntologyChange {
+  const compactValue = (value: unknown): unknown => {
+    if (typeof value === "string" && /^https?:\/\//.test(value)) return compactForOutput(value);
+    if (Array.isArray(value)) return value.map(compactValue);
+    return value;
+  };
+  return {
+    ...change,
+    uri: compactForOutput(change.uri),
+    ...(change.change !== "version_changed" && change.before !== undefined ? { before: compactValue(change.before) } : {}),
+    ...(change.change !== "version_changed" && change.after !== undefined ? { after: compactValue(change.after) } : {}),
+  };
+}
+
+// =============================================================================
+// SHACL VALIDATION
+// =============================================================================
+
+/** Largest RDF document accepted by validate_rdf (characters) */
+const MAX_VALIDATION_INPUT = 1_000_000;
+
+/** Where validate_rdf takes its shapes from */
+type ShapesMode = "auto" | "catalog" | "derived";
+
+/** Direct rdfs:subClassOf links between named classes, from some classes up to their roots */
+async function superClassEdges(classes: string[]): Promise<[string, string][]> {
+  const results = await Promise.all(inChunks(classes, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT DISTINCT ?child ?parent
+    WHERE {
+      ${valuesClause("class", chunk)}
+      ?class rdfs:subClassOf* ?child .
+      ?child rdfs:subClassOf ?parent .
+      FILTER(ISIRI(?child) && ISIRI(?parent) && ?child != ?parent)
+    }
+    LIMIT 5000
+  `)));
+  const edges = new Map<string, [string, string]>();
+  for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+    if (binding.child && binding.parent) {
+      edges.set(`${binding.child.value} ${binding.parent.value}`, [binding.child.value, binding.parent.value]);
+    }
+  }
+  return [...edges.values()];
+}
+
+/** Classes of the data that the catalog does not define or use */
+async function unknownClasses(classes: string[]): Promise<string[]> {
+  const results = await Promise.all(inChunks(classes, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT DISTINCT ?class
+    WHERE {
+      ${valuesClause("class", chunk)}
+      { ?class a ?type } UNION { ?class rdfs:subClassOf ?parent } UNION { ?property rdfs:domain ?class } UNION { ?property rdfs:range ?class }
+    }
+  `)));
+  const known = new Set(results.flatMap((result) => result.results?.bindings ?? []).map((binding) => binding.class?.value));
+  return classes.filter((uri) => !known.has(uri));
+}
+
+/**
+ * SHACL shapes published in the catalog for some classes:
+ * every triple reachable from a shape with sh:targetClass on one of them
+ */
+async function catalogShapes(classes: string[]): Promise<Quad[]> {
+  const graphs = await Promise.all(inChunks(classes, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparqlGraph(`
+    PREFIX sh: <${SH}>
+    CONSTRUCT { ?s ?p ?o }
+    WHERE {
+      ${valuesClause("class", chunk)}
+      ?shape sh:targetClass ?class .
+      ?shape (sh:property|sh:node|sh:and|sh:or|sh:xone|sh:not|sh:in|sh:path|sh:qualifiedValueShape|sh:ignoredProperties|rdf:first|rdf:rest)* ?s .
+      ?s ?p ?o .
+    }
+  `)));
+  return graphs.flat();
+}
+
+/**
+ * Constraints of some classes read from the ontology: properties with the class in rdfs:domain
+ * (also through owl:unionOf), their ranges and OWL types, and unqualified cardinality restrictions.
+ * Inherited constraints are not repeated: the shapes of the superclasses apply through rdfs:subClassOf.
+ */
+async function ontologyConstraints(classes: string[]): Promise<ClassConstraints[]> {
+  const chunks = inChunks(classes, HIERARCHY_BATCH_SIZE);
+  const [domainResults, restrictionResults] = await Promise.all([
+    Promise.all(chunks.map((chunk) => executeSparql(`
+      SELECT DISTINCT ?class ?property ?type ?range
+      WHERE {
+        ${valuesClause("class", chunk)}
+        { ?property rdfs:domain ?class } UNION { ?property rdfs:domain/owl:unionOf/rdf:rest*/rdf:first ?class }
+        OPTIONAL { ?property a ?type . FILTER(?type IN (owl:ObjectProperty, owl:DatatypeProperty, owl:FunctionalProperty)) }
+        OPTIONAL { ?property rdfs:range ?range . FILTER(ISIRI(?range)) }
+      }
+    `))),
+    Promise.all(chunks.map((chunk) => executeSparql(`
+      SELECT DISTINCT ?class ?property ?restriction ?count
+      WHERE {
+        ${valuesClause("class", chunk)}
+        VALUES ?restriction { owl:cardinality owl:minCardinality owl:maxCardinality }
+        ?class rdfs:subClassOf ?node .
+        ?node owl:onProperty ?property ;
+          ?restriction ?count .
+        FILTER(ISIRI(?property))
+      }
+    `))),
+  ]);
+
+  const byClass = new Map<string, Map<string, PropertyConstraint>>();
+  const constraintOf = (classUri: string, property: string): PropertyConstraint => {
+    let properties = byClass.get(classUri);
+    if (!properties) {
+      properties = new Map();
+      byClass.set(classUri, properties);
+    }
+    let constraint = properties.get(property);
+    if (!constraint) {
+      constraint = { property, ranges: [] };
+      properties.set(property, constraint);
+    }
+    return constraint;
+  };
+
+  for (const binding of domainResults.flatMap((result) => result.results?.bindings ?? [])) {
+    if (!binding.class || !binding.property) continue;
+    const constraint = constraintOf(binding.class.value, binding.property.value);
+    const type = binding.type?.value.replace(/^.*[#/]/, "");
+    if (type === "ObjectProperty") constraint.kind = "object";
+    if (type === "DatatypeProperty") constraint.kind = "datatype";
+    if (type === "FunctionalProperty") constraint.maxCount = 1;
+    if (binding.range && !constraint.ranges.includes(binding.range.value)) constraint.ranges.push(binding.range.value);
+  }
+
+  for (const binding of restrictionResults.flatMap((result) => result.results?.bindings ?? [])) {
+    if (!binding.class || !binding.property || !binding.restriction || !binding.count) continue;
+    const count = parseInt(binding.count.value, 10);
+    if (!Number.isFinite(count)) continue;
+    const constraint = constraintOf(binding.class.value, binding.property.value);
+    const restriction = binding.restriction.value.replace(/^.*#/, "");
+    // Several restrictions on the same property combine into the narrowest bounds
+    if (restriction !== "maxCardinality") constraint.minCount = Math.max(constraint.minCount ?? 0, count);
+    if (restriction !== "minCardinality") constraint.maxCount = Math.min(constraint.maxCount ?? Infinity, count);
+  }
+
+  return [...byClass]
+    .map(([classUri, properties]) => ({ classUri, properties: [...properties.values()] }))
+    .filter((constraints) => constraints.properties.length > 0);
+}
+
+// =============================================================================
+// SCHEMA GENERATION
+// =============================================================================
+
+/** Most classes included as nested schemas by generate_json_schema */
+const MAX_SCHEMA_CLASSES = 50;
+
+/** Ranges that say nothing about the linked resource: always written as URIs */
+const GENERIC_RANGES = new Set([
+  "http://www.w3.org/2002/07/owl#Thing",
+  "http://www.w3.org/2000/01/rdf-schema#Resource",
+  "http://www.w3.org/2004/02/skos/core#Concept",
+]);
+
+/** rdfs:comment of ?node, read into ?label by nodeInfos */
+function commentDetails(languages: string[]): string {
+  return `OPTIONAL { ?node rdfs:comment ?label . ${languageFilter("label", languages)} }`;
+}
+
+/**
+ * Controlled vocabularies behind some class ranges: the ConceptScheme with most concepts typed with the range.
+ * Schemes with more than maxValues concepts are left out (the range stays a reference).
+ */
+async function rangeVocabularies(ranges: string[], maxValues: number, languages: string[]): Promise<Map<string, SchemaVocabulary>> {
+  const results = await Promise.all(inChunks(ranges, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT ?range ?scheme (COUNT(DISTINCT ?concept) AS ?count)
+    WHERE {
+      ${valuesClause("range", chunk)}
+      ?concept a ?range ;
+        skos:inScheme ?scheme .
+    }
+    GROUP BY ?range ?scheme
+  `)));
+  const best = new Map<string, { scheme: string; count: number }>();
+  for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+    if (!binding.range || !binding.scheme || !binding.count) continue;
+    const count = parseInt(binding.count.value, 10);
+    const current = best.get(binding.range.value);
+    if (!current || count > current.count) best.set(binding.range.value, { scheme: binding.scheme.value, count });
+  }
+
+  const vocabularies = new Map<string, SchemaVocabulary>();
+  await Promise.all([...best].filter(([, { count }]) => count <= maxValues).map(async ([range, { scheme }]) => {
+    const [concepts, [schemeInfo]] = await Promise.all([
+      executeSparql(`
+        SELECT DISTINCT ?node ?code ?label
+        WHERE {
+          ?node a <${sanitizeSparqlUri(range)}> ;
+            skos:inScheme <${sanitizeSparqlUri(scheme)}> .
+          ${skosDetails(languages)}
+        }
+      `),
+      nodeInfos([scheme], `OPTIONAL { ?node skos:prefLabel|dct:title|rdfs:label ?label . ${languageFilter("label", languages)} }`, languages),
+    ]);
+    const values = (groupNodeInfos(concepts.results?.bindings ?? [], "", languages).get("") ?? []).sort(compareNodes);
+    vocabularies.set(range, {
+      scheme,
+      ...(schemeInfo?.label ? { label: schemeInfo.label } : {}),
+      values: values.map((value) => ({ uri: value.uri, ...(value.label ? { label: value.label } : {}) })),
+    });
+  }));
+  return vocabularies;
+}
+
+/**
+ * A class as an object schema: the properties applicable through rdfs:domain on it or its ancestors,
+ * plus those restricted on them, with cardinalities from OWL restrictions and owl:FunctionalProperty
+ */
+async function schemaClass(safeClassUri: string, maxEnumValues: number, languages: string[]): Promise<SchemaClass> {
+  const [[info], [comment], ancestors] = await Promise.all([
+    nodeInfos([safeClassUri], classDetails(languages), languages),
+    nodeInfos([safeClassUri], commentDetails(languages), languages),
+    classAncestors(safeClassUri, languages),
+  ]);
+  const [applicable, constraints] = await Promise.all([
+    applicableProperties(safeClassUri, ancestors, languages),
+    ontologyConstraints([safeClassUri, ...ancestors.map((ancestor) => ancestor.uri)]),
+  ]);
+
+  const properties = new Map<string, SchemaProperty>();
+  for (const property of applicable) {
+    properties.set(property.uri, {
+      uri: property.uri,
+      ...(property.label ? { label: property.label } : {}),
+      kind: property.type === "ObjectProperty" ? "object" : property.type === "DatatypeProperty" ? "datatype" : "unknown",
+      ranges: property.range,
+    });
+  }
+  // The narrowest bounds over the class and its ancestors
+  for (const constraint of constraints.flatMap((cls) => cls.properties)) {
+    let property = properties.get(constraint.property);
+    if (!property) {
+      property = { uri: constraint.property, kind: constraint.kind ?? "unknown", ranges: [...constraint.ranges] };
+      properties.set(constraint.property, property);
+    }
+    if (constraint.minCount !== undefined) property.minCount = Math.max(property.minCount ?? 0, constraint.minCount);
+    if (constraint.maxCount !== undefined) property.maxCount = Math.min(property.maxCount ?? Infinity, constraint.maxCount);
+  }
+
+  const list = [...properties.values()];
+  const classRanges = [...new Set(list.flatMap((property) => property.ranges))]
+    .filter((range) => !isDatatypeRange(range) && !GENERIC_RANGES.has(range));
+  const [descriptions, labels, vocabularies] = await Promise.all([
+    nodeInfos(list.map((property) => property.uri), commentDetails(languages), languages),
+    nodeInfos(list.filter((property) => !property.label).map((property) => property.uri), classDetails(languages), languages),
+    classRanges.length > 0 ? rangeVocabularies(classRanges, maxEnumValues, languages) : Promise.resolve(new Map<string, SchemaVocabulary>()),
+  ]);
+  for (const property of list) {
+    const description = descriptions.find((node) => node.uri === property.uri)?.label;
+    const label = labels.find((node) => node.uri === property.uri)?.label;
+    if (description) property.description = description;
+    if (label) property.label = label;
+    const vocabulary = property.ranges.length === 1 && property.ranges[0] ? vocabularies.get(property.ranges[0]) : undefined;
+    if (vocabulary) property.vocabulary = vocabulary;
+  }
+
+  return {
+    uri: safeClassUri,
+    ...(info?.label ? { label: info.label } : {}),
+    ...(comment?.label ? { description: comment.label } : {}),
+    properties: list,
+  };
+}
+
+/**
+ * The class and, breadth-first up to `depth` levels, the classes its object properties point to.
+ * Referenced classes without properties are left out: their values stay URIs.
+ */
+async function schemaClasses(safeClassUri: string, depth: number, maxEnumValues: number, languages: string[]): Promise<SchemaClass[]> {
+  const root = await schemaClass(safeClassUri, maxEnumValues, languages);
+  const classes = new Map([[safeClassUri, root]]);
+  const visited = new Set([safeClassUri]);
+  let frontier = [root];
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const ranges = [...new Set(frontier.flatMap((cls) => cls.properties.filter((property) => !property.vocabulary).flatMap((property) => property.ranges)))]
+      .filter((range) => !isDatatypeRange(range) && !GENERIC_RANGES.has(range) && !visited.has(range))
+      .slice(0, Math.max(0, MAX_SCHEMA_CLASSES - classes.size));
+    for (const range of ranges) visited.add(range);
+    const loaded = await Promise.all(ranges.map((range) => schemaClass(range, maxEnumValues, languages)));
+    frontier = loaded.filter((cls) => cls.properties.length > 0);
+    for (const cls of frontier) classes.set(cls.uri, cls);
+  }
+  return [...classes.values()];
+}
+
+/** Most classes in a model generated by generate_code_model */
+const MAX_MODEL_CLASSES = 300;
+
+/** Classes of an ontology: owl:Class URIs starting with the ontology URI (as in explore_ontology) */
+async function ontologyClasses(safeOntologyUri: string): Promise<string[]> {
+  const result = await executeSparql(`
+    SELECT DISTINCT ?class
+    WHERE {
+      ?class a owl:Class .
+      FILTER(ISIRI(?class) && STRSTARTS(STR(?class), "${safeOntologyUri}"))
+    }
+    ORDER BY ?class
+    LIMIT ${MAX_MODEL_CLASSES + 1}
+  `);
+  return (result.results?.bindings ?? []).map((binding) => binding.class?.value).filter((uri): uri is string => uri !== undefined);
+}
+
+/**
+ * Classes of a code model with the properties each one declares (rdfs:domain or OWL restrictions)
+ * and their direct superclasses; with includeSuperclasses, every named ancestor is added
+ */
+async function modelClasses(classes: string[], includeSuperclasses: boolean, languages: string[]): Promise<ModelClass[]> {
+  const edges = await superClassEdges(classes);
+  const all = includeSuperclasses ? [...new Set([...classes, ...edges.flat()])] : classes;
+  const inModel = new Set(all);
+  const [labels, comments, constraints] = await Promise.all([
+    nodeInfos(all, classDetails(languages), languages),
+    nodeInfos(all, commentDetails(languages), languages),
+    ontologyConstraints(all),
+  ]);
+
+  const propertyUris = [...new Set(constraints.flatMap((cls) => cls.properties.map((property) => property.property)))];
+  const [propertyLabels, propertyComments] = await Promise.all([
+    nodeInfos(propertyUris, classDetails(languages), languages),
+    nodeInfos(propertyUris, commentDetails(languages), languages),
+  ]);
+  const textOf = (infos: NodeInfo[], uri: string) => infos.find((info) => info.uri === uri)?.label;
+
+  return all.map((uri): ModelClass => {
+    const label = textOf(labels, uri);
+    const description = textOf(comments, uri);
+    const own = constraints.find((cls) => cls.classUri === uri)?.properties ?? [];
+    return {
+      uri,
+      ...(label ? { label } : {}),
+      ...(description ? { description } : {}),
+      parents: edges.filter(([child, parent]) => child === uri && inModel.has(parent)).map(([, parent]) => parent),
+      properties: own.map((constraint): SchemaProperty => {
+        const propertyLabel = textOf(propertyLabels, constraint.property);
+        const propertyDescription = textOf(propertyComments, constraint.property);
+        return {
+          uri: constraint.property,
+          kind: constraint.kind ?? "unknown",
+          ranges: constraint.ranges,
+          ...(constraint.minCount !== undefined ? { minCount: constraint.minCount } : {}),
+          ...(constraint.maxCount !== undefined ? { maxCount: constraint.maxCount } : {}),
+          ...(propertyLabel ? { label: propertyLabel } : {}),
+          ...(propertyDescription ? { description: propertyDescription } : {}),
+        };
+      }),
+    };
+  });
+}
+
+// =============================================================================
+// RECORD MAPPING
+// =============================================================================
+
+/** Most records converted in one map_records_to_rdf call */
+const MAX_MAPPED_RECORDS = 1000;
+
+/** Lowest name similarity for an automatic field-to-property match */
+const AUTO_MAPPING_THRESHOLD = 0.7;
+
+/** Rejected values listed in full in the result (the count is always given) */
+const MAX_REPORTED_REJECTIONS = 100;
+
+/** Predicates whose values identify a resource when resolving coded values */
+const RESOLUTION_PREDICATES = "rdfs:label|skos:prefLabel|skos:altLabel|skos:notation|dct:identifier|dct:title|l0:name|l0:identifier";
+
+/** A property as a mapping target */
+interface MappableProperty {
+  uri: string;
+  kind: "datatype" | "object" | "unknown";
+  ranges: string[];
+  /** rdfs:label in Italian, English or without language */
+  labels: string[];
+}
+
+/** Lowercase text without the accents of Italian vowels, as in unaccentedExpression */
+function unaccentedKey(text: string): string {
+  return text.trim().toLowerCase()
+    .replace(/[àáâ]/g, "a").replace(/[èéê]/g, "e").replace(/[ìíî]/g, "i").replace(/[òóô]/g, "o").replace(/[ùúû]/g, "u");
+}
+
+/** SPARQL expression lowercasing a variable and removing the accents of Italian vowels */
+function unaccentedExpression(variable: string): string {
+  let expression = `LCASE(STR(?${variable}))`;
+  for (const [accented, plain] of [["[àáâ]", "a"], ["[èéê]", "e"], ["[ìíî]", "i"], ["[òóô]", "o"], ["[ùúû]", "u"]]) {
+    expression = `REPLACE(${expression}, "${accented}", "${plain}")`;
+  }
+  return expression;
+}
+
+/** OWL kind, ranges and labels of some properties */
+async function mappableProperties(uris: string[]): Promise<Map<string, MappableProperty>> {
+  const results = await Promise.all(inChunks(uris, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT DISTINCT ?property ?type ?range ?label
+    WHERE {
+      ${valuesClause("property", chunk)}
+      OPTIONAL { ?property a ?type . FILTER(?type IN (owl:ObjectProperty, owl:DatatypeProperty)) }
+      OPTIONAL { ?property rdfs:range ?range . FILTER(ISIRI(?range)) }
+      OPTIONAL { ?property rdfs:label ?label . ${languageFilter("label", ["it", "en"])} }
+    }
+  `)));
+  const properties = new Map<string, MappableProperty>(uris.map((uri) => [uri, { uri, kind: "unknown", ranges: [], labels: [] }]));
+  for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+    const property = binding.property ? properties.get(binding.property.value) : undefined;
+    if (property) addPropertyBinding(property, binding);
+  }
+  return properties;
+}
+
+/** Merge a ?type ?range ?label row into a property */
+function addPropertyBinding(property: MappableProperty, binding: SparqlBinding): void {
+  if (binding.type) property.kind = binding.type.value.endsWith("ObjectProperty") ? "object" : "datatype";
+  if (binding.range && !property.ranges.includes(binding.range.value)) property.ranges.push(binding.range.value);
+  if (binding.label && !property.labels.includes(binding.label.value)) property.labels.push(binding.label.value);
+}
+
+/** How values of a property become RDF terms: resources for object properties and class ranges, else literals */
+function valueTarget(property: MappableProperty | undefined): ValueTarget {
+  if (!property) return { kind: "literal" };
+  const classRanges = property.ranges.filter((range) => !isDatatypeRange(range));
+  if (property.kind === "object" || (property.ranges.length > 0 && classRanges.length === property.ranges.length)) return { kind: "resource" };
+  const datatypes = property.ranges.filter((range) => range.startsWith("http://www.w3.org/2001/XMLSchema#") && !range.endsWith("#string"));
+  return datatypes.length === 1 && datatypes[0] ? { kind: "literal", datatype: datatypes[0] } : { kind: "literal" };
+}
+
+/** The single specific class range of a property, used to type nodes and resolve values */
+function classRange(property: MappableProperty | undefined): string | undefined {
+  const ranges = (property?.ranges ?? []).filter((range) => !isDatatypeRange(range) && !GENERIC_RANGES.has(range));
+  return ranges.length === 1 ? ranges[0] : undefined;
+}
+
+/**
+ * Resolve coded values to resource URIs within a scope ("scheme" concepts or "class" instances)
+ * by label, notation or identifier, ignoring case and accents: key → matching URIs
+ */
+async function resolveCodedValues(scope: { scheme: string } | { class: string }, values: string[]): Promise<Map<string, string[]>> {
+  const keys = [...new Set(values.map(unaccentedKey))];
+  const pattern = "scheme" in scope
+    ? `?node skos:inScheme <${sanitizeSparqlUri(scope.scheme)}> .`
+    : `?node a <${sanitizeSparqlUri(scope.class)}> .`;
+  const results = await Promise.all(inChunks(keys, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT DISTINCT ?node ?key
+    WHERE {
+      VALUES ?key { ${chunk.map((key) => `"${sanitizeSparqlString(key)}"`).join(" ")} }
+      ${pattern}
+      ?node ${RESOLUTION_PREDICATES} ?text .
+      FILTER(${unaccentedExpression("text")} = ?key)
+    }
+  `)));
+  const matches = new Map<string, string[]>();
+  for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+    if (!binding.node || !binding.key) continue;
+    const uris = matches.get(binding.key.value) ?? [];
+    if (!uris.includes(binding.node.value)) uris.push(binding.node.value);
+    matches.set(binding.key.value, uris);
+  }
+  return matches;
+}
+
+// =============================================================================
+// COLUMN MAPPING SUGGESTIONS
+// =============================================================================
+
+/** Most rows read from a distribution to profile its columns */
+const MAX_PROFILED_ROWS = 10_000;
+
+/** Longest inline CSV accepted */
+const MAX_INLINE_TABLE = 1_000_000;
+
+/** Distinct values per column matched against vocabularies and class instances */
+const MAX_SAMPLED_VALUES = 50;
+
+/** Lowest name similarity for a property to be proposed without other evidence */
+const MIN_NAME_SIMILARITY = 0.4;
+
+/** Lowest share of the sampled values found in a ConceptScheme for it to be proposed */
+const MIN_SCHEME_SHARE = 0.3;
+
+/** Properties read from the catalog for matching (owl:ObjectProperty and owl:DatatypeProperty) */
+const MAX_CATALOG_PROPERTIES = 20_000;
+
+/** Municipalities, identified by their ISTAT code in skos:notation */
+const CITY_CLASS = "https://w3id.org/italia/onto/CLV/City";
+
+/** Provinces, identified by their ISTAT code in skos:notation */
+const PROVINCE_CLASS = "https://w3id.org/italia/onto/CLV/Province";
+
+/** Class whose instances a code kind identifies */
+const CODE_CLASSES: Partial<Record<CodeKind, string>> = {
+  istatMunicipality: CITY_CLASS,
+  belfiore: CITY_CLASS,
+  istatProvince: PROVINCE_CLASS,
+  provinceSigla: PROVINCE_CLASS,
+  istatRegion: "https://w3id.org/italia/onto/CLV/Region",
+};
+
+/** XSD datatypes (local names) fully compatible with each inferred datatype */
+const COMPATIBLE_DATATYPES: Record<InferredDatatype, string[]> = {
+  boolean: ["boolean"],
+  integer: ["integer", "int", "long", "short", "byte", "nonNegativeInteger", "positiveInteger", "unsignedInt", "unsignedLong", "decimal", "double", "float"],
+  decimal: ["decimal", "double", "float"],
+  date: ["date"],
+  dateTime: ["dateTime", "dateTimeStamp"],
+  gYear: ["gYear", "integer", "int"],
+  anyURI: ["anyURI"],
+  string: ["string", "normalizedString", "token"],
+};
+
+/** How many sampled codes of a column identify instances of the class of their code kind */
+interface CodeVerification {
+  kind: CodeKind;
+  class: string;
+  matched: number;
+  sampled: number;
+}
+
+/** A property proposed for a column */
+interface PropertyCandidate {
+  property: string;
+  label?: string;
+  score: number;
+  evidence: string[];
+}
+
+/** A ConceptScheme whose concepts match values of a column */
+interface SchemeCandidate {
+  scheme: string;
+  label?: string;
+  confidence: number;
+  evidence: string[];
+}
+
+/** The properties declared in the catalog, with kind, ranges and labels */
+async function catalogProperties(): Promise<MappableProperty[]> {
+  const result = await executeSparql(`
+    SELECT ?property ?type ?range ?label
+    WHERE {
+      VALUES ?type { owl:ObjectProperty owl:DatatypeProperty }
+      ?property a ?type .
+      FILTER(ISIRI(?property))
+      OPTIONAL { ?property rdfs:range ?range . FILTER(ISIRI(?range)) }
+      OPTIONAL { ?property rdfs:label ?label . ${languageFilter("label", ["it", "en"])} }
+    }
+    LIMIT ${MAX_CATALOG_PROPERTIES}
+  `);
+  const properties = new Map<string, MappableProperty>();
+  for (const binding of result.results?.bindings ?? []) {
+    if (!binding.property) continue;
+    const uri = binding.property.value;
+    const property = properties.get(uri) ?? { uri, kind: "unknown", ranges: [], labels: [] };
+    addPropertyBinding(property, binding);
+    properties.set(uri, property);
+  }
+  return [...properties.values()];
+}
+
+/** Distinct values of a column to match against the catalog, most frequent first */
+function sampledValues(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values.map((item) => item.trim()).filter((item) => !isEmptyValue(item))) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]).slice(0, MAX_SAMPLED_VALUES).map(([value]) => value);
+}
+
+/** Check the values of a column with a code kind against the instances of the class it identifies */
+async function verifyCodes(profile: ColumnProfile, sample: string[]): Promise<CodeVerification | undefined> {
+  const detection = profile.codes.find((code) => CODE_CLASSES[code.kind]);
+  const cls = detection ? CODE_CLASSES[detection.kind] : undefined;
+  if (!detection || !cls || sample.length === 0) return undefined;
+  // Integer columns keep no leading zeros: look the codes up padded to their width
+  const digits = ISTAT_CODE_DIGITS[detection.kind];
+  const codes = digits ? sample.map((value) => padIstatCode(value.trim(), digits)) : sample;
+  const matches = await resolveCodedValues({ class: cls }, codes);
+  return { kind: detection.kind, class: cls, matched: codes.filter((code) => matches.has(unaccentedKey(code))).length, sampled: sample.length };
+}
+
+/** How well the values of a column fit the kind and ranges of a property, from 0 to 1, with the reason */
+function datatypeFit(profile: ColumnProfile, property: MappableProperty, codeClass: string | undefined): [number, string] {
+  const xsd = "http://www.w3.org/2001/XMLSchema#";
+  const isReference = property.kind === "object" || (property.ranges.length > 0 && property.ranges.every((range) => !isDatatypeRange(range)));
+  if (isReference) {
+    if (profile.datatype === "anyURI") return [1, "values are IRIs of an object property"];
+    if (codeClass) return [0.8, "coded values can be resolved to resources"];
+    const categorical = profile.distinct <= Math.max(20, (profile.values * (1 - profile.nullRatio)) / 2);
+    if (profile.datatype === "string" && categorical) return [0.7, `${profile.distinct} distinct values can be resolved to resources`];
+    return [0.2, `${profile.datatype} values for an object property`];
+  }
+
+  const datatypes = property.ranges.filter((range) => range.startsWith(xsd)).map((range) => range.slice(xsd.length));
+  if (datatypes.length === 0) return [0.5, "no datatype declared"];
+  const compatible = COMPATIBLE_DATATYPES[profile.datatype];
+  const match = datatypes.find((datatype) => compatible.includes(datatype));
+  if (match) return [1, `${profile.datatype} values fit xsd:${match}`];
+  if (datatypes.some((datatype) => COMPATIBLE_DATATYPES.string.includes(datatype))) return [0.5, `${profile.datatype} values stored as xsd:string`];
+  return [0, `${profile.datatype} values do not fit xsd:${datatypes.join(", xsd:")}`];
+}
+
+/**
+ * Rank catalog properties for a column: 0.5 name similarity (with the local name and labels),
+ * 0.2 fit of the values with the property kind and datatype, 0.3 a range matching the class
+ * identified by coded values (full when the sampled codes are found among its instances).
+ * Columns without such codes are scored on name and fit alone, in the same 5:2 proportion.
+ */
+function rankProperties(
+  profile: ColumnProfile,
+  properties: MappableProperty[],
+  verification: CodeVerification | undefined,
+  limit: number
+): PropertyCandidate[] {
+  const detection = profile.codes.find((code) => CODE_CLASSES[code.kind]);
+  const codeClass = detection ? CODE_CLASSES[detection.kind] : undefined;
+  const candidates: PropertyCandidate[] = [];
+  for (const property of properties) {
+    let name = { score: 0, text: "" };
+    for (const text of [localName(property.uri), ...property.labels]) {
+      const score = nameSimilarity(profile.name, text);
+      if (score > name.score) name = { score, text };
+    }
+    const rangeMatch = codeClass !== undefined && property.ranges.includes(codeClass);
+    if (name.score < MIN_NAME_SIMILARITY && !rangeMatch) continue;
+
+    const [fit, fitReason] = datatypeFit(profile, property, rangeMatch ? codeClass : undefined);
+    const verified = verification !== undefined && verification.matched / verification.sampled >= 0.8;
+    const range = rangeMatch ? (verified ? 1 : 0.5) : 0;
+    const evidence = [
+      ...(name.score > 0 ? [`name "${profile.name}" ~ "${name.text}" (${name.score.toFixed(2)})`] : []),
+      fitReason,
+      ...(rangeMatch && detection && codeClass ? [`values look like ${CODE_DESCRIPTIONS[detection.kind]} and the range is ${compactForOutput(codeClass)}`] : []),
+      ...(rangeMatch && verification ? [`${verification.matched}/${verification.sampled} sampled values identify ${compactForOutput(verification.class)} instances`] : []),
+    ];
+    candidates.push({
+      property: compactForOutput(property.uri),
+      ...(property.labels[0] ? { label: property.labels[0] } : {}),
+      score: Math.round((codeClass ? 0.5 * name.score + 0.2 * fit + 0.3 * range : (0.5 * name.score + 0.2 * fit) / 0.7) * 100) / 100,
+      evidence,
+    });
+  }
+  return candidates.sort((a, b) => b.score - a.score || a.property.localeCompare(b.property)).slice(0, limit);
+}
+
+/**
+ * Concepts whose label, altLabel or notation equals one of the values (ignoring case and accents),
+ * grouped by ConceptScheme: scheme → matched values. Uses the search index when available.
+ */
+async function schemesMatchingValues(values: string[]): Promise<Map<string, Set<string>>> {
+  const conceptsByKey = new Map<string, string[]>();
+  const index = getSearchIndex();
+  let bindings: SparqlBinding[];
+  if (index) {
+    for (const value of values) {
+      const hits = index.search(value, { types: ["concept"], match: "exact", limit: 200 }).hits;
+      if (hits.length > 0) conceptsByKey.set(value, hits.map((hit) => hit.uri));
+    }
+    const concepts = [...new Set([...conceptsByKey.values()].flat())];
+    const results = await Promise.all(inChunks(concepts, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+      SELECT ?concept ?scheme
+      WHERE {
+        ${valuesClause("concept", chunk)}
+        ?concept skos:inScheme ?scheme .
+      }
+    `)));
+    const schemesByConcept = new Map<string, string[]>();
+    for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+      if (binding.concept && binding.scheme) {
+        schemesByConcept.set(binding.concept.value, [...(schemesByConcept.get(binding.concept.value) ?? []), binding.scheme.value]);
+      }
+    }
+    bindings = [...conceptsByKey].flatMap(([key, concepts]) => concepts.flatMap((concept) =>
+      (schemesByConcept.get(concept) ?? []).map((scheme) => ({ key: { type: "literal", value: key }, scheme: { type: "uri", value: scheme } }))
+    ));
+  } else {
+    const keys = new Map(values.map((value) => [unaccentedKey(value), value]));
+    const results = await Promise.all(inChunks([...keys.keys()], HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+      SELECT DISTINCT ?scheme ?key
+      WHERE {
+        VALUES ?key { ${chunk.map((key) => `"${sanitizeSparqlString(key)}"`).join(" ")} }
+        ?concept skos:inScheme ?scheme ;
+          skos:prefLabel|skos:altLabel|skos:notation ?text .
+        FILTER(${unaccentedExpression("text")} = ?key)
+      }
+    `)));
+    bindings = results.flatMap((result) => result.results?.bindings ?? []).map((binding) => ({
+      ...binding,
+      ...(binding.key ? { key: { type: "literal", value: keys.get(binding.key.value) ?? binding.key.value } } : {}),
+    }));
+  }
+
+  const schemes = new Map<string, Set<string>>();
+  for (const binding of bindings) {
+    if (!binding.scheme || !binding.key) continue;
+    const matched = schemes.get(binding.scheme.value) ?? new Set<string>();
+    matched.add(binding.key.value);
+    schemes.set(binding.scheme.value, matched);
+  }
+  return schemes;
+}
+
+/** Rank the ConceptSchemes matching the sampled values of a column by the share of values found */
+async function rankSchemes(sample: string[], limit: number, languages: string[]): Promise<SchemeCandidate[]> {
+  if (sample.length === 0) return [];
+  const matches = [...await schemesMatchingValues(sample)]
+    .map(([scheme, matched]) => ({ scheme, matched: [...matched], confidence: Math.round((matched.size / sample.length) * 100) / 100 }))
+    .filter((match) => match.confidence >= MIN_SCHEME_SHARE)
+    .sort((a, b) => b.confidence - a.confidence || a.scheme.localeCompare(b.scheme))
+    .slice(0, limit);
+  const infos = await nodeInfos(
+    matches.map((match) => match.scheme),
+    `OPTIONAL { ?node rdfs:label|skos:prefLabel|dct:title ?label . ${languageFilter("label", languages)} }`,
+    languages
+  );
+  return matches.map((match, i) => ({
+    scheme: compactForOutput(match.scheme),
+    ...(infos[i]?.label ? { label: infos[i].label } : {}),
+    confidence: match.confidence,
+    evidence: [
+      `${match.matched.length}/${sample.length} sampled values are labels or notations of its concepts`,
+      `e.g. ${match.matched.slice(0, 3).map((value) => `"${value}"`).join(", ")}`,
+    ],
+  }));
+}
+
+/** A distribution given by URL or as inline CSV, read as a table with its dialect */
+async function readTableInput(
+  url: string | undefined,
+  csv: string | undefined,
+  options: { maxRows: number; format?: DistributionFormat | undefined; delimiter?: string | undefined; header?: boolean | undefined }
+): Promise<{ table: Table; dialect: Partial<DistributionDialect> }> {
+  if (url !== undefined) {
+    return readDistribution(url, { maxBytes: DISTRIBUTION_MAX_BYTES, timeoutMs: DISTRIBUTION_TIMEOUT_MS, ...options });
+  }
+  const { dialect, ...table } = parseCsvTable(csv ?? "", { delimiter: options.delimiter, header: options.header, maxRows: options.maxRows });
+  return { table, dialect: { format: "csv", ...dialect } };
+}
+
+// =============================================================================
+// DISTRIBUTION PROFILING
+// =============================================================================
+
+/** Most frequent values listed per column by profile_distribution */
+const DEFAULT_TOP_VALUES = 5;
+
+/** Invalid or obsolete codes listed per column (the counts are always given) */
+const MAX_REPORTED_CODE_ISSUES = 100;
+
+/** Reference data a coded column is checked against */
+type CodeScope = { kind: "municipality" | "province" } | { kind: "scheme"; scheme: string };
+
+/** Class and code width of the ISTAT code scopes */
+const ISTAT_SCOPES = {
+  municipality: { class: CITY_CLASS, digits: 6 },
+  province: { class: PROVINCE_CLASS, digits: 3 },
+};
+
+/** Key a value is looked up by: ISTAT codes zero-padded to their width, other values without case and accents */
+function codeKey(scope: CodeScope, value: string): string {
+  return scope.kind === "scheme" ? unaccentedKey(value) : padIstatCode(value.trim(), ISTAT_SCOPES[scope.kind].digits);
+}
+
+/** A code found in the reference data: obsolete when every match has ended or is deprecated */
+interface CodeLookup {
+  uris: string[];
+  obsolete: boolean;
+}
+
+/**
+ * A coded value that is not valid, with its data row (1 = first row after the header).
+ * "needsPadding": an ISTAT code that matches only once its leading zeros are restored (`code`).
+ */
+interface CodeIssue {
+  row: number;
+  value: string;
+  problem: "invalid" | "obsolete" | "needsPadding";
+  code?: string;
+}
+
+/**
+ * Look up coded values, by the keys codeKey gives: ISTAT codes among the skos:notation of
+ * clv:City or clv:Province, or notations and labels of the concepts of a scheme.
+ * A code is obsolete when each of its matches has an end date in the past or owl:deprecated true.
+ */
+async function lookupCodes(scope: CodeScope, values: string[]): Promise<Map<string, CodeLookup>> {
+  const keys = [...new Set(values.map((value) => codeKey(scope, value)))];
+  const pattern = scope.kind === "scheme"
+    ? `?node skos:inScheme <${sanitizeSparqlUri(scope.scheme)}> ; skos:notation|skos:prefLabel|skos:altLabel ?text .
+       FILTER(${unaccentedExpression("text")} = ?key)`
+    : `?node a <${ISTAT_SCOPES[scope.kind].class}> ; skos:notation ?text . FILTER(STR(?text) = ?key)`;
+  const ends = CONCEPT_PREDICATES.validTo.map((predicate) => `<${predicate}>`).join("|");
+  const today = new Date().toISOString().slice(0, 10);
+  const results = await Promise.all(inChunks(keys, HIERARCHY_BATCH_SIZE).map((chunk) => executeSparql(`
+    SELECT ?node ?key (MAX(?ended) AS ?obsolete)
+    WHERE {
+      VALUES ?key { ${chunk.map((key) => `"${sanitizeSparqlString(key)}"`).join(" ")} }
+      ${pattern}
+      OPTIONAL { ?node ${ends} ?end }
+      OPTIONAL { ?node owl:deprecated ?deprecated }
+      BIND(IF(COALESCE(SUBSTR(STR(?end), 1, 10) <= "${today}", false) || COALESCE(STR(?deprecated) = "true", false), 1, 0) AS ?ended)
+    }
+    GROUP BY ?node ?key
+  `)));
+
+  const lookups = new Map<string, CodeLookup>();
+  for (const binding of results.flatMap((result) => result.results?.bindings ?? [])) {
+    if (!binding.node || !binding.key) continue;
+    const lookup = lookups.get(binding.key.value) ?? { uris: [], obsolete: true };
+    if (!lookup.uris.includes(binding.node.value)) lookup.uris.push(binding.node.value);
+    // A node is ended when any of its end dates is past, whichever row the end date came from
+    lookup.obsolete &&= binding.obsolete?.value === "1";
+    lookups.set(binding.key.value, lookup);
+  }
+  return lookups;
+}
+
+/**
+ * Check the values of a column against reference data, listing invalid, obsolete and unpadded codes with their rows.
+ * Unpadded codes match a current resource once padded: they count as valid and are also counted in needsPadding.
+ */
+async function validateColumn(values: string[], scope: CodeScope, maxIssues: number): Promise<Record<string, unknown>> {
+  const filled = values
+    .map((value, index) => ({ value: value.trim(), row: index + 1 }))
+    .filter((item) => !isEmptyValue(item.value));
+  const lookups = await lookupCodes(scope, [...new Set(filled.map((item) => item.value))]);
+
+  const issues: CodeIssue[] = [];
+  for (const item of filled) {
+    const key = codeKey(scope, item.value);
+    const lookup = lookups.get(key);
+    if (!lookup) issues.push({ row: item.row, value: item.value, problem: "invalid" });
+    else if (lookup.obsolete) issues.push({ row: item.row, value: item.value, problem: "obsolete" });
+    else if (scope.kind !== "scheme" && key !== item.value) issues.push({ row: item.row, value: item.value, problem: "needsPadding", code: key });
+  }
+  const count = (problem: CodeIssue["problem"]) => issues.filter((issue) => issue.problem === problem).length;
+
+  return {
+    against: scope.kind === "scheme"
+      ? compactForOutput(scope.scheme)
+      : `skos:notation of ${compactForOutput(ISTAT_SCOPES[scope.kind].class)}`,
+    checked: filled.length,
+    valid: filled.length - count("invalid") - count("obsolete"),
+    invalid: count("invalid"),
+    obsolete: count("obsolete"),
+    needsPadding: count("needsPadding"),
+    issues: issues.slice(0, maxIssues),
+  };
+}
+
+// =============================================================================
+// CATALOG MONITOR
+// =============================================================================
+
+/** Resource listing the latest catalog changes; subscribers are notified of every change */
+const CATALOG_CHANGES_RESOURCE = "schemagovit://catalog/changes";
+
+/** Resource URI with its artifact part decoded, so subscriptions match however the client encoded it */
+function normalizeResourceUri(uri: string): string {
+  const match = /^(schemagovit:\/\/[^/]+\/)(.*)$/.exec(uri);
+  if (!match?.[1] || match[2] === undefined || /^https?:\/\//.test(match[2])) return uri;
+  try {
+    return match[1] + decodeURIComponent(match[2]);
+  } catch {
+    return uri;
+  }
+}
+
+/** Details of one artifact row: non-empty values of the given variables */
+function artifactState(row: SparqlBinding, variables: string[]): ArtifactState {
+  const details: Record<string, string | number> = {};
+  for (const variable of variables) {
+    const binding = row[variable];
+    if (binding === undefined || binding.value === "") continue;
+    details[variable] = /integer$/.test(binding.datatype ?? "") ? parseInt(binding.value, 10) : binding.value;
+  }
+  return { fingerprint: fingerprint(details), details };
+}
+
+/** Take the catalog statistics and the fingerprints of ontologies, vocabularies and datasets */
+async function observeCatalog(): Promise<CatalogObservation> {
+  const label = (variable: string, predicates: string) =>
+    `OPTIONAL { ?uri ${predicates} ?${variable}Any . FILTER(LANG(?${variable}Any) IN ("it", "")) }`;
+  const statisticsQuery = `
+    SELECT ?name (COUNT(DISTINCT ?s) AS ?count)
+    WHERE {
+      VALUES (?type ?name) {
+        (owl:Ontology "ontologies") (owl:Class "classes")
+        (owl:ObjectProperty "objectProperties") (owl:DatatypeProperty "datatypeProperties")
+        (skos:ConceptScheme "vocabularies") (skos:Concept "concepts")
+        (<http://dati.gov.it/onto/dcatapit#Dataset> "datasets") (dcat:Distribution "distributions")
+      }
+      ?s a ?type .
+    }
+    GROUP BY ?name
+  `;
+  const graphsQuery = `
+    SELECT (COUNT(DISTINCT ?g) AS ?count)
+    WHERE { GRAPH ?g { ?s ?p ?o } }
+  `;
+  const queries: Record<ArtifactKind, { query: string; variables: string[] }> = {
+    ontology: {
+      query: `
+        SELECT ?uri (SAMPLE(?labelAny) AS ?label) (SAMPLE(?versionAny) AS ?version) (SAMPLE(?modifiedAny) AS ?modified)
+        WHERE {
+          ?uri a owl:Ontology .
+          ${label("label", "rdfs:label|dct:title")}
+          OPTIONAL { ?uri owl:versionInfo ?versionAny }
+          OPTIONAL { ?uri dct:modified ?modifiedAny }
+        }
+        GROUP BY ?uri
+        ORDER BY ?uri
+      `,
+      variables: ["label", "version", "modified"],
+    },
+    vocabulary: {
+      query: `
+        SELECT ?uri (SAMPLE(?labelAny) AS ?label) (COUNT(DISTINCT ?concept) AS ?concepts)
+        WHERE {
+          ?uri a skos:ConceptScheme .
+          ${label("label", "rdfs:label|dct:title|skos:prefLabel")}
+          OPTIONAL { ?concept skos:inScheme ?uri }
+        }
+        GROUP BY ?uri
+        ORDER BY ?uri
+      `,
+      variables: ["label", "concepts"],
+    },
+    dataset: {
+      query: `
+        SELECT ?uri (SAMPLE(?labelAny) AS ?label) (SAMPLE(?modifiedAny) AS ?modified) (COUNT(DISTINCT ?distribution) AS ?distributions)
+        WHERE {
+          ?uri a <http://dati.gov.it/onto/dcatapit#Dataset> .
+          ${label("label", "dct:title")}
+          OPTIONAL { ?uri dct:modified ?modifiedAny }
+          OPTIONAL { ?uri dcat:distribution ?distribution }
+        }
+        GROUP BY ?uri
+        ORDER BY ?uri
+      `,
+      variables: ["label", "modified", "distributions"],
+    },
+  };
+
+  const kinds = Object.keys(queries) as ArtifactKind[];
+  const [statisticRows, graphRows, ...artifactRows] = await Promise.all([
+    loadIndexRows(statisticsQuery),
+    loadIndexRows(graphsQuery),
+    ...kinds.map((kind) => loadIndexRows(queries[kind].query)),
+  ]);
+
+  const statistics: Record<string, number> = {};
+  for (const row of statisticRows) {
+    if (row.name && row.count) statistics[row.name.value] = parseInt(row.count.value, 10);
+  }
+  statistics.graphs = parseInt(graphRows[0]?.count?.value ?? "0", 10);
+
+  const artifacts = { ontology: {}, vocabulary: {}, dataset: {} } as CatalogObservation["artifacts"];
+  kinds.forEach((kind, i) => {
+    for (const row of artifactRows[i] ?? []) {
+      if (row.uri) artifacts[kind][row.uri.value] = artifactState(row, queries[kind].variables);
+    }
+  });
+
+  return { takenAt: new Date().toISOString(), statistics, artifacts };
+}
+
+/** Tell subscribed sessions which resources changed, and that the artifact lists changed */
+async function notifyCatalogChanges(changes: CatalogChange[]): Promise<void> {
+  const updated = new Set([
+    CATALOG_CHANGES_RESOURCE,
+    ...changes.filter((change) => change.kind !== "statistic").map((change) => `schemagovit://${change.kind}/${change.id}`),
+  ]);
+  const listChanged = changes.some((change) => change.kind !== "statistic" && change.change !== "modified");
+
+  for (const subscriber of resourceSubscribers) {
+    try {
+      for (const uri of subscriber.uris) {
+        if (updated.has(uri)) await subscriber.server.server.sendResourceUpdated({ uri });
+      }
+      if (listChanged) subscriber.server.sendResourceListChanged();
+    } catch (err) {
+      console.error("[Monitor] Notification failed:", getErrorMessage(err));
+    }
+  }
+}
+
+/** Record an observation of the catalog; failures are logged and retried at the next run */
+function runCatalogMonitor(): Promise<CatalogChange[]> {
+  catalogObservation ??= (async () => {
+    try {
+      const changes = await catalogHistory.record(await observeCatalog());
+      console.error(`[Monitor] Catalog observed: ${changes.length} changes`);
+      if (changes.length > 0) await notifyCatalogChanges(changes);
+      return changes;
+    } catch (err) {
+      console.error("[Monitor] Catalog observation failed:", getErrorMessage(err));
+      return [];
+    } finally {
+      catalogObservation = undefined;
+    }
+  })();
+  return catalogObservation;
+}
+
+/**
+ * Observe the catalog now and every monitor.intervalMinutes. Started by the HTTP server only:
+ * the monitor needs a long-lived process. A snapshot never changes, so it is observed once.
+ */
+function startCatalogMonitor(config: ServerConfig): void {
+  if (!config.monitor.enabled || catalogMonitorStarted) return;
+  catalogMonitorStarted = true;
+  void runCatalogMonitor();
+  if (!snapshot) {
+    setInterval(() => void runCatalogMonitor(), config.monitor.intervalMinutes * 60 * 1000).unref();
+  }
+}
+
+// =============================================================================
+// TOOL DEFINITIONS
+// =============================================================================
+
+/**
+ * Create and configure a new MCP server instance with all tools registered.
+ * For SSE mode, call this for each new connection.
+ * For stdio mode, call this once at startup.
+ */
+function createAndConfigureServer(): McpServer {
+  const server = new McpServer({
+    name: "schema-gov-it",
+    version: "1.0.0",
+  });
 
-// =============================================================================
-// TOOL DEFINITIONS
-// =============================================================================
+  // Start early so CURIE arguments using ontology prefixes resolve on the first call
+  void discoverPrefixes();
+
+/** Shared input for tools returning RDF graphs */
+const graphFormatInput = z.enum(["turtle", "ntriples", "jsonld"]).optional().default("turtle")
+  .describe("Serialization of graph results: Turtle, N-Triples or compact JSON-LD");
+
+/** Shared input for tools returning labels or other language-tagged literals */
+const langInput = z.string().optional()
+  .describe('Preferred languages, best first, comma-separated (e.g. "it,en"). Other languages are dropped and the best label per resource is kept');
+
+/** Shared input choosing how literal values are rendered */
+const literalsInput = z.enum(["plain", "typed"]).optional().default("plain")
+  .describe('"plain" returns bare values; "typed" keeps language tags and datatypes, e.g. "Comune"@it or "2020-01-01"^^xsd:date');
+
+/** Shared input for tools whose URIs may be compacted into CURIEs */
+const curiesInput = z.boolean().optional().default(false)
+  .describe("Compact URIs into CURIEs (e.g. clv:City); the prefixes used are returned once in _prefixes");
+
+/** Shared input for tools filtering by keyword on the endpoint */
+const matchInput = z.enum(["exact", "prefix", "contains", "regex"]).optional().default("contains")
+  .describe("How the keyword is matched, ignoring case: exact, prefix, contains (literal, the default) or regex (opt-in)");
+
+/** Shared input for index-backed searches: omitted means ranked, typo-tolerant search */
+const searchMatchInput = z.enum(["exact", "prefix", "contains", "regex"]).optional()
+  .describe("Literal matching mode (exact, prefix, contains) or regex; omit for ranked, typo-tolerant search");
+
+/** Bytes read by preview_distribution (at most distributionMaxBytes) */
+const PREVIEW_MAX_BYTES = 1_000_000;
+
+/** Concepts fetched per page by export_vocabulary */
+const EXPORT_PAGE_SIZE = 500;
+
+/** Largest vocabulary export_vocabulary walks through */
+const EXPORT_MAX_CONCEPTS = 100_000;
+
+/** Resource types of the full-text search index */
+const searchTypeInput = z.enum(["class", "property", "concept", "vocabulary", "dataset"]);
+
+/** Shared input for tools whose SPARQL results go through the cache */
+const noCacheInput = z.boolean().optional().default(false).describe("Bypass the result cache and fetch fresh data from the endpoint");
 
 // -----------------------------------------------------------------------------
 // GROUP A: Foundation Tools
@@ -448,17 +2586,33 @@ server.registerTool(
 
 **Args:**
 - query: The SPARQL query to execute (prefixes are auto-injected)
+- format: (optional) Output of CONSTRUCT/DESCRIBE queries: "turtle", "ntriples" or "jsonld" (default: "turtle")
+- lang: (optional) Preferred languages, best first (e.g. "it,en"): rows differing only by a literal's language keep the best match
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
+- curies: (optional) Compact URIs into CURIEs, returning the prefix map once (default: false)
+- noCache: (optional) Bypass the result cache (default: false)
 
 **Returns:**
-- Compressed JSON result (tabular for >5 rows, object array otherwise)
+- SELECT: Compressed JSON result (tabular for >5 rows, object array otherwise)
+- ASK: A plain boolean
+- CONSTRUCT/DESCRIBE: { format, tripleCount, content } with the graph in the requested format
 
 **Examples:**
 - \`SELECT ?s ?p ?o WHERE { ?s ?p ?o } LIMIT 10\`
 - \`SELECT ?class (COUNT(?s) AS ?count) WHERE { ?s a ?class } GROUP BY ?class\`
+- \`ASK { clv:City a owl:Class }\`
+- \`CONSTRUCT WHERE { clv:City ?p ?o }\`
 
-**Note:** Use this for ad-hoc exploration. Prefer specialized tools for common operations.`,
+**Note:** Use this for ad-hoc exploration. Prefer specialized tools for common operations.
+**Validation:** The query is parsed locally first. Syntax errors (with line/column), undeclared prefixes and projected variables never bound in WHERE are reported without calling the endpoint.
+**Security:** Read-only. SPARQL Update (INSERT, DELETE, LOAD, CLEAR...) is rejected, and SERVICE is only allowed toward configured endpoints.`,
     inputSchema: {
       query: z.string().describe("The SPARQL query to execute"),
+      format: graphFormatInput,
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -467,7 +2621,14 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ query }) => executeSparqlTool("query_sparql", { query }, query)
+  async ({ query, format, lang, literals, curies, noCache }) => {
+    return executeTool("query_sparql", { query, format, lang, literals, curies, noCache }, async () => {
+      return runRawQuery(query, ENDPOINT, true, SPARQL_TIMEOUT_MS, format, {
+        languages: parseLanguagePreference(lang),
+        typedLiterals: literals === "typed",
+      });
+    });
+  }
 );
 
 server.registerTool(
@@ -478,7 +2639,8 @@ server.registerTool(
 
 **Args:**
 - limit: Maximum number of classes to return (default: 50)
-- filter: Optional regex filter for class URI (case-insensitive)
+- filter: Optional text filter for class URI (case-insensitive)
+- match: (optional) exact, prefix, contains (default) or regex
 
 **Returns:**
 - List of classes with instance counts, ordered by count descending
@@ -489,6 +2651,9 @@ server.registerTool(
     inputSchema: {
       limit: z.number().optional().default(50),
       filter: z.string().optional().describe("Optional text filter for class URI"),
+      match: matchInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -497,19 +2662,21 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit, filter }) => {
-    const safeFilter = filter ? sanitizeSparqlString(filter) : undefined;
+  async ({ limit, filter, match, curies, noCache }) => {
+    const invalidFilter = keywordError(filter, match);
+    if (invalidFilter) return executeTool("explore_classes", { limit, filter, match, curies, noCache }, async () => invalidFilter);
+
     const query = `
       SELECT DISTINCT ?class (COUNT(?s) AS ?count)
       WHERE {
         ?s a ?class .
-        ${safeFilter ? `FILTER(REGEX(STR(?class), "${safeFilter}", "i"))` : ""}
+        ${filter ? keywordFilter("class", filter, match) : ""}
       }
       GROUP BY ?class
       ORDER BY DESC(?count)
       LIMIT ${limit}
     `;
-    return executeSparqlTool("explore_classes", { limit, filter }, query);
+    return executeSparqlTool("explore_classes", { limit, filter, match, curies, noCache }, query);
   }
 );
 
@@ -527,7 +2694,10 @@ server.registerTool(
 - ontologies: List of owl:Ontology and skos:ConceptScheme resources
 
 **Note:** Both queries run in parallel for performance.`,
-    inputSchema: {},
+    inputSchema: {
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -535,7 +2705,7 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async () => {
+  async ({ curies, noCache }) => {
     const graphsQuery = `
       SELECT DISTINCT ?g ?type
       WHERE {
@@ -552,7 +2722,7 @@ server.registerTool(
       LIMIT 100
     `;
 
-    return executeTool("explore_catalog", {}, async () => {
+    return executeTool("explore_catalog", { curies, noCache }, async () => {
       // Execute both queries in parallel
       const [graphResult, ontResult] = await Promise.all([
         executeSparql(graphsQuery),
@@ -572,6 +2742,81 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  "catalog_changes",
+  {
+    title: "Catalog Changes",
+    description: `List the changes of the schema.gov.it catalog found by the background monitor.
+
+The monitor runs in HTTP mode: it periodically records catalog statistics (counts of ontologies,
+classes, vocabularies, concepts, datasets, graphs...) and fingerprints of every ontology
+(label, owl:versionInfo, dct:modified), vocabulary (label, concept count) and dataset
+(title, dct:modified, distribution count), and stores the differences on disk.
+
+**Args:**
+- since: (optional) ISO date or date-time; only changes detected after it (default: 7 days ago)
+- kinds: (optional) Filter by kind: "ontology", "vocabulary", "dataset", "statistic"
+- limit: Maximum changes returned, newest first (default: 200)
+
+**Returns:**
+- monitor: whether it runs here, interval, observations recorded and their time span
+- changes: detectedAt, kind, change (added/removed/modified for artifacts, changed for statistics),
+  id (artifact URI or statistic name), before/after (the details that differ)
+
+**Use for:** "What is new in schema.gov.it since last week?"`,
+    inputSchema: {
+      since: z.string().optional().describe("ISO date or date-time (e.g. 2026-01-31)"),
+      kinds: z.array(z.enum(["ontology", "vocabulary", "dataset", "statistic"])).optional()
+        .describe("Kinds of changes to include"),
+      limit: z.number().int().positive().max(5000).optional().default(200),
+      curies: curiesInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  async ({ since, kinds, limit, curies }) => {
+    return executeTool<unknown>("catalog_changes", { since, kinds, limit, curies }, async () => {
+      const from = since ? new Date(since) : new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      if (Number.isNaN(from.getTime())) {
+        return { success: false, error: `Invalid date: ${since}`, suggestion: "Use an ISO date such as 2026-01-31 or 2026-01-31T12:00:00Z" };
+      }
+
+      const info = await catalogHistory.info();
+      const monitor = {
+        running: catalogMonitorStarted,
+        ...(catalogMonitorStarted ? { intervalMinutes: CONFIG.monitor.intervalMinutes } : {}),
+        observations: info.observations,
+        ...(info.firstAt ? { firstObservation: info.firstAt } : {}),
+        ...(info.lastAt ? { lastObservation: info.lastAt } : {}),
+      };
+      if (info.observations === 0) {
+        return {
+          success: false,
+          error: "No catalog observations recorded yet",
+          suggestion: `The monitor runs in HTTP mode (MCP_TRANSPORT=http) with monitor.enabled; its history is kept in ${info.dir}`,
+        };
+      }
+
+      const changes = (await catalogHistory.changesSince(from))
+        .filter((change) => !kinds || kinds.includes(change.kind));
+      return {
+        success: true,
+        data: {
+          monitor,
+          since: from.toISOString(),
+          total: changes.length,
+          changes: changes.slice(0, limit).map((change) => change.kind === "statistic" ? change : { ...change, id: compactForOutput(change.id) }),
+        },
+        rowCount: Math.min(changes.length, limit),
+      };
+    });
+  }
+);
+
 // -----------------------------------------------------------------------------
 // GROUP B: Analytics Tools
 // -----------------------------------------------------------------------------
@@ -593,7 +2838,9 @@ server.registerTool(
 - No args: Global coverage statistics
 - targetUri="http://...#Person": Coverage for Person class`,
     inputSchema: {
-      targetUri: z.string().optional().describe("URI of class or property to check coverage for"),
+      targetUri: z.string().optional().describe("URI or CURIE (e.g. clv:City) of class or property to check coverage for"),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -602,10 +2849,10 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ targetUri }) => {
+  async ({ targetUri, curies, noCache }) => {
     let query: string;
     if (targetUri) {
-      const safeUri = sanitizeSparqlUri(targetUri);
+      const safeUri = resolveUri(targetUri);
       query = `
         SELECT (COUNT(DISTINCT ?s) AS ?instances) (COUNT(DISTINCT ?p) AS ?propertiesUsed)
         WHERE {
@@ -627,7 +2874,7 @@ server.registerTool(
         LIMIT 50
       `;
     }
-    return executeSparqlTool("check_coverage", { targetUri }, query);
+    return executeSparqlTool("check_coverage", { targetUri, curies, noCache }, query);
   }
 );
 
@@ -646,6 +2893,8 @@ server.registerTool(
 **Note:** Checks owl:Class, owl:ObjectProperty, owl:DatatypeProperty, and skos:Concept.`,
     inputSchema: {
       limit: z.number().optional().default(50),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -654,7 +2903,7 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit }) => {
+  async ({ limit, curies, noCache }) => {
     const query = `
       SELECT ?s ?type ?issue
       WHERE {
@@ -666,7 +2915,7 @@ server.registerTool(
       }
       LIMIT ${limit}
     `;
-    return executeSparqlTool("check_quality", { limit }, query);
+    return executeSparqlTool("check_quality", { limit, curies, noCache }, query);
   }
 );
 
@@ -686,6 +2935,8 @@ server.registerTool(
   - Same Label collisions`,
     inputSchema: {
       limit: z.number().optional().default(50),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -694,7 +2945,7 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit }) => {
+  async ({ limit, curies, noCache }) => {
     const query = `
       SELECT ?s1 ?s2 ?label ?relation
       WHERE {
@@ -717,7 +2968,7 @@ server.registerTool(
       }
       LIMIT ${limit}
     `;
-    return executeSparqlTool("check_overlaps", { limit }, query);
+    return executeSparqlTool("check_overlaps", { limit, curies, noCache }, query);
   }
 );
 
@@ -734,11 +2985,17 @@ server.registerTool(
 
 **Args:**
 - limit: Maximum number of ontologies to return (default: 50)
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - List of ontology URIs with labels/titles, ordered alphabetically`,
     inputSchema: {
       limit: z.number().optional().default(50),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -747,35 +3004,578 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit }) => {
-    const query = `
-      SELECT DISTINCT ?ont ?label
-      WHERE {
-        ?ont a owl:Ontology .
-        OPTIONAL { ?ont rdfs:label|dct:title ?label }
+  async ({ limit, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const query = listOntologiesQuery(limit, languages);
+    return executeSparqlTool("list_ontologies", { limit, lang, literals, curies, noCache }, query, {
+      languages,
+      typedLiterals: literals === "typed",
+    });
+  }
+);
+
+server.registerTool(
+  "explore_ontology",
+  {
+    title: "Explore Ontology",
+    description: `List Classes and Properties defined in a specific Ontology.
+
+**Args:**
+- ontologyUri: URI of the ontology (from list_ontologies)
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
+
+**Returns:**
+- List of classes and properties with labels, grouped by type
+
+**Note:** Uses URI prefix heuristic - items whose URI starts with the ontology URI.`,
+    inputSchema: {
+      ontologyUri: z.string().describe("The URI or CURIE of the Ontology (from list_ontologies)"),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ ontologyUri, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const safeUri = resolveUri(ontologyUri);
+    const query = exploreOntologyQuery(safeUri, languages);
+    return executeSparqlTool("explore_ontology", { ontologyUri, lang, literals, curies, noCache }, query, {
+      languages,
+      typedLiterals: literals === "typed",
+    });
+  }
+);
+
+
+server.registerTool(
+  "class_hierarchy",
+  {
+    title: "Class Hierarchy",
+    description: `Show the full rdfs:subClassOf hierarchy of an OWL class and the properties it inherits.
+
+Follows rdfs:subClassOf transitively across ontologies (e.g. CPV → l0), so the closure
+includes superclasses defined elsewhere. Properties are applicable when their rdfs:domain
+(or a class in an owl:unionOf domain) is the class or one of its ancestors.
+
+**Args:**
+- classUri: URI of the class (e.g. clv:City)
+- descendantDepth: Levels of subclasses to expand (default: 3, max: 10, 0 to skip)
+- includeProperties: (optional) List the applicable properties (default: true)
+- maxNodes: Maximum subclasses in the tree (default: 500, max: 5000)
+- lang: (optional) Preferred label languages, best first (default: "it,en")
+
+**Returns:**
+- class: URI and label
+- ancestors: every superclass with its distance, direct parents and namespace, nearest first
+- descendants: subclass tree (childCount on collapsed nodes), nodeCount, complete
+- properties: uri, label, type, range, declaredOn (nearest class with the domain), inherited, distance
+
+**Use for:** Deciding which OntoPiA class to reuse or extend, and what it brings along`,
+    inputSchema: {
+      classUri: z.string().describe("URI or CURIE of the class (e.g. cpv:Person)"),
+      descendantDepth: z.number().int().min(0).max(10).optional().default(3).describe("Levels of subclasses (0 to skip)"),
+      includeProperties: z.boolean().optional().default(true).describe("List properties applicable through domain inheritance"),
+      maxNodes: z.number().int().positive().max(5000).optional().default(500),
+      lang: langInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ classUri, descendantDepth, includeProperties, maxNodes, lang, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang) ?? ["it", "en"];
+    const safeUri = resolveUri(classUri);
+
+    return executeTool("class_hierarchy", { classUri, descendantDepth, includeProperties, maxNodes, lang, curies, noCache }, async () => {
+      const [[info], ancestors] = await Promise.all([
+        nodeInfos([safeUri], classDetails(languages), languages),
+        classAncestors(safeUri, languages),
+      ]);
+      const [descendants, properties] = await Promise.all([
+        expandTree([info ?? { uri: safeUri }], descendantDepth, subClassTreeSource(languages), maxNodes + 1),
+        includeProperties ? applicableProperties(safeUri, ancestors, languages) : Promise.resolve([]),
+      ]);
+      const subclasses = descendants.nodes[0]?.children ?? [];
+      const subclassCount = descendants.nodeCount - 1;
+
+      if (!info?.label && ancestors.length === 0 && subclassCount === 0 && properties.length === 0) {
+        return {
+          success: false,
+          error: `No class found at ${safeUri}`,
+          suggestion: "Check the URI with search_concepts (types: [\"class\"]) or explore_ontology",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          class: { uri: compactForOutput(safeUri), ...(info?.label ? { label: info.label } : {}) },
+          ancestors: ancestors.map((ancestor) => ({
+            ...ancestor,
+            uri: compactForOutput(ancestor.uri),
+            parents: ancestor.parents.map(compactForOutput),
+          })),
+          descendants: {
+            nodeCount: subclassCount,
+            complete: descendants.complete,
+            ...(descendants.nodes[0]?.childCount !== undefined ? { childCount: descendants.nodes[0].childCount } : {}),
+            tree: compactTree(subclasses),
+          },
+          ...(includeProperties
+            ? {
+                properties: properties.map((property) => ({
+                  ...property,
+                  uri: compactForOutput(property.uri),
+                  range: property.range.map(compactForOutput),
+                  declaredOn: compactForOutput(property.declaredOn),
+                })),
+              }
+            : {}),
+        },
+        rowCount: ancestors.length + subclassCount + properties.length,
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "diff_ontology",
+  {
+    title: "Diff Ontology",
+    description: `Compare two versions of an ontology and return a changelog grouped by severity.
+
+A source is one of:
+- "live": the configured endpoint
+- "profile:<name>": an endpoint profile from the configuration (e.g. a mirror or staging)
+- "file:<path>": a Turtle (.ttl) or N-Triples (.nt) file in the configured ontology file directory (path relative to it)
+- "snapshot:<name>": a snapshot stored earlier with saveSnapshot
+
+Terms are the classes and properties whose URI starts with the ontology URI.
+
+**Args:**
+- ontologyUri: URI of the ontology (from list_ontologies)
+- from: Source of the previous version
+- to: Source of the new version (default: "live")
+- saveSnapshot: (optional) Store the "to" version as snapshot:<name>, to diff against the next release
+- overwrite: (optional) Replace an existing snapshot with the saveSnapshot name (default: false, the call fails instead)
+
+**Returns:**
+- from / to: source, versionInfo, versionIri, modified, class and property counts
+- summary: number of changes per severity
+- changes.breaking: removed, renamed, kind/domain/range changes, removed superclasses
+- changes.additive: added terms, added superclasses, deprecations
+- changes.editorial: label, comment and version changes
+Each change has change, uri, kind and, where relevant, before/after.
+
+**Use for:** Release notes of a new OntoPiA version, checking a mirror against the live catalog`,
+    inputSchema: {
+      ontologyUri: z.string().describe("URI or CURIE of the ontology"),
+      from: z.string().describe('Previous version: "live", "profile:<name>", "file:<path>" or "snapshot:<name>"'),
+      to: z.string().optional().default("live").describe("New version, same forms as from"),
+      saveSnapshot: z.string().regex(SNAPSHOT_NAME_PATTERN).optional()
+        .describe("Store the 'to' version under this name (letters, digits, '.', '-', '_')"),
+      overwrite: z.boolean().optional().default(false)
+        .describe("Replace an existing snapshot with the saveSnapshot name"),
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ ontologyUri, from, to, saveSnapshot, overwrite, curies, noCache }) => {
+    const safeUri = resolveUri(ontologyUri);
+
+    return executeTool("diff_ontology", { ontologyUri, from, to, saveSnapshot, overwrite, curies, noCache }, async () => {
+      if (saveSnapshot && !overwrite && existsSync(ontologySnapshotFile(saveSnapshot))) {
+        return {
+          success: false,
+          error: `An ontology snapshot named "${saveSnapshot}" already exists`,
+          suggestion: "Choose another saveSnapshot name, or set overwrite=true to replace it",
+        };
+      }
+      const [beforeQuads, afterQuads] = await Promise.all([
+        loadOntologyQuads(parseOntologySource(from), safeUri),
+        loadOntologyQuads(parseOntologySource(to), safeUri),
+      ]);
+      const before = ontologyFromQuads(beforeQuads, safeUri);
+      const after = ontologyFromQuads(afterQuads, safeUri);
+      if (before.terms.size === 0 && after.terms.size === 0) {
+        return {
+          success: false,
+          error: `No classes or properties of ${safeUri} found in ${from} or ${to}`,
+          suggestion: "Check the ontology URI with list_ontologies: terms must have URIs starting with it",
+        };
+      }
+
+      const changes = diffOntologies(before, after);
+      const grouped: Record<ChangeSeverity, OntologyChange[]> = { breaking: [], additive: [], editorial: [] };
+      for (const change of changes) grouped[CHANGE_SEVERITY[change.change]].push(compactChange(change));
+
+      const savedSnapshot = saveSnapshot
+        ? { name: saveSnapshot, file: await saveOntologySnapshot(saveSnapshot, selectOntologyQuads(afterQuads, safeUri), overwrite) }
+        : undefined;
+
+      return {
+        success: true,
+        data: {
+          ontology: compactForOutput(safeUri),
+          from: ontologyVersionSummary(from, before),
+          to: ontologyVersionSummary(to, after),
+          summary: {
+            breaking: grouped.breaking.length,
+            additive: grouped.additive.length,
+            editorial: grouped.editorial.length,
+          },
+          changes: grouped,
+          ...(savedSnapshot ? { savedSnapshot } : {}),
+        },
+        rowCount: changes.length,
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "validate_rdf",
+  {
+    title: "Validate RDF",
+    description: `Validate RDF data against the schema.gov.it models with SHACL.
+
+The shapes are either the SHACL shapes published in the catalog for the classes used in
+the data, or shapes derived from the ontologies: for every class and superclass,
+rdfs:domain/rdfs:range of its properties, owl:FunctionalProperty and owl:cardinality,
+owl:minCardinality and owl:maxCardinality restrictions. In derived shapes, a class range
+is a warning (linked resources are often untyped in the data); a literal where a resource
+is expected, or the wrong datatype, is a violation. The rdfs:subClassOf links of the
+catalog are added to the data, so constraints of superclasses apply.
+
+**Args:**
+- data: RDF document as Turtle or JSON-LD (inline @context only, max 1 MB)
+- format: (optional) "turtle" or "jsonld" (default: detected)
+- shapes: "auto" (catalog shapes if published, otherwise derived), "catalog" or "derived" (default: "auto")
+
+**Returns:**
+- conforms, violations, warnings, infos (sh:Info results, which do not affect conformance)
+- shapes: source ("catalog" or "derived"), count of node shapes, classes covered
+- triples, classes found in the data, unknownClasses (not defined in the catalog)
+- focusNodes: per resource, issues with severity, path (offending property), constraint,
+  expected (e.g. { class: "clv:City" } or { datatype: "xsd:date" }), value and message
+
+**Use for:** Checking data modelled on OntoPiA before publishing it`,
+    inputSchema: {
+      data: z.string().min(1).max(MAX_VALIDATION_INPUT).describe("Turtle or JSON-LD document (at most 1,000,000 characters)"),
+      format: z.enum(["turtle", "jsonld"]).optional().describe("Serialization of data (default: detected)"),
+      shapes: z.enum(["auto", "catalog", "derived"]).optional().default("auto")
+        .describe("Catalog SHACL shapes, shapes derived from the ontologies, or catalog with fallback"),
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ data, format, shapes, curies, noCache }) => {
+    const inputFormat: RdfInputFormat = format ?? detectRdfFormat(data);
+
+    return executeTool("validate_rdf", { format: inputFormat, shapes, curies, noCache }, async () => {
+      let quads: Quad[];
+      try {
+        quads = await parseRdfInput(data, inputFormat);
+      } catch (err) {
+        return {
+          success: false,
+          error: `Invalid ${inputFormat === "jsonld" ? "JSON-LD" : "Turtle"}: ${err instanceof Error ? err.message : String(err)}`,
+          suggestion: format ? "Check the syntax, or the format argument" : "Check the syntax, or set format explicitly",
+        };
+      }
+      const classes = dataClasses(quads);
+      if (classes.length === 0) {
+        return {
+          success: false,
+          error: "The data has no rdf:type statements, so no shape applies to it",
+          suggestion: "Type the resources with schema.gov.it classes (e.g. a clv:Address)",
+        };
+      }
+
+      const edges = await superClassEdges(classes);
+      const allClasses = [...new Set([...classes, ...edges.flat()])];
+      const [published, unknown] = await Promise.all([
+        shapes === "derived" ? Promise.resolve([]) : catalogShapes(allClasses),
+        unknownClasses(classes),
+      ]);
+      if (shapes === "catalog" && published.length === 0) {
+        return {
+          success: false,
+          error: `No SHACL shapes published in the catalog for ${classes.map(compactForOutput).join(", ")}`,
+          suggestion: 'Use shapes: "derived" to validate against the ontology axioms',
+        };
+      }
+
+      const source = published.length > 0 ? "catalog" : "derived";
+      const shapesGraph = source === "catalog" ? published : deriveShapes(await ontologyConstraints(allClasses));
+      const nodeShapes = shapesGraph.filter((q) => q.predicate.value === `${SH}targetClass`);
+      const summary = await validateAgainstShapes([...quads, ...subClassQuads(edges)], shapesGraph, compactForOutput);
+
+      return {
+        success: true,
+        data: {
+          conforms: summary.conforms,
+          violations: summary.violations,
+          warnings: summary.warnings,
+          infos: summary.infos,
+          shapes: {
+            source,
+            count: new Set(nodeShapes.map((q) => q.subject.value)).size,
+            classes: [...new Set(nodeShapes.map((q) => q.object.value))].map(compactForOutput),
+          },
+          triples: quads.length,
+          classes: classes.map(compactForOutput),
+          ...(unknown.length > 0 ? { unknownClasses: unknown.map(compactForOutput) } : {}),
+          focusNodes: summary.focusNodes,
+        },
+        rowCount: summary.violations + summary.warnings + summary.infos,
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "generate_json_schema",
+  {
+    title: "Generate JSON Schema",
+    description: `Generate a JSON Schema 2020-12 document or an OpenAPI 3.1 components block from an ontology class.
+
+Properties are those applicable through rdfs:domain on the class or its superclasses, and
+those with OWL restrictions on them. XSD ranges become JSON types and formats; properties
+with maxCount 1 (owl:FunctionalProperty, max/exact cardinality 1) take a single value, the
+others an array; a min/exact cardinality ≥ 1 makes them required. Ranges whose instances
+are the concepts of a ConceptScheme become one const per concept; other class ranges become
+$refs to nested schemas (within depth) or URI strings. Every object schema carries
+x-jsonld-type (the class URI) and x-jsonld-context (property names to URIs).
+
+**Args:**
+- classUri: URI of the class (e.g. clv:Address)
+- format: "json-schema" or "openapi" (default: "json-schema")
+- depth: Levels of referenced classes generated as nested schemas (default: 1, max: 3, 0 for URI strings only)
+- maxEnumValues: Largest vocabulary turned into an enum (default: 100, max: 1000)
+- lang: (optional) Preferred languages for titles and descriptions (default: "it,en")
+
+**Returns:**
+- document: the JSON Schema or the OpenAPI components block
+- classes: classes with a schema, the requested one first
+- properties: number of properties per class
+- vocabularies: property, ConceptScheme and number of values of each enum
+
+**Use for:** Starting the payload schemas of an API modelled on OntoPiA`,
+    inputSchema: {
+      classUri: z.string().describe("URI or CURIE of the class (e.g. cpv:Person)"),
+      format: z.enum(["json-schema", "openapi"]).optional().default("json-schema"),
+      depth: z.number().int().min(0).max(3).optional().default(1).describe("Levels of nested schemas for referenced classes"),
+      maxEnumValues: z.number().int().min(1).max(1000).optional().default(100).describe("Largest vocabulary turned into an enum"),
+      lang: langInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ classUri, format, depth, maxEnumValues, lang, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang) ?? ["it", "en"];
+    const safeUri = resolveUri(classUri);
+    const target: SchemaTarget = format;
+
+    return executeTool("generate_json_schema", { classUri, format, depth, maxEnumValues, lang, curies, noCache }, async () => {
+      const classes = await schemaClasses(safeUri, depth, maxEnumValues, languages);
+      const [root] = classes;
+      if (!root || (!root.label && root.properties.length === 0)) {
+        return {
+          success: false,
+          error: `No class with properties found at ${safeUri}`,
+          suggestion: "Check the URI with search_concepts (types: [\"class\"]) or class_hierarchy",
+        };
+      }
+
+      const prefixes = knownPrefixes();
+      const document = generateSchemaDocument(safeUri, classes, target, (uri) => compactIri(uri, prefixes));
+      const vocabularies = classes.flatMap((cls) => cls.properties
+        .filter((property) => property.vocabulary)
+        .map((property) => ({
+          class: compactForOutput(cls.uri),
+          property: compactForOutput(property.uri),
+          scheme: compactForOutput(property.vocabulary?.scheme ?? ""),
+          ...(property.vocabulary?.label ? { schemeLabel: property.vocabulary.label } : {}),
+          values: property.vocabulary?.values.length ?? 0,
+        })));
+
+      return {
+        success: true,
+        data: {
+          format: target,
+          document,
+          classes: classes.map((cls) => compactForOutput(cls.uri)),
+          properties: Object.fromEntries(classes.map((cls) => [compactForOutput(cls.uri), cls.properties.length])),
+          ...(vocabularies.length > 0 ? { vocabularies } : {}),
+        },
+        rowCount: classes.reduce((sum, cls) => sum + cls.properties.length, 0),
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "generate_code_model",
+  {
+    title: "Generate Code Model",
+    description: `Generate TypeScript interfaces and a matching JSON-LD @context from an ontology or a set of classes.
+
+Each class becomes an interface extending the interfaces of its direct superclasses
+(classes without one extend JsonLdNode, with id and type). A property is declared on the
+class that has it in rdfs:domain or in an OWL restriction: fields are single-valued for
+owl:FunctionalProperty or max cardinality 1 and arrays otherwise, required for a min
+cardinality ≥ 1 and optional otherwise. Links to classes of the model are typed Ref<Class>
+(IRI string or embedded object). Doc comments come from rdfs:label and rdfs:comment.
+
+**Args:**
+- ontologyUri: (optional) URI of an ontology: all its classes (URIs starting with it)
+- classUris: (optional) URIs or CURIEs of the classes (one of ontologyUri / classUris is required)
+- includeSuperclasses: Add the superclasses from any ontology, so every interface can extend its parents (default: true)
+- lang: (optional) Preferred languages for doc comments (default: "it,en")
+
+**Returns:**
+- typescript: source of the interfaces, superclasses first
+- context: JSON-LD document with the @context mapping interface and field names to IRIs
+- classes: classes in the model; properties: number of fields
+- truncated: present when the ontology has more classes than the limit
+
+**Use for:** Typing OntoPiA-shaped data (e.g. CLV addresses, CPV persons) in frontend and backend code`,
+    inputSchema: {
+      ontologyUri: z.string().optional().describe("URI or CURIE of an ontology (from list_ontologies)"),
+      classUris: z.array(z.string()).min(1).max(MAX_MODEL_CLASSES).optional().describe("URIs or CURIEs of classes"),
+      includeSuperclasses: z.boolean().optional().default(true),
+      lang: langInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ ontologyUri, classUris, includeSuperclasses, lang, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang) ?? ["it", "en"];
+
+    return executeTool("generate_code_model", { ontologyUri, classUris, includeSuperclasses, lang, curies, noCache }, async () => {
+      if (!ontologyUri && !classUris) {
+        return {
+          success: false,
+          error: "Either ontologyUri or classUris is required",
+          suggestion: "Pick an ontology with list_ontologies, or classes with search_concepts (types: [\"class\"])",
+        };
       }
-      ORDER BY ?label
-      LIMIT ${limit}
-    `;
-    return executeSparqlTool("list_ontologies", { limit }, query);
+      const requested = [
+        ...(ontologyUri ? await ontologyClasses(resolveUri(ontologyUri)) : []),
+        ...(classUris ?? []).map(resolveUri),
+      ];
+      const truncated = requested.length > MAX_MODEL_CLASSES;
+      const classes = await modelClasses([...new Set(requested)].slice(0, MAX_MODEL_CLASSES), includeSuperclasses, languages);
+      const properties = classes.reduce((sum, cls) => sum + cls.properties.length, 0);
+      if (classes.length === 0 || (properties === 0 && classes.every((cls) => !cls.label))) {
+        return {
+          success: false,
+          error: ontologyUri && requested.length === 0 ? `No classes found under ${resolveUri(ontologyUri)}` : "No properties or labels found for the requested classes",
+          suggestion: "Check the URIs with list_ontologies, explore_ontology or class_hierarchy",
+        };
+      }
+
+      const prefixes = knownPrefixes();
+      return {
+        success: true,
+        data: {
+          typescript: generateTypeScript(classes, (uri) => compactIri(uri, prefixes)),
+          context: generateJsonLdContext(classes, prefixes),
+          classes: classes.map((cls) => compactForOutput(cls.uri)),
+          properties,
+          ...(truncated ? { truncated: `Only the first ${MAX_MODEL_CLASSES} classes of the ontology are included` } : {}),
+        },
+        rowCount: classes.length,
+      };
+    });
   }
 );
 
 server.registerTool(
-  "explore_ontology",
+  "map_records_to_rdf",
   {
-    title: "Explore Ontology",
-    description: `List Classes and Properties defined in a specific Ontology.
+    title: "Map Records to RDF",
+    description: `Convert plain JSON records into instances of an ontology class, as Turtle, N-Triples or JSON-LD.
+
+Each record becomes a resource of the class, with an IRI minted from idTemplate (or a blank
+node). Fields are mapped to properties explicitly or, for the remaining fields, by label
+similarity with the properties applicable to the class. A mapping can be a property path
+("clv:hasAddress/clv:hasCity"): the intermediate node is shared by the fields of a record and
+typed with the range of the property. Nested objects are read as dotted fields ("address.city").
+
+Values of object properties that are not http(s) or urn IRIs, nor CURIEs with a known prefix
+(so codes like "IT:058091" are looked up too), are resolved to URIs by label, notation or
+identifier (ignoring case and accents) among the concepts of the ConceptScheme given in
+vocabularies, or else among the instances of the property range (e.g. municipality names to
+ISTAT city URIs with clv:hasCity). Literals take the XSD datatype of the range and are checked
+against it.
 
 **Args:**
-- ontologyUri: URI of the ontology (from list_ontologies)
+- records: JSON objects (max ${MAX_MAPPED_RECORDS})
+- classUri: Target class (e.g. cpv:Person)
+- mapping: (optional) field → property or property path, e.g. { "comune": "clv:hasCity" }
+- autoMap: Match unmapped fields by label similarity (default: true)
+- vocabularies: (optional) field → ConceptScheme used to resolve its values
+- idTemplate: (optional) IRI template with {field} placeholders and {index}, e.g. "https://example.org/office/{code}"
+- literalLanguage: (optional) Language tag for plain string literals (e.g. "it")
+- format: "turtle", "ntriples" or "jsonld" (default: "turtle")
 
 **Returns:**
-- List of classes and properties with labels, grouped by type
+- content: the serialized graph; tripleCount; records converted
+- mapping: field, property path, source ("explicit" or "auto" with score), records with the field
+- unmappedFields: fields not mapped to any property
+- rejected: values left out (invalid literal, unresolved or ambiguous code), with the reason; rejectedCount
 
-**Note:** Uses URI prefix heuristic - items whose URI starts with the ontology URI.`,
+**Use for:** Publishing own data (offices, addresses, services) modelled on OntoPiA`,
     inputSchema: {
-      ontologyUri: z.string().describe("The URI of the Ontology (from list_ontologies)"),
+      records: z.array(z.record(z.string(), z.unknown())).min(1).max(MAX_MAPPED_RECORDS).describe("JSON records"),
+      classUri: z.string().describe("URI or CURIE of the target class"),
+      mapping: z.record(z.string(), z.string()).optional().describe("Field → property URI/CURIE, or a path joined by '/'"),
+      autoMap: z.boolean().optional().default(true).describe("Match the other fields by label similarity"),
+      vocabularies: z.record(z.string(), z.string()).optional().describe("Field → ConceptScheme URI/CURIE to resolve coded values"),
+      idTemplate: z.string().optional().describe("IRI template, e.g. https://example.org/office/{code}"),
+      literalLanguage: z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{1,8})*$/).optional().describe("Language tag for string literals"),
+      format: graphFormatInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -784,24 +3584,119 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ ontologyUri }) => {
-    const safeUri = sanitizeSparqlUri(ontologyUri);
-    const query = `
-      SELECT DISTINCT ?type ?item ?label
-      WHERE {
-        VALUES ?type { owl:Class owl:ObjectProperty owl:DatatypeProperty }
-        ?item a ?type .
-        OPTIONAL { ?item rdfs:label ?label }
-        FILTER(STRSTARTS(STR(?item), "${safeUri}"))
+  async ({ records, classUri, mapping, autoMap, vocabularies, idTemplate, literalLanguage, format, curies, noCache }) => {
+    const safeUri = resolveUri(classUri);
+
+    return executeTool("map_records_to_rdf", { records: records.length, classUri, mapping, autoMap, vocabularies, idTemplate, literalLanguage, format, curies, noCache }, async () => {
+      const flat = records.map((record) => flattenRecord(record));
+      const fields = [...new Set(flat.flatMap((record) => [...record.keys()]))];
+      const explicit = Object.entries(mapping ?? {}).map(([field, path]) => ({
+        field,
+        path: path.split("/").map((step) => resolveUri(step.trim())),
+      }));
+
+      // Automatic matches for the other fields, among the properties applicable to the class
+      let automatic: FieldMatch[] = [];
+      const mappedFields = new Set(explicit.map((entry) => entry.field));
+      const remaining = fields.filter((field) => !mappedFields.has(field));
+      if (autoMap && remaining.length > 0) {
+        const applicable = await applicableProperties(safeUri, await classAncestors(safeUri, ["it", "en"]), ["it", "en"]);
+        const described = await mappableProperties(applicable.map((property) => property.uri));
+        const taken = new Set(explicit.map((entry) => entry.path[entry.path.length - 1]));
+        automatic = matchFields(
+          remaining,
+          [...described.values()]
+            .filter((property) => !taken.has(property.uri))
+            .map((property) => ({ uri: property.uri, names: [localName(property.uri), ...property.labels] })),
+          AUTO_MAPPING_THRESHOLD
+        );
       }
-      ORDER BY ?type ?item
-      LIMIT 200
-    `;
-    return executeSparqlTool("explore_ontology", { ontologyUri }, query);
+
+      const entries = [
+        ...explicit.map((entry) => ({ ...entry, source: "explicit" as const })),
+        ...automatic.map((match) => ({ field: match.field, path: [match.property], source: "auto" as const, score: match.score, matchedName: match.matchedName })),
+      ];
+      if (entries.length === 0) {
+        return {
+          success: false,
+          error: `No field could be mapped to a property of ${safeUri}`,
+          suggestion: `Give a mapping for some of the fields (${fields.slice(0, 10).join(", ")}), e.g. { "${fields[0] ?? "field"}": "l0:name" }; class_hierarchy lists the applicable properties`,
+        };
+      }
+
+      const properties = await mappableProperties([...new Set(entries.flatMap((entry) => entry.path))]);
+      const intermediateTypes = new Map<string, string>();
+      for (const entry of entries) {
+        for (let depth = 1; depth < entry.path.length; depth++) {
+          const type = classRange(properties.get(entry.path[depth - 1] ?? ""));
+          if (type) intermediateTypes.set(entry.path.slice(0, depth).join(" "), type);
+        }
+      }
+      const mappings: FieldMapping[] = entries.map((entry) => ({
+        field: entry.field,
+        path: entry.path,
+        target: valueTarget(properties.get(entry.path[entry.path.length - 1] ?? "")),
+      }));
+
+      // Coded values of resource fields, resolved per scheme or range class
+      const scopes = new Map<string, { scope: { scheme: string } | { class: string }; label: string }>();
+      for (const entry of mappings.filter((item) => item.target.kind === "resource")) {
+        const scheme = vocabularies?.[entry.field];
+        const range = classRange(properties.get(entry.path[entry.path.length - 1] ?? ""));
+        if (scheme) scopes.set(entry.field, { scope: { scheme: resolveUri(scheme) }, label: `concepts of ${compactForOutput(resolveUri(scheme))}` });
+        else if (range) scopes.set(entry.field, { scope: { class: range }, label: `instances of ${compactForOutput(range)}` });
+      }
+      const prefixes = knownPrefixes();
+      const codedValues = new Map<string, string[]>();
+      for (const [field] of scopes) {
+        codedValues.set(field, flat.flatMap((record) => (record.get(field) ?? []).map(String)).filter((value) => !valueIri(value.trim(), prefixes)));
+      }
+      const resolutions = new Map(await Promise.all([...scopes].map(async ([field, { scope }]): Promise<[string, Map<string, string[]>]> => [
+        field,
+        (codedValues.get(field)?.length ?? 0) > 0 ? await resolveCodedValues(scope, codedValues.get(field) ?? []) : new Map(),
+      ])));
+
+      const { quads, rejected, subjects } = recordsToQuads(records, {
+        classUri: safeUri,
+        mappings,
+        intermediateTypes,
+        ...(idTemplate ? { idTemplate } : {}),
+        ...(literalLanguage ? { language: literalLanguage } : {}),
+        prefixes,
+        resolve: (field, value) => {
+          const scope = scopes.get(field);
+          if (!scope) return { reason: "not an IRI, and no vocabulary or range class to resolve it (set vocabularies)" };
+          const uris = resolutions.get(field)?.get(unaccentedKey(value)) ?? [];
+          if (uris.length === 1) return { uri: uris[0] as string };
+          return { reason: uris.length === 0 ? `no match among ${scope.label}` : `ambiguous: ${uris.length} matches among ${scope.label}` };
+        },
+      });
+      const graph = await serializeGraph(quads, format, knownPrefixes());
+
+      return {
+        success: true,
+        data: {
+          format: graph.format,
+          tripleCount: graph.tripleCount,
+          records: subjects.length,
+          content: graph.content,
+          mapping: entries.map((entry) => ({
+            field: entry.field,
+            property: entry.path.map(compactForOutput).join("/"),
+            source: entry.source,
+            ...("score" in entry ? { score: entry.score, matchedName: entry.matchedName } : {}),
+            records: flat.filter((record) => record.has(entry.field)).length,
+          })),
+          unmappedFields: fields.filter((field) => !entries.some((entry) => entry.field === field) && !templateFields(idTemplate ?? "").includes(field)),
+          rejectedCount: rejected.length,
+          rejected: rejected.slice(0, MAX_REPORTED_REJECTIONS),
+        },
+        rowCount: subjects.length,
+      };
+    });
   }
 );
 
-
 // -----------------------------------------------------------------------------
 // GROUP D: Vocabulary Tools
 // -----------------------------------------------------------------------------
@@ -814,11 +3709,17 @@ server.registerTool(
 
 **Args:**
 - limit: Maximum vocabularies to return (default: 20)
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - List of ConceptSchemes with labels and concept counts, ordered by count descending`,
     inputSchema: {
       limit: z.number().optional().default(20),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -827,19 +3728,13 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit }) => {
-    const query = `
-      SELECT DISTINCT ?scheme ?label (COUNT(?c) AS ?count)
-      WHERE {
-        ?scheme a skos:ConceptScheme .
-        OPTIONAL { ?scheme rdfs:label|dct:title ?label }
-        OPTIONAL { ?c skos:inScheme ?scheme }
-      }
-      GROUP BY ?scheme ?label
-      ORDER BY DESC(?count)
-      LIMIT ${limit}
-    `;
-    return executeSparqlTool("list_vocabularies", { limit }, query);
+  async ({ limit, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const query = listVocabulariesQuery(limit, languages);
+    return executeSparqlTool("list_vocabularies", { limit, lang, literals, curies, noCache }, query, {
+      languages,
+      typedLiterals: literals === "typed",
+    });
   }
 );
 
@@ -851,15 +3746,24 @@ server.registerTool(
 
 **Args:**
 - schemeUri: URI of the ConceptScheme (from list_vocabularies)
-- keyword: Search term for label matching (case-insensitive regex)
+- keyword: Search term, matched on labels, altLabels, notations and definitions (accent-insensitive, typo tolerant)
+- match: (optional) exact, prefix or contains for literal matching, regex to match labels with a pattern; omit for ranked search
 - limit: Maximum results (default: 20)
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
-- Matching concepts with labels and optional notation codes`,
+- total: Number of matching concepts
+- concepts: Best matches first, with label, notation code, score and match kind`,
     inputSchema: {
-      schemeUri: z.string().describe("The URI of the ConceptScheme (from list_vocabularies)"),
+      schemeUri: z.string().describe("The URI or CURIE of the ConceptScheme (from list_vocabularies)"),
       keyword: z.string().describe("The search keyword"),
+      match: searchMatchInput,
       limit: z.number().optional().default(20),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -868,21 +3772,211 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ schemeUri, keyword, limit }) => {
-    const safeSchemeUri = sanitizeSparqlUri(schemeUri);
-    const safeKeyword = sanitizeSparqlString(keyword);
-    const query = `
-      SELECT DISTINCT ?concept ?label ?code
-      WHERE {
-        ?concept skos:inScheme <${safeSchemeUri}> .
-        ?concept rdfs:label|skos:prefLabel ?label .
-        OPTIONAL { ?concept skos:notation|dct:identifier ?code }
-        FILTER(REGEX(STR(?label), "${safeKeyword}", "i"))
+  async ({ schemeUri, keyword, match, limit, lang, literals, curies, noCache }) => {
+    const invalidKeyword = keywordError(keyword, match);
+    if (invalidKeyword) {
+      return executeTool("search_in_vocabulary", { schemeUri, keyword, match, limit, lang, literals, curies, noCache }, async () => invalidKeyword);
+    }
+    const languages = parseLanguagePreference(lang);
+    const safeSchemeUri = resolveUri(schemeUri);
+    const typedLiterals = literals === "typed";
+    const labelFilter = keywordFilter("label", keyword, match ?? "contains");
+
+    return executeTool<unknown>("search_in_vocabulary", { schemeUri, keyword, match, limit, lang, literals, curies, noCache }, async () => {
+      const index = match === "regex" ? undefined : getSearchIndex();
+      if (index && match !== "regex") {
+        const found = index.search(keyword, { types: ["concept"], scheme: safeSchemeUri, languages, match, limit });
+        return {
+          success: true,
+          data: {
+            total: found.total,
+            concepts: found.hits.map((hit) => searchHitRow(hit, typedLiterals, "concept")),
+          },
+          rowCount: found.hits.length,
+        };
       }
-      ORDER BY ?label
-      LIMIT ${limit}
-    `;
-    return executeSparqlTool("search_in_vocabulary", { schemeUri, keyword, limit }, query);
+
+      const result = await executeSparql(`
+        SELECT DISTINCT ?concept ?label ?code
+        WHERE {
+          ?concept skos:inScheme <${safeSchemeUri}> .
+          ?concept rdfs:label|skos:prefLabel ?label .
+          OPTIONAL { ?concept skos:notation|dct:identifier ?code }
+          ${labelFilter}
+          ${languageFilter("label", languages)}
+        }
+        ORDER BY ?label
+        LIMIT ${limit}
+      `);
+      return {
+        success: true,
+        data: compressSparqlResult(result, { languages, typedLiterals }),
+        rowCount: result.results?.bindings?.length ?? 0,
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "export_vocabulary",
+  {
+    title: "Export Vocabulary",
+    description: `Export a whole Controlled Vocabulary (ConceptScheme) as CSV, JSON, SKOS Turtle or JSON-LD.
+
+Walks the full scheme page by page (unlike browse_vocabulary) and includes, for each concept:
+notation, prefLabel and altLabel in every language, definition, broader/narrower and validity dates.
+
+**Args:**
+- schemeUri: URI of the ConceptScheme (from list_vocabularies)
+- format: "csv", "json", "turtle" or "jsonld" (default: "csv")
+- lang: (optional) Languages to keep, e.g. "it,en" (default: all)
+- destination: "resource" (default) to get an MCP resource link, or "file" to save into the configured export directory
+- overwrite: (optional) Replace a file with the same name in the export directory (default: false, the export fails instead)
+
+**Returns:**
+- Summary: scheme, file name, format, concept count, languages, size
+- resource: schemagovit://export/{id} URI to read with resources/read (kept for one hour), also sent as a resource link
+- file: Path of the saved file (destination "file")
+
+**Use for:** Dropdowns, validation tables and code lists in applications (e.g. ATECO, professions, education levels)`,
+    inputSchema: {
+      schemeUri: z.string().describe("URI or CURIE of the ConceptScheme (from list_vocabularies)"),
+      format: z.enum(["csv", "json", "turtle", "jsonld"]).optional().default("csv")
+        .describe("Output format: csv, json, turtle (SKOS) or jsonld"),
+      lang: langInput,
+      destination: z.enum(["resource", "file"]).optional().default("resource")
+        .describe("Return an MCP resource link, or save into the configured export directory"),
+      overwrite: z.boolean().optional().default(false)
+        .describe("With destination \"file\", replace an existing file with the same name"),
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  },
+  async ({ schemeUri, format, lang, destination, overwrite, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const safeSchemeUri = resolveUri(schemeUri);
+    let link: McpResourceLink | undefined;
+
+    const response = await executeTool<unknown>("export_vocabulary", { schemeUri, format, lang, destination, overwrite, noCache }, async () => {
+      if (destination === "file" && !EXPORT_DIR) {
+        return {
+          success: false,
+          error: "No export directory is configured",
+          suggestion: "Set MCP_EXPORT_DIR (or exportDir in the configuration), or use destination \"resource\"",
+        };
+      }
+
+      const conceptUris = new Set<string>();
+      const quads = await executeSparqlGraph(`
+        CONSTRUCT { <${safeSchemeUri}> ?p ?o }
+        WHERE {
+          <${safeSchemeUri}> ?p ?o .
+          FILTER(ISLITERAL(?o) || ?p = rdf:type)
+          ${languageFilter("o", languages)}
+        }
+      `);
+
+      // Concept URIs page by page, then their descriptions for each page
+      const predicates = [
+        "rdf:type", "skos:inScheme", "skos:topConceptOf",
+        ...Object.values(CONCEPT_PREDICATES).flat().map((predicate) => `<${predicate}>`),
+      ].join(" ");
+      let complete = true;
+      for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+        if (offset >= EXPORT_MAX_CONCEPTS) {
+          complete = false;
+          break;
+        }
+        const page = await executeSparql(`
+          SELECT DISTINCT ?concept
+          WHERE { ?concept skos:inScheme <${safeSchemeUri}> . FILTER(ISIRI(?concept)) }
+          ORDER BY ?concept
+          LIMIT ${EXPORT_PAGE_SIZE}
+          OFFSET ${offset}
+        `);
+        const uris = (page.results?.bindings ?? []).flatMap((row) => (row.concept ? [row.concept.value] : []));
+        if (uris.length === 0) break;
+        for (const uri of uris) conceptUris.add(uri);
+
+        quads.push(...await executeSparqlGraph(`
+          CONSTRUCT { ?concept ?p ?o }
+          WHERE {
+            VALUES ?concept { ${uris.map((uri) => `<${sanitizeSparqlUri(uri)}>`).join(" ")} }
+            VALUES ?p { ${predicates} }
+            ?concept ?p ?o .
+            ${languageFilter("o", languages)}
+          }
+        `));
+        if (uris.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      if (conceptUris.size === 0) {
+        return {
+          success: false,
+          error: `No concepts found in ${safeSchemeUri}`,
+          suggestion: "Check the ConceptScheme URI with list_vocabularies",
+        };
+      }
+
+      const concepts = conceptsFromQuads(quads, conceptUris);
+      const exportLanguages = languages ?? conceptLanguages(concepts);
+      const schemeLabel = quads.find((quad) =>
+        quad.subject.value === safeSchemeUri &&
+        (quad.predicate.value === "http://www.w3.org/2000/01/rdf-schema#label" || quad.predicate.value === "http://purl.org/dc/terms/title") &&
+        quad.object.termType === "Literal" &&
+        (quad.object.language === "" || quad.object.language === (exportLanguages[0] ?? "it"))
+      )?.object.value;
+
+      let content: string;
+      if (format === "csv") {
+        content = conceptsToCsv(concepts, exportLanguages);
+      } else if (format === "json") {
+        content = JSON.stringify({ scheme: safeSchemeUri, label: schemeLabel, concepts }, null, 2);
+      } else {
+        const graph = await serializeGraph(quads, format, knownPrefixes());
+        content = typeof graph.content === "string" ? graph.content : JSON.stringify(graph.content, null, 2);
+      }
+
+      const name = exportFileName(safeSchemeUri, schemeLabel, format);
+      const { mimeType } = EXPORT_FORMATS[format];
+      const summary = {
+        scheme: safeSchemeUri,
+        name,
+        format,
+        concepts: concepts.length,
+        languages: exportLanguages,
+        bytes: Buffer.byteLength(content),
+        ...(complete ? {} : { complete, note: `Export stopped at ${EXPORT_MAX_CONCEPTS} concepts` }),
+      };
+
+      if (destination === "file" && EXPORT_DIR) {
+        await mkdir(EXPORT_DIR, { recursive: true });
+        const file = join(EXPORT_DIR, name);
+        try {
+          await writeFile(file, content, { encoding: "utf-8", flag: overwrite ? "w" : "wx" });
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+          return {
+            success: false,
+            error: `${file} already exists`,
+            suggestion: "Set overwrite=true to replace it, or move the existing file first",
+          };
+        }
+        return { success: true, data: { ...summary, file }, rowCount: concepts.length };
+      }
+
+      const uri = `schemagovit://export/${exportStore.put({ name, mimeType, content })}`;
+      link = { type: "resource_link", uri, name, mimeType, description: `${concepts.length} concepts of ${safeSchemeUri}` };
+      return { success: true, data: { ...summary, resource: uri }, rowCount: concepts.length };
+    });
+
+    if (link && !response.isError) response.content.push(link);
+    return response;
   }
 );
 
@@ -899,6 +3993,8 @@ server.registerTool(
 **Args:**
 - limit: Maximum datasets per page (default: 20)
 - offset: Number of datasets to skip (default: 0)
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - items: List of datasets with labels
@@ -906,6 +4002,10 @@ server.registerTool(
     inputSchema: {
       limit: z.number().optional().default(20),
       offset: z.number().optional().default(0),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -914,32 +4014,17 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit, offset }) => {
-    const dataQuery = `
-      SELECT DISTINCT ?dataset ?label
-      WHERE {
-        ?dataset a <http://dati.gov.it/onto/dcatapit#Dataset> .
-        OPTIONAL { ?dataset dct:title ?label }
-      }
-      ORDER BY ?label
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-
-    const countQuery = `
-      SELECT (COUNT(DISTINCT ?dataset) AS ?total)
-      WHERE {
-        ?dataset a <http://dati.gov.it/onto/dcatapit#Dataset> .
-      }
-    `;
+  async ({ limit, offset, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const { dataQuery, countQuery } = listDatasetsQueries(limit, offset, languages);
 
-    return executeTool("list_datasets", { limit, offset }, async () => {
+    return executeTool("list_datasets", { limit, offset, lang, literals, curies, noCache }, async () => {
       const [dataResult, countResult] = await Promise.all([
         executeSparql(dataQuery),
         executeSparql(countQuery),
       ]);
 
-      const items = compressSparqlResult(dataResult);
+      const items = compressSparqlResult(dataResult, { languages, typedLiterals: literals === "typed" });
       const count = dataResult.results?.bindings?.length ?? 0;
       const total = parseInt(countResult.results?.bindings?.[0]?.total?.value ?? "0", 10);
 
@@ -969,6 +4054,8 @@ server.registerTool(
 
 **Args:**
 - datasetUri: URI of the dataset to explore
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - metadata: Dataset properties (literals and distribution references)
@@ -976,7 +4063,11 @@ server.registerTool(
 
 **Note:** Both queries run in parallel for performance.`,
     inputSchema: {
-      datasetUri: z.string().describe("The URI of the Dataset"),
+      datasetUri: z.string().describe("The URI or CURIE of the Dataset"),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -985,29 +4076,12 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ datasetUri }) => {
-    const safeUri = sanitizeSparqlUri(datasetUri);
-    const metadataQuery = `
-      SELECT ?p ?o
-      WHERE {
-        <${safeUri}> ?p ?o .
-        FILTER (ISLITERAL(?o) || (ISURI(?o) && EXISTS { ?o a <http://dati.gov.it/onto/dcatapit#Distribution> }))
-      }
-      LIMIT 100
-    `;
-
-    const distQuery = `
-      SELECT ?dist ?format ?url
-      WHERE {
-        ?dist a <http://dati.gov.it/onto/dcatapit#Distribution> .
-        { <${safeUri}> dcat:distribution ?dist } UNION { ?dist isDistributionOf <${safeUri}> } .
-        OPTIONAL { ?dist dct:format ?format }
-        OPTIONAL { ?dist dcat:downloadURL ?url }
-      }
-      LIMIT 20
-    `;
+  async ({ datasetUri, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const safeUri = resolveUri(datasetUri);
+    const { metadataQuery, distQuery } = exploreDatasetQueries(safeUri, languages);
 
-    return executeTool("explore_dataset", { datasetUri }, async () => {
+    return executeTool("explore_dataset", { datasetUri, lang, literals, curies, noCache }, async () => {
       const [details, distributions] = await Promise.all([
         executeSparql(metadataQuery),
         executeSparql(distQuery),
@@ -1016,8 +4090,8 @@ server.registerTool(
       return {
         success: true,
         data: {
-          metadata: compressSparqlResult(details),
-          distributions: compressSparqlResult(distributions),
+          metadata: compressSparqlResult(details, { languages, typedLiterals: literals === "typed" }),
+          distributions: compressSparqlResult(distributions, { typedLiterals: literals === "typed" }),
         },
         rowCount: (details.results?.bindings?.length ?? 0) +
           (distributions.results?.bindings?.length ?? 0),
@@ -1034,19 +4108,34 @@ server.registerTool(
   "search_concepts",
   {
     title: "Search Concepts",
-    description: `Fuzzy search for concepts/classes/properties by keyword.
+    description: `Ranked full-text search over classes, properties, concepts, vocabularies and datasets.
+
+Labels, altLabels, notations and comments are matched ignoring case and accents ("Forli" finds "Forlì"),
+with typo tolerance. Results are ranked exact > prefix > token > fuzzy.
 
 **Args:**
 - keyword: Search term (e.g. 'amministrazione')
+- match: (optional) exact, prefix or contains for literal matching, regex to match labels with a pattern; omit for ranked search
 - limit: Maximum results (default: 10)
+- types: (optional) Restrict to some of: class, property, concept, vocabulary, dataset
+- lang: (optional) Preferred label languages, best first (e.g. "it,en"); other languages are not matched
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
-- Matching subjects with type and label
+- total: Number of matching resources
+- facets: Matches per type (before the types filter)
+- results: uri, type, label, code, score, match kind, and the matched text when it is not the label
 
 **Use when:** You don't know the exact URI of a concept.`,
     inputSchema: {
       keyword: z.string().describe("The search term (e.g. 'amministrazione')"),
+      match: searchMatchInput,
       limit: z.number().optional().default(10),
+      types: z.array(searchTypeInput).optional().describe("Restrict results to these resource types"),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1055,19 +4144,48 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ keyword, limit }) => {
-    const safeKeyword = sanitizeSparqlString(keyword);
-    const query = `
-      SELECT DISTINCT ?subject ?type ?label
-      WHERE {
-        VALUES ?type { owl:Class owl:ObjectProperty owl:DatatypeProperty skos:Concept }
-        ?subject a ?type .
-        ?subject rdfs:label|skos:prefLabel|dct:title ?label .
-        FILTER(REGEX(STR(?label), "${safeKeyword}", "i"))
+  async ({ keyword, match, limit, types, lang, literals, curies, noCache }) => {
+    const invalidKeyword = keywordError(keyword, match);
+    if (invalidKeyword) {
+      return executeTool("search_concepts", { keyword, match, limit, types, lang, literals, curies, noCache }, async () => invalidKeyword);
+    }
+    const languages = parseLanguagePreference(lang);
+    const typedLiterals = literals === "typed";
+    const labelFilter = keywordFilter("label", keyword, match ?? "contains");
+
+    return executeTool<unknown>("search_concepts", { keyword, match, limit, types, lang, literals, curies, noCache }, async () => {
+      const index = match === "regex" ? undefined : getSearchIndex();
+      if (index && match !== "regex") {
+        const found = index.search(keyword, { types, languages, match, limit });
+        return {
+          success: true,
+          data: {
+            total: found.total,
+            facets: found.facets,
+            results: found.hits.map((hit) => searchHitRow(hit, typedLiterals)),
+          },
+          rowCount: found.hits.length,
+        };
       }
-      LIMIT ${limit}
-    `;
-    return executeSparqlTool("search_concepts", { keyword, limit }, query);
+
+      // Regex mode, or no index: unranked, accent-sensitive filter over labels
+      const result = await executeSparql(`
+        SELECT DISTINCT ?subject ?type ?label
+        WHERE {
+          VALUES ?type { owl:Class owl:ObjectProperty owl:DatatypeProperty skos:Concept }
+          ?subject a ?type .
+          ?subject rdfs:label|skos:prefLabel|dct:title ?label .
+          ${labelFilter}
+          ${languageFilter("label", languages)}
+        }
+        LIMIT ${limit}
+      `);
+      return {
+        success: true,
+        data: compressSparqlResult(result, { languages, typedLiterals }),
+        rowCount: result.results?.bindings?.length ?? 0,
+      };
+    });
   }
 );
 
@@ -1079,6 +4197,8 @@ server.registerTool(
 
 **Args:**
 - uri: URI of the concept to inspect
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - definition: Literal properties of the concept
@@ -1089,7 +4209,11 @@ server.registerTool(
 
 **Note:** All 5 queries run in parallel for performance.`,
     inputSchema: {
-      uri: z.string().describe("The URI of the concept to inspect"),
+      uri: z.string().describe("The URI or CURIE (e.g. clv:City) of the concept to inspect"),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1098,11 +4222,12 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ uri }) => {
-    const safeUri = sanitizeSparqlUri(uri);
+  async ({ uri, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const safeUri = resolveUri(uri);
     const queries: Record<string, string> = {
       definition: `
-        SELECT ?p ?o WHERE { <${safeUri}> ?p ?o . FILTER(ISLITERAL(?o)) }
+        SELECT ?p ?o WHERE { <${safeUri}> ?p ?o . FILTER(ISLITERAL(?o)) ${languageFilter("o", languages)} }
       `,
       hierarchy: `
         SELECT ?type ?parent ?child WHERE {
@@ -1132,7 +4257,7 @@ server.registerTool(
       `,
     };
 
-    return executeTool("inspect_concept", { uri }, async () => {
+    return executeTool("inspect_concept", { uri, lang, literals, curies, noCache }, async () => {
       const entries = Object.entries(queries);
       const sparqlResults = await Promise.all(
         entries.map(([, q]) => executeSparql(q))
@@ -1143,7 +4268,7 @@ server.registerTool(
         const entry = entries[i];
         const sparqlResult = sparqlResults[i];
         if (entry && sparqlResult) {
-          results[entry[0]] = compressSparqlResult(sparqlResult);
+          results[entry[0]] = compressSparqlResult(sparqlResult, { languages, typedLiterals: literals === "typed" });
         }
       }
 
@@ -1171,8 +4296,10 @@ server.registerTool(
 - Direct connections (single predicate)
 - 1-hop paths (source -> intermediate -> target)`,
     inputSchema: {
-      sourceUri: z.string().describe("URI of the source concept"),
-      targetUri: z.string().describe("URI of the target concept"),
+      sourceUri: z.string().describe("URI or CURIE of the source concept"),
+      targetUri: z.string().describe("URI or CURIE of the target concept"),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1181,9 +4308,9 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ sourceUri, targetUri }) => {
-    const safeSource = sanitizeSparqlUri(sourceUri);
-    const safeTarget = sanitizeSparqlUri(targetUri);
+  async ({ sourceUri, targetUri, curies, noCache }) => {
+    const safeSource = resolveUri(sourceUri);
+    const safeTarget = resolveUri(targetUri);
     const query = `
       SELECT ?p1 ?mid ?p2
       WHERE {
@@ -1200,7 +4327,7 @@ server.registerTool(
       }
       LIMIT 10
     `;
-    return executeSparqlTool("find_relations", { sourceUri, targetUri }, query);
+    return executeSparqlTool("find_relations", { sourceUri, targetUri, curies, noCache }, query);
   }
 );
 
@@ -1220,6 +4347,8 @@ server.registerTool(
 **Note:** Both analyses run in parallel.`,
     inputSchema: {
       limit: z.number().optional().default(20),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1228,7 +4357,7 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ limit }) => {
+  async ({ limit, curies, noCache }) => {
     const lonelyQuery = `
       SELECT ?class (COUNT(?s) as ?instances)
       WHERE {
@@ -1250,7 +4379,7 @@ server.registerTool(
       LIMIT ${limit}
     `;
 
-    return executeTool("suggest_improvements", { limit }, async () => {
+    return executeTool("suggest_improvements", { limit, curies, noCache }, async () => {
       const [lonely, cycles] = await Promise.all([
         executeSparql(lonelyQuery),
         executeSparql(cycleQuery),
@@ -1276,18 +4405,248 @@ server.registerTool(
   "preview_distribution",
   {
     title: "Preview Distribution",
-    description: `Download and preview the first rows of a distribution file.
+    description: `Download a distribution file and preview its first rows as a table.
+
+The file is streamed and read up to ${PREVIEW_MAX_BYTES.toLocaleString("en")} bytes (after decompression), so large
+files are not loaded whole. The reader detects:
+- compression: gzip, or zip (the first CSV/JSON file of the archive)
+- charset: byte order mark, declared charset, UTF-8 or else Windows-1252 (Latin-1)
+- format: CSV, JSON (array, or records under results/data/items/records), JSON Lines, GeoJSON FeatureCollection
+- CSV dialect: delimiter (, ; tab |), quote character, header row; quoted fields may span lines
 
 **Args:**
-- url: Download URL of the distribution (CSV or JSON)
+- url: Download URL of the distribution
+- rows: Rows to return (default: 15, max: 100)
+- format: (optional) "csv", "json", "jsonl" or "geojson" instead of detecting it
+- delimiter: (optional) CSV delimiter instead of detecting it
+- header: (optional) Whether the CSV has a header row, instead of detecting it
 
 **Returns:**
-- Preview of first 10-15 rows/items of data
+- dialect: format, compression, entry (zip), charset, bom, delimiter, quote, header, bytes read, truncated
+- headers and rows (strings; nested JSON fields as dotted columns, GeoJSON points as longitude/latitude)
 
-**Supported formats:** CSV, JSON (auto-detected by content-type or extension)
-**Timeout:** 10 seconds`,
+**Timeout:** ${DISTRIBUTION_TIMEOUT_MS / 1000} seconds`,
     inputSchema: {
       url: z.string().describe("The download URL of the distribution"),
+      rows: z.number().int().min(1).max(100).optional().default(15).describe("Rows to return"),
+      format: z.enum(["csv", "json", "jsonl", "geojson"]).optional().describe("Format (detected if omitted)"),
+      delimiter: z.string().length(1).optional().describe("CSV delimiter (detected if omitted)"),
+      header: z.boolean().optional().describe("Whether the CSV has a header row (detected if omitted)"),
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ url, rows, format, delimiter, header }) => {
+    return executeTool("preview_distribution", { url, rows, format, delimiter, header }, async () => {
+      let distribution: Distribution;
+      try {
+        distribution = await readDistribution(url, {
+          maxBytes: Math.min(PREVIEW_MAX_BYTES, DISTRIBUTION_MAX_BYTES),
+          timeoutMs: DISTRIBUTION_TIMEOUT_MS,
+          maxRows: rows,
+          format,
+          delimiter,
+          header,
+        });
+      } catch (err) {
+        return {
+          success: false,
+          error: `Cannot read the distribution: ${getErrorMessage(err)}`,
+          suggestion: "Check the URL in explore_dataset; give format or delimiter if detection failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          url,
+          dialect: distribution.dialect,
+          headers: distribution.table.headers,
+          rows: distribution.table.rows,
+        },
+        rowCount: distribution.table.rows.length,
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "suggest_column_mappings",
+  {
+    title: "Suggest Column Mappings",
+    description: `Profile the columns of a tabular distribution and propose the catalog properties and
+ConceptSchemes they correspond to, ranked with a confidence score and the evidence behind it.
+
+Each column is profiled from a sample of rows: inferred XSD datatype, value shapes ("9" digit,
+"A"/"a" letter), null ratio, distinct values, and whether the values look like ISTAT codes
+(municipality, province, region), Belfiore codes, province abbreviations (sigle), postal codes,
+fiscal codes or VAT numbers. Municipality, province and region codes are checked against the
+catalog instances of clv:City, clv:Province and clv:Region.
+
+Property score: 0.5 × name similarity (column name vs. local name and labels) + 0.2 × fit of
+the values with the property kind and datatype + 0.3 × range matching the class identified by
+the codes (without codes, name and fit alone in the same proportion). ConceptScheme confidence: share of the sampled distinct values (max ${MAX_SAMPLED_VALUES})
+that are labels or notations of its concepts, ignoring case and accents.
+
+**Args:**
+- url: (optional) Download URL of a CSV, JSON, JSON Lines or GeoJSON distribution (also gzip or zip)
+- csv: (optional) Inline CSV text, instead of url
+- delimiter: (optional) CSV delimiter (default: detected among , ; tab |)
+- sampleRows: Rows profiled (default: 1000, max ${MAX_PROFILED_ROWS})
+- maxCandidates: Candidates per column (default: 5)
+- lang: Preferred label languages (default: "it,en")
+
+**Returns:**
+- dialect: format, compression, charset, delimiter, header row, truncated (as in preview_distribution)
+- rowsProfiled
+- columns: profile (datatype, nullRatio, distinct, shapes, codes, examples), properties
+  (property, label, score, evidence) and conceptSchemes (scheme, label, confidence, evidence)
+
+**Use for:** Preparing map_records_to_rdf mappings for an open data CSV
+**Timeout:** ${DISTRIBUTION_TIMEOUT_MS / 1000} seconds for the download`,
+    inputSchema: {
+      url: z.string().url().optional().describe("Download URL of the distribution"),
+      csv: z.string().max(MAX_INLINE_TABLE).optional().describe("Inline CSV text"),
+      delimiter: z.string().length(1).optional().describe("CSV delimiter (detected if omitted)"),
+      sampleRows: z.number().int().min(1).max(MAX_PROFILED_ROWS).optional().default(1000).describe("Rows profiled"),
+      maxCandidates: z.number().int().min(1).max(20).optional().default(5).describe("Candidates per column"),
+      lang: langInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ url, csv, delimiter, sampleRows, maxCandidates, lang, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang) ?? ["it", "en"];
+
+    return executeTool("suggest_column_mappings", { url, csv: csv === undefined ? undefined : `${csv.length} chars`, delimiter, sampleRows, maxCandidates, lang, curies, noCache }, async () => {
+      if ((url === undefined) === (csv === undefined)) {
+        return {
+          success: false,
+          error: "Give either url or csv",
+          suggestion: "Pass the download URL of a distribution (explore_dataset lists them) or the CSV text itself",
+        };
+      }
+
+      let table: Table;
+      let dialect: Partial<DistributionDialect>;
+      try {
+        ({ table, dialect } = await readTableInput(url, csv, { maxRows: sampleRows, delimiter }));
+      } catch (err) {
+        return {
+          success: false,
+          error: `Cannot read the distribution: ${getErrorMessage(err)}`,
+          suggestion: "Check its content with preview_distribution",
+        };
+      }
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        return {
+          success: false,
+          error: "No rows found: the table needs a header row and at least one data row",
+          suggestion: "Check the content with preview_distribution, or give the delimiter",
+        };
+      }
+
+      const [properties, columns] = await Promise.all([
+        catalogProperties(),
+        Promise.all(table.headers.map(async (header, index) => {
+          const values = columnValues(table, index);
+          const profile = profileColumn(header || `column${index + 1}`, values);
+          const sample = sampledValues(values);
+          const codeLike = profile.datatype === "string" || profile.datatype === "integer" || profile.codes.length > 0;
+          const [verification, conceptSchemes] = await Promise.all([
+            verifyCodes(profile, sample),
+            codeLike ? rankSchemes(sample, maxCandidates, languages) : Promise.resolve([]),
+          ]);
+          return { profile, verification, conceptSchemes };
+        })),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          dialect,
+          rowsProfiled: table.rows.length,
+          columns: columns.map(({ profile, verification, conceptSchemes }) => ({
+            ...profile,
+            codes: profile.codes.map((code) => ({
+              ...code,
+              ...(verification?.kind === code.kind
+                ? { verified: { class: compactForOutput(verification.class), matched: verification.matched, sampled: verification.sampled } }
+                : {}),
+            })),
+            properties: rankProperties(profile, properties, verification, maxCandidates),
+            conceptSchemes,
+          })),
+        },
+        rowCount: columns.length,
+      };
+    });
+  }
+);
+
+server.registerTool(
+  "profile_distribution",
+  {
+    title: "Profile Distribution",
+    description: `Profile the columns of a CSV/JSON distribution and check its coded columns against
+schema.gov.it reference data, listing invalid and obsolete codes with their rows.
+
+The distribution is read as in preview_distribution (streamed, gzip/zip, charset and CSV dialect
+detected) up to sampleRows rows. For each column: null ratio, distinct values, min/max (as numbers,
+dates or text), inferred XSD datatype, top values and the Italian codes the values look like.
+
+Coded columns are checked against:
+- "municipality": ISTAT municipality codes, as skos:notation of clv:City (columns whose values
+  look like municipality codes are checked automatically unless autoValidate is false)
+- "province": ISTAT province codes, as skos:notation of clv:Province
+- a ConceptScheme URI/CURIE: notations and labels of its concepts, ignoring case and accents
+A code is obsolete when every resource it identifies has an end date in the past
+(dcat:endDate, schema:endDate, ti:endTime) or owl:deprecated true. Numeric ISTAT codes that lost
+their leading zeros (e.g. 58091 for 058091) are matched once padded: they count as valid and
+are also reported as needsPadding.
+
+**Args:**
+- url: (optional) Download URL of the distribution
+- csv: (optional) Inline CSV text, instead of url
+- validate: (optional) column → "municipality", "province" or a ConceptScheme, e.g. { "titolo": "https://w3id.org/italia/controlled-vocabulary/..." }
+- autoValidate: Check columns of municipality codes without listing them (default: true)
+- sampleRows: Rows read (default: 5000, max ${MAX_PROFILED_ROWS})
+- topValues: Most frequent values per column (default: ${DEFAULT_TOP_VALUES})
+- maxIssues: Invalid/obsolete codes listed per column (default: ${MAX_REPORTED_CODE_ISSUES}; the counts are always given)
+- format, delimiter, header: (optional) instead of detecting them
+
+**Returns:**
+- dialect, rowsProfiled (a truncated dialect means only the first part of the file was read)
+- columns: name, nullRatio, distinct, datatype, shapes, codes, min, max, topValues, and for checked columns
+  validation: against, checked, valid, invalid, obsolete (valid + invalid + obsolete = checked),
+  needsPadding (valid codes written without their leading zeros), issues (row, value, problem,
+  and the padded code for needsPadding);
+  rows count data rows from 1, the header excluded
+
+**Use for:** Data-quality checks of published datasets before harvesting`,
+    inputSchema: {
+      url: z.string().url().optional().describe("Download URL of the distribution"),
+      csv: z.string().max(MAX_INLINE_TABLE).optional().describe("Inline CSV text"),
+      validate: z.record(z.string(), z.string()).optional().describe("Column → \"municipality\", \"province\" or a ConceptScheme URI/CURIE"),
+      autoValidate: z.boolean().optional().default(true).describe("Check columns that look like municipality codes"),
+      sampleRows: z.number().int().min(1).max(MAX_PROFILED_ROWS).optional().default(5000).describe("Rows read"),
+      topValues: z.number().int().min(0).max(50).optional().default(DEFAULT_TOP_VALUES).describe("Most frequent values per column"),
+      maxIssues: z.number().int().min(0).max(1000).optional().default(MAX_REPORTED_CODE_ISSUES).describe("Issues listed per column"),
+      format: z.enum(["csv", "json", "jsonl", "geojson"]).optional().describe("Format (detected if omitted)"),
+      delimiter: z.string().length(1).optional().describe("CSV delimiter (detected if omitted)"),
+      header: z.boolean().optional().describe("Whether the CSV has a header row (detected if omitted)"),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1296,48 +4655,72 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ url }) => {
-    return executeTool("preview_distribution", { url }, async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
+  async ({ url, csv, validate, autoValidate, sampleRows, topValues, maxIssues, format, delimiter, header, curies, noCache }) => {
+    const args = { url, csv: csv === undefined ? undefined : `${csv.length} chars`, validate, autoValidate, sampleRows, topValues, maxIssues, format, delimiter, header, curies, noCache };
 
-      try {
-        const response = await fetch(url, { signal: controller.signal });
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          return {
-            success: false,
-            error: `Failed to fetch distribution: ${response.status} ${response.statusText}`,
-          };
-        }
-
-        const contentType = response.headers.get("content-type") || "";
-        const text = await response.text();
-
-        let preview = "";
+    return executeTool("profile_distribution", args, async () => {
+      if ((url === undefined) === (csv === undefined)) {
+        return {
+          success: false,
+          error: "Give either url or csv",
+          suggestion: "Pass the download URL of a distribution (explore_dataset lists them) or the CSV text itself",
+        };
+      }
 
-        if (contentType.includes("json") || url.endsWith(".json")) {
-          try {
-            const json = JSON.parse(text) as unknown;
-            const jsonObj = json as Record<string, unknown>;
-            const array = Array.isArray(json) ? json : (jsonObj.results || jsonObj.data || [json]);
-            preview = JSON.stringify((array as unknown[]).slice(0, 10), null, 2);
-          } catch {
-            preview = text.slice(0, 2000) + "\n... (truncated)";
-          }
-        } else {
-          const lines = text.split("\n").slice(0, 15);
-          preview = lines.join("\n");
-        }
+      let table: Table;
+      let dialect: Partial<DistributionDialect>;
+      try {
+        ({ table, dialect } = await readTableInput(url, csv, { maxRows: sampleRows, format, delimiter, header }));
+      } catch (err) {
+        return {
+          success: false,
+          error: `Cannot read the distribution: ${getErrorMessage(err)}`,
+          suggestion: "Check its content with preview_distribution",
+        };
+      }
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        return {
+          success: false,
+          error: "No rows found in the distribution",
+          suggestion: "Check the content with preview_distribution, or give format, delimiter or header",
+        };
+      }
 
+      const unknown = Object.keys(validate ?? {}).filter((column) => !table.headers.includes(column));
+      if (unknown.length > 0) {
         return {
-          success: true,
-          data: `Preview of ${url}:\n\n${preview}`,
+          success: false,
+          error: `Unknown columns in validate: ${unknown.join(", ")}`,
+          suggestion: `The columns are: ${table.headers.slice(0, 30).join(", ")}`,
         };
-      } finally {
-        clearTimeout(timeoutId);
       }
+      const scopes = new Map<string, CodeScope>(Object.entries(validate ?? {}).map(([column, target]) => [
+        column,
+        ["municipality", "province"].includes(target.trim().toLowerCase())
+          ? { kind: target.trim().toLowerCase() as "municipality" | "province" }
+          : { kind: "scheme", scheme: resolveUri(target) },
+      ]));
+
+      const columns = await Promise.all(table.headers.map(async (name, index) => {
+        const values = columnValues(table, index);
+        const profile = profileColumn(name, values);
+        const scope = scopes.get(name) ?? (autoValidate && profile.codes[0]?.kind === "istatMunicipality" ? { kind: "municipality" as const } : undefined);
+        return {
+          ...profile,
+          ...columnStatistics(values, profile.datatype, topValues),
+          ...(scope ? { validation: await validateColumn(values, scope, maxIssues) } : {}),
+        };
+      }));
+
+      return {
+        success: true,
+        data: {
+          dialect,
+          rowsProfiled: table.rows.length,
+          columns,
+        },
+        rowCount: columns.length,
+      };
     });
   }
 );
@@ -1356,6 +4739,8 @@ server.registerTool(
 - ontologyUri: (optional) URI of the ontology to filter by
 - propertyType: (optional) "object", "datatype", or "both" (default: "both")
 - limit: Maximum results (default: 50)
+- lang: (optional) Preferred label languages, best first (default: "it")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - List of properties with domain, range, and label
@@ -1364,9 +4749,13 @@ server.registerTool(
 - No args: All properties (top 50)
 - ontologyUri="https://w3id.org/italia/onto/CPV": Properties from CPV ontology`,
     inputSchema: {
-      ontologyUri: z.string().optional().describe("URI of ontology to filter by"),
+      ontologyUri: z.string().optional().describe("URI of ontology (or namespace CURIE like clv:) to filter by"),
       propertyType: z.enum(["object", "datatype", "both"]).optional().default("both"),
       limit: z.number().optional().default(50),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1375,7 +4764,8 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ ontologyUri, propertyType, limit }) => {
+  async ({ ontologyUri, propertyType, limit, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang) ?? ["it"];
     const typeFilter = propertyType === "object"
       ? "VALUES ?type { owl:ObjectProperty }"
       : propertyType === "datatype"
@@ -1383,7 +4773,7 @@ server.registerTool(
       : "VALUES ?type { owl:ObjectProperty owl:DatatypeProperty }";
 
     const uriFilter = ontologyUri
-      ? `FILTER(STRSTARTS(STR(?prop), "${sanitizeSparqlUri(ontologyUri)}"))`
+      ? `FILTER(STRSTARTS(STR(?prop), "${resolveUri(ontologyUri)}"))`
       : "";
 
     const query = `
@@ -1391,7 +4781,7 @@ server.registerTool(
       WHERE {
         ${typeFilter}
         ?prop a ?type .
-        OPTIONAL { ?prop rdfs:label ?label . FILTER(LANG(?label) = "it" || LANG(?label) = "") }
+        OPTIONAL { ?prop rdfs:label ?label . ${languageFilter("label", languages)} }
         OPTIONAL { ?prop rdfs:domain ?domain }
         OPTIONAL { ?prop rdfs:range ?range }
         ${uriFilter}
@@ -1399,7 +4789,10 @@ server.registerTool(
       ORDER BY ?prop
       LIMIT ${limit}
     `;
-    return executeSparqlTool("list_properties", { ontologyUri, propertyType, limit }, query);
+    return executeSparqlTool("list_properties", { ontologyUri, propertyType, limit, lang, literals, curies, noCache }, query, {
+      languages,
+      typedLiterals: literals === "typed",
+    });
   }
 );
 
@@ -1411,6 +4804,8 @@ server.registerTool(
 
 **Args:**
 - propertyUri: URI of the property
+- lang: (optional) Preferred label languages, best first (e.g. "it,en")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - type: ObjectProperty or DatatypeProperty
@@ -1422,7 +4817,11 @@ server.registerTool(
 - subPropertyOf: Parent property if defined
 - functional: Whether it's a FunctionalProperty`,
     inputSchema: {
-      propertyUri: z.string().describe("URI of the property to inspect"),
+      propertyUri: z.string().describe("URI or CURIE of the property to inspect"),
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1431,8 +4830,9 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ propertyUri }) => {
-    const safeUri = sanitizeSparqlUri(propertyUri);
+  async ({ propertyUri, lang, literals, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang);
+    const safeUri = resolveUri(propertyUri);
     const query = `
       SELECT ?p ?o
       WHERE {
@@ -1447,9 +4847,13 @@ server.registerTool(
           owl:inverseOf,
           owl:equivalentProperty
         ) || ?p = rdf:type && ?o IN (owl:FunctionalProperty, owl:InverseFunctionalProperty, owl:SymmetricProperty, owl:TransitiveProperty))
+        ${languageFilter("o", languages)}
       }
     `;
-    return executeSparqlTool("get_property_details", { propertyUri }, query);
+    return executeSparqlTool("get_property_details", { propertyUri, lang, literals, curies, noCache }, query, {
+      languages,
+      typedLiterals: literals === "typed",
+    });
   }
 );
 
@@ -1463,7 +4867,10 @@ server.registerTool(
 - schemeUri: URI of the ConceptScheme
 - limit: Items per page (default: 50)
 - offset: Items to skip (default: 0)
-- keyword: (optional) Filter by label
+- keyword: (optional) Filter by label, altLabel or notation; matches are then ranked by relevance instead of code
+- match: (optional) exact, prefix or contains for literal matching, regex to match labels with a pattern (sorted by code); omit for ranked search
+- lang: (optional) Preferred label languages, best first (default: "it")
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
 
 **Returns:**
 - concepts: List of concepts with code and label
@@ -1471,10 +4878,15 @@ server.registerTool(
 
 **Use for:** Large vocabularies that need pagination (e.g., ICD codes, municipalities)`,
     inputSchema: {
-      schemeUri: z.string().describe("URI of the ConceptScheme"),
+      schemeUri: z.string().describe("URI or CURIE of the ConceptScheme"),
       limit: z.number().optional().default(50),
       offset: z.number().optional().default(0),
       keyword: z.string().optional().describe("Optional keyword filter"),
+      match: searchMatchInput,
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1483,45 +4895,42 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ schemeUri, limit, offset, keyword }) => {
-    const safeSchemeUri = sanitizeSparqlUri(schemeUri);
-    const keywordFilter = keyword
-      ? `FILTER(REGEX(STR(?label), "${sanitizeSparqlString(keyword)}", "i"))`
-      : "";
-
-    const dataQuery = `
-      SELECT ?concept ?code ?label
-      WHERE {
-        ?concept skos:inScheme <${safeSchemeUri}> .
-        ?concept a skos:Concept .
-        OPTIONAL { ?concept skos:notation ?code }
-        OPTIONAL { ?concept skos:prefLabel|rdfs:label ?label . FILTER(LANG(?label) = "it" || LANG(?label) = "") }
-        ${keywordFilter}
-      }
-      ORDER BY ?code ?label
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-
-    const countQuery = `
-      SELECT (COUNT(?concept) AS ?total)
-      WHERE {
-        ?concept skos:inScheme <${safeSchemeUri}> .
-        ?concept a skos:Concept .
-        ${keyword ? `
-          ?concept skos:prefLabel|rdfs:label ?label .
-          FILTER(REGEX(STR(?label), "${sanitizeSparqlString(keyword)}", "i"))
-        ` : ""}
+  async ({ schemeUri, limit, offset, keyword, match, lang, literals, curies, noCache }) => {
+    const invalidKeyword = keywordError(keyword, match);
+    if (invalidKeyword) {
+      return executeTool("browse_vocabulary", { schemeUri, limit, offset, keyword, match, lang, literals, curies, noCache }, async () => invalidKeyword);
+    }
+    const languages = parseLanguagePreference(lang) ?? ["it"];
+    const safeSchemeUri = resolveUri(schemeUri);
+    const { dataQuery, countQuery } = browseVocabularyQueries(safeSchemeUri, limit, offset, keyword, match ?? "contains", languages);
+
+    return executeTool<unknown>("browse_vocabulary", { schemeUri, limit, offset, keyword, match, lang, literals, curies, noCache }, async () => {
+      const index = keyword && match !== "regex" ? getSearchIndex() : undefined;
+      if (keyword && index && match !== "regex") {
+        const found = index.search(keyword, { types: ["concept"], scheme: safeSchemeUri, languages, match, limit, offset });
+        const count = found.hits.length;
+        return {
+          success: true,
+          data: {
+            concepts: found.hits.map((hit) => searchHitRow(hit, literals === "typed", "concept")),
+            pagination: {
+              total: found.total,
+              count,
+              offset,
+              has_more: offset + count < found.total,
+              next_offset: offset + count < found.total ? offset + count : null,
+            },
+          },
+          rowCount: count,
+        };
       }
-    `;
 
-    return executeTool("browse_vocabulary", { schemeUri, limit, offset, keyword }, async () => {
       const [dataResult, countResult] = await Promise.all([
         executeSparql(dataQuery),
         executeSparql(countQuery),
       ]);
 
-      const concepts = compressSparqlResult(dataResult);
+      const concepts = compressSparqlResult(dataResult, { languages, typedLiterals: literals === "typed" });
       const count = dataResult.results?.bindings?.length ?? 0;
       const total = parseInt(countResult.results?.bindings?.[0]?.total?.value ?? "0", 10);
 
@@ -1543,6 +4952,113 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  "vocabulary_tree",
+  {
+    title: "Vocabulary Tree",
+    description: `Show the hierarchy of a SKOS vocabulary (skos:broader / skos:narrower / skos:hasTopConcept).
+
+Starts from the top concepts of a scheme, or from any concept, and expands the hierarchy
+to the requested depth. Collapsed nodes report how many children they have.
+With pathToRoot, returns the chain of broader concepts from the root down to the concept.
+
+**Args:**
+- schemeUri: (optional) URI of the ConceptScheme; starts from its top concepts and keeps the tree inside it
+- conceptUri: (optional) URI of the concept to start from (required for pathToRoot)
+- depth: Levels to expand below the starting nodes (default: 2, max: 6)
+- pathToRoot: (optional) Return the path from the root to conceptUri instead of the subtree
+- format: "json" (nested nodes, default) or "outline" (indented text)
+- maxNodes: Maximum nodes in the tree (default: 500, max: 5000)
+- lang: (optional) Preferred label languages, best first (default: "it")
+
+**Returns:**
+- tree (json) or outline: nodes with uri, code, label, children; childCount on collapsed nodes
+- nodeCount, complete (false when maxNodes cut the expansion)
+- For pathToRoot: path (root first) and otherParents for concepts with several broader concepts
+
+**Use for:** Hierarchical classifications such as ATECO or ICD, where browse_vocabulary's flat list is hard to read`,
+    inputSchema: {
+      schemeUri: z.string().optional().describe("URI or CURIE of the ConceptScheme"),
+      conceptUri: z.string().optional().describe("URI or CURIE of the concept to start from"),
+      depth: z.number().int().min(0).max(6).optional().default(2).describe("Levels to expand (max 6)"),
+      pathToRoot: z.boolean().optional().default(false).describe("Return the path from the root to conceptUri"),
+      format: z.enum(["json", "outline"]).optional().default("json").describe("Nested JSON or indented outline"),
+      maxNodes: z.number().int().positive().max(5000).optional().default(500),
+      lang: langInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ schemeUri, conceptUri, depth, pathToRoot, format, maxNodes, lang, curies, noCache }) => {
+    const languages = parseLanguagePreference(lang) ?? ["it"];
+    const safeSchemeUri = schemeUri ? resolveUri(schemeUri) : undefined;
+    const safeConceptUri = conceptUri ? resolveUri(conceptUri) : undefined;
+
+    return executeTool<unknown>("vocabulary_tree", { schemeUri, conceptUri, depth, pathToRoot, format, maxNodes, lang, curies, noCache }, async () => {
+      if (pathToRoot) {
+        if (!safeConceptUri) {
+          return { success: false, error: "pathToRoot requires conceptUri", suggestion: "Pass the concept whose ancestors you want" };
+        }
+        const { path, otherParents } = await skosPathToRoot(safeConceptUri, languages);
+        const tree = compactTree(pathToTree(path));
+        return {
+          success: true,
+          data: {
+            concept: compactForOutput(safeConceptUri),
+            depth: path.length - 1,
+            ...(format === "outline" ? { outline: renderOutline(tree) } : { path: path.map((node) => ({ ...node, uri: compactForOutput(node.uri) })) }),
+            ...(Object.keys(otherParents).length > 0
+              ? { otherParents: Object.fromEntries(Object.entries(otherParents).map(([uri, parents]) => [compactForOutput(uri), parents.map(compactForOutput)])) }
+              : {}),
+          },
+          rowCount: path.length,
+        };
+      }
+
+      let roots: NodeInfo[];
+      if (safeConceptUri) {
+        roots = await nodeInfos([safeConceptUri], skosDetails(languages), languages);
+      } else if (safeSchemeUri) {
+        roots = await skosTopConcepts(safeSchemeUri, languages, maxNodes);
+        if (roots.length === 0) {
+          return {
+            success: false,
+            error: `No concepts found in ${safeSchemeUri}`,
+            suggestion: "Check the ConceptScheme URI with list_vocabularies",
+          };
+        }
+      } else {
+        return {
+          success: false,
+          error: "Either schemeUri or conceptUri is required",
+          suggestion: "Use list_vocabularies to find a ConceptScheme, or search_in_vocabulary to find a concept",
+        };
+      }
+
+      const expanded = await expandTree(roots, depth, skosTreeSource(safeSchemeUri, languages), maxNodes);
+      const tree = compactTree(expanded.nodes);
+      return {
+        success: true,
+        data: {
+          ...(safeSchemeUri ? { scheme: compactForOutput(safeSchemeUri) } : {}),
+          ...(safeConceptUri ? { root: compactForOutput(safeConceptUri) } : {}),
+          depth,
+          nodeCount: expanded.nodeCount,
+          complete: expanded.complete,
+          ...(format === "outline" ? { outline: renderOutline(tree) } : { tree }),
+        },
+        rowCount: expanded.nodeCount,
+      };
+    });
+  }
+);
+
 server.registerTool(
   "describe_resource",
   {
@@ -1552,14 +5068,17 @@ server.registerTool(
 **Args:**
 - uri: URI of the resource
 - depth: 1 for direct properties only, 2 to include linked resources (default: 1)
+- format: (optional) "turtle", "ntriples" or "jsonld" (default: "turtle")
 
 **Returns:**
-- All properties and values of the resource
+- { format, tripleCount, content }: the resource's triples, blank nodes expanded, in the requested format
 
 **Use when:** You need the complete RDF description of a specific resource.`,
     inputSchema: {
-      uri: z.string().describe("URI of the resource"),
+      uri: z.string().describe("URI or CURIE (e.g. clv:City) of the resource"),
       depth: z.number().optional().default(1).describe("1 for direct, 2 for linked resources"),
+      format: graphFormatInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1568,32 +5087,51 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ uri, depth }) => {
-    const safeUri = sanitizeSparqlUri(uri);
-
-    let query: string;
-    if (depth === 2) {
-      query = `
-        SELECT ?p ?o ?p2 ?o2
-        WHERE {
-          <${safeUri}> ?p ?o .
-          OPTIONAL {
-            FILTER(ISURI(?o))
+  async ({ uri, depth, format, noCache }) => {
+    return executeTool("describe_resource", { uri, depth, format, noCache }, async () => {
+      const safeUri = resolveUri(uri);
+
+      // Blank nodes are part of the CBD: follow them so they are not left dangling
+      let query: string;
+      if (depth === 2) {
+        query = `
+          CONSTRUCT {
+            <${safeUri}> ?p ?o .
+            ?o ?bp ?bo .
             ?o ?p2 ?o2 .
           }
-        }
-        LIMIT 200
-      `;
-    } else {
-      query = `
-        SELECT ?p ?o
-        WHERE {
-          <${safeUri}> ?p ?o .
-        }
-        LIMIT 100
-      `;
-    }
-    return executeSparqlTool("describe_resource", { uri, depth }, query);
+          WHERE {
+            <${safeUri}> ?p ?o .
+            OPTIONAL { FILTER(ISBLANK(?o)) ?o ?bp ?bo . }
+            OPTIONAL { FILTER(ISURI(?o)) ?o ?p2 ?o2 . }
+          }
+          LIMIT 200
+        `;
+      } else {
+        query = `
+          CONSTRUCT {
+            <${safeUri}> ?p ?o .
+            ?o ?bp ?bo .
+          }
+          WHERE {
+            <${safeUri}> ?p ?o .
+            OPTIONAL { FILTER(ISBLANK(?o)) ?o ?bp ?bo . }
+          }
+          LIMIT 100
+        `;
+      }
+
+      const quads = await executeSparqlGraph(query);
+      if (quads.length === 0) {
+        return {
+          success: false,
+          error: `No triples found for <${uri}>`,
+          suggestion: "Check the URI, or use search_concepts to find the right resource",
+        };
+      }
+      const graph = await serializeGraph(quads, format, PREFIX_MAP);
+      return { success: true, data: graph, rowCount: graph.tripleCount };
+    });
   }
 );
 
@@ -1772,6 +5310,7 @@ server.registerTool(
 - limit: Items per page (default: 50, max: 500)
 - offset: Items to skip (default: 0)
 - keyword: (optional) Filter by name (case-insensitive)
+- match: (optional) exact, prefix, contains (default) or regex
 - withBelfiore: (optional) If true, include Belfiore/cadastral codes via URI extraction (slower)
 
 **Returns:**
@@ -1784,7 +5323,10 @@ Each ISTAT code may appear with multiple historical names; results are deduplica
       limit: z.number().optional().default(50).describe("Items per page (max 500)"),
       offset: z.number().optional().default(0).describe("Items to skip"),
       keyword: z.string().optional().describe("Filter by municipality name"),
+      match: matchInput,
       withBelfiore: z.boolean().optional().default(false).describe("Include Belfiore/cadastral codes"),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1793,11 +5335,13 @@ Each ISTAT code may appear with multiple historical names; results are deduplica
       openWorldHint: true,
     },
   },
-  async ({ limit, offset, keyword, withBelfiore }) => {
+  async ({ limit, offset, keyword, match, withBelfiore, curies, noCache }) => {
     const safeLimit = Math.min(limit, 500);
-    const keywordFilter = keyword
-      ? `FILTER(REGEX(?name, "${sanitizeSparqlString(keyword)}", "i"))`
-      : "";
+    const invalidKeyword = keywordError(keyword, match);
+    if (invalidKeyword) {
+      return executeTool("list_municipalities", { limit: safeLimit, offset, keyword, match, withBelfiore, curies, noCache }, async () => invalidKeyword);
+    }
+    const nameFilter = keyword ? keywordFilter("name", keyword, match) : "";
 
     if (withBelfiore) {
       // Two parallel queries: names + Belfiore codes, joined client-side
@@ -1807,7 +5351,7 @@ Each ISTAT code may appear with multiple historical names; results are deduplica
           ?city a clv:City ;
                 skos:notation ?notation ;
                 l0:name ?name .
-          ${keywordFilter}
+          ${nameFilter}
         }
         ORDER BY ?notation
         LIMIT ${safeLimit}
@@ -1829,11 +5373,11 @@ Each ISTAT code may appear with multiple historical names; results are deduplica
         SELECT (COUNT(DISTINCT ?notation) AS ?total)
         WHERE {
           ?city a clv:City ; skos:notation ?notation .
-          ${keyword ? `?city l0:name ?name . ${keywordFilter}` : ""}
+          ${keyword ? `?city l0:name ?name . ${nameFilter}` : ""}
         }
       `;
 
-      return executeTool("list_municipalities", { limit: safeLimit, offset, keyword, withBelfiore }, async () => {
+      return executeTool("list_municipalities", { limit: safeLimit, offset, keyword, match, withBelfiore, curies, noCache }, async () => {
         const [namesResult, belfioreResult, countResult] = await Promise.all([
           executeSparql(namesQuery),
           executeSparql(belfioreQuery),
@@ -1890,7 +5434,7 @@ Each ISTAT code may appear with multiple historical names; results are deduplica
         ?city a clv:City ;
               skos:notation ?notation ;
               l0:name ?name .
-        ${keywordFilter}
+        ${nameFilter}
       }
       ORDER BY ?notation
       LIMIT ${safeLimit}
@@ -1900,11 +5444,11 @@ Each ISTAT code may appear with multiple historical names; results are deduplica
       SELECT (COUNT(DISTINCT ?notation) AS ?total)
       WHERE {
         ?city a clv:City ; skos:notation ?notation .
-        ${keyword ? `?city l0:name ?name . ${keywordFilter}` : ""}
+        ${keyword ? `?city l0:name ?name . ${nameFilter}` : ""}
       }
     `;
 
-    return executeTool("list_municipalities", { limit: safeLimit, offset, keyword, withBelfiore }, async () => {
+    return executeTool("list_municipalities", { limit: safeLimit, offset, keyword, match, withBelfiore, curies, noCache }, async () => {
       const [dataResult, countResult] = await Promise.all([
         executeSparql(dataQuery),
         executeSparql(countQuery),
@@ -1935,6 +5479,7 @@ server.registerTool(
 
 **Args:**
 - keyword: (optional) Filter by province name (case-insensitive)
+- match: (optional) exact, prefix, contains (default) or regex
 
 **Returns:**
 - List of provinces with notation (ISTAT code), name, sigla (car plate), and metro code (if metropolitan city)
@@ -1943,6 +5488,8 @@ server.registerTool(
 There are ~107 provinces, 14 of which are metropolitan cities.`,
     inputSchema: {
       keyword: z.string().optional().describe("Filter by province name"),
+      match: matchInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -1951,10 +5498,11 @@ There are ~107 provinces, 14 of which are metropolitan cities.`,
       openWorldHint: true,
     },
   },
-  async ({ keyword }) => {
-    const keywordFilter = keyword
-      ? `FILTER(REGEX(?name, "${sanitizeSparqlString(keyword)}", "i"))`
-      : "";
+  async ({ keyword, match, noCache }) => {
+    const invalidKeyword = keywordError(keyword, match);
+    if (invalidKeyword) return executeTool("list_provinces", { keyword, match, noCache }, async () => invalidKeyword);
+
+    const nameFilter = keyword ? keywordFilter("name", keyword, match) : "";
 
     const namesQuery = `
       SELECT DISTINCT ?notation ?name
@@ -1962,7 +5510,7 @@ There are ~107 provinces, 14 of which are metropolitan cities.`,
         ?prov a clv:Province ;
               skos:notation ?notation ;
               l0:name ?name .
-        ${keywordFilter}
+        ${nameFilter}
       }
       ORDER BY ?notation
     `;
@@ -1987,7 +5535,7 @@ There are ~107 provinces, 14 of which are metropolitan cities.`,
       ORDER BY ?notation
     `;
 
-    return executeTool("list_provinces", { keyword }, async () => {
+    return executeTool("list_provinces", { keyword, match, noCache }, async () => {
       const [namesResult, siglaResult, metroResult] = await Promise.all([
         executeSparql(namesQuery),
         executeSparql(siglaQuery),
@@ -2059,6 +5607,8 @@ server.registerTool(
     inputSchema: {
       identifierType: z.string().optional().describe('Filter by type (e.g. "Codice Catastale")'),
       limit: z.number().optional().default(20).describe("Maximum results"),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -2067,7 +5617,7 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ identifierType, limit }) => {
+  async ({ identifierType, limit, curies, noCache }) => {
     if (!identifierType) {
       // Summary mode: count by type
       const query = `
@@ -2079,7 +5629,7 @@ server.registerTool(
         GROUP BY ?type
         ORDER BY DESC(?count)
       `;
-      return executeSparqlTool("list_identifiers", { identifierType, limit }, query);
+      return executeSparqlTool("list_identifiers", { identifierType, limit, curies, noCache }, query);
     }
 
     // Detail mode: sample identifiers of specific type
@@ -2094,7 +5644,7 @@ server.registerTool(
       }
       LIMIT ${limit}
     `;
-    return executeSparqlTool("list_identifiers", { identifierType, limit }, query);
+    return executeSparqlTool("list_identifiers", { identifierType, limit, curies, noCache }, query);
   }
 );
 
@@ -2161,7 +5711,10 @@ server.registerTool(
 - List of data services with endpoint URL, title, description, and conformsTo standard
 
 **Use when:** Exploring what external SPARQL endpoints are connected to the Italian PA semantic catalog.`,
-    inputSchema: {},
+    inputSchema: {
+      curies: curiesInput,
+      noCache: noCacheInput,
+    },
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -2169,7 +5722,7 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async () => {
+  async ({ curies, noCache }) => {
     const query = `
       SELECT ?service ?endpointURL ?title ?description ?conformsTo
       WHERE {
@@ -2180,7 +5733,7 @@ server.registerTool(
         OPTIONAL { ?service dct:conformsTo ?conformsTo }
       }
     `;
-    return executeSparqlTool("list_linked_endpoints", {}, query);
+    return executeSparqlTool("list_linked_endpoints", { curies, noCache }, query);
   }
 );
 
@@ -2194,11 +5747,18 @@ server.registerTool(
 - endpointUrl: URL of the target SPARQL endpoint (must be HTTPS)
 - query: SPARQL query to execute
 - injectPrefixes: Whether to inject schema.gov.it standard prefixes (default: false)
+- format: (optional) Output of CONSTRUCT/DESCRIBE queries: "turtle", "ntriples" or "jsonld" (default: "turtle")
+- lang: (optional) Preferred languages, best first (e.g. "it,en"): rows differing only by a literal's language keep the best match
+- literals: (optional) "plain" or "typed" to keep language tags and datatypes (default: "plain")
+- curies: (optional) Compact URIs into CURIEs, returning the prefix map once (default: false)
+- noCache: (optional) Bypass the result cache (default: false)
 
 **Returns:**
-- Compressed SPARQL results in the same format as internal tools
+- Compressed SPARQL results in the same format as internal tools (a boolean for ASK, a serialized graph for CONSTRUCT/DESCRIBE)
 
-**Security:** Only HTTPS endpoints are allowed. Requests timeout after 15 seconds.
+**Security:** Only HTTPS endpoints are allowed. Requests timeout after ${EXTERNAL_TIMEOUT_MS / 1000} seconds.
+Read-only: SPARQL Update is rejected, and SERVICE is only allowed toward configured endpoints.
+The query is parsed locally first: syntax errors (with line/column), undeclared prefixes and unbound projected variables are reported without contacting the endpoint.
 
 **Examples:**
 - Query DBpedia: endpointUrl="https://dbpedia.org/sparql"
@@ -2207,6 +5767,11 @@ server.registerTool(
       endpointUrl: z.string().describe("URL of the target SPARQL endpoint (HTTPS required)"),
       query: z.string().describe("SPARQL query to execute"),
       injectPrefixes: z.boolean().optional().default(false).describe("Whether to inject schema.gov.it standard prefixes (rdf, rdfs, owl, skos, dct...)"),
+      format: graphFormatInput,
+      lang: langInput,
+      literals: literalsInput,
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -2215,13 +5780,13 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ endpointUrl, query, injectPrefixes }) => {
-    return executeTool("query_external_endpoint", { endpointUrl, query, injectPrefixes }, async () => {
+  async ({ endpointUrl, query, injectPrefixes, format, lang, literals, curies, noCache }) => {
+    return executeTool("query_external_endpoint", { endpointUrl, query, injectPrefixes, format, lang, literals, curies, noCache }, async () => {
       const safeEndpoint = sanitizeSparqlUri(endpointUrl);
-      const result = await executeSparql(query, safeEndpoint, injectPrefixes ?? false, 15000);
-      const rowCount = result.results?.bindings?.length ?? 0;
-      const compressed = compressSparqlResult(result);
-      return { success: true, data: compressed, rowCount };
+      return runRawQuery(query, safeEndpoint, injectPrefixes ?? false, EXTERNAL_TIMEOUT_MS, format, {
+        languages: parseLanguagePreference(lang),
+        typedLiterals: literals === "typed",
+      });
     });
   }
 );
@@ -2248,7 +5813,8 @@ server.registerTool(
 
 **Use when:** Understanding how a local concept maps to external systems (Eurostat, DBpedia, EU Publications Office, etc.)`,
     inputSchema: {
-      uri: z.string().describe("URI of the concept in schema.gov.it"),
+      uri: z.string().describe("URI or CURIE of the concept in schema.gov.it"),
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -2257,9 +5823,9 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ uri }) => {
-    return executeTool("find_external_alignments", { uri }, async () => {
-      const safeUri = sanitizeSparqlUri(uri);
+  async ({ uri, noCache }) => {
+    return executeTool("find_external_alignments", { uri, noCache }, async () => {
+      const safeUri = resolveUri(uri);
       const query = `
         SELECT DISTINCT ?target ?relation
         WHERE {
@@ -2330,12 +5896,14 @@ server.registerTool(
 **Returns:**
 - List of classes with instance counts, ordered by count descending
 
-**Security:** Only HTTPS endpoints are allowed. Requests timeout after 15 seconds.
+**Security:** Only HTTPS endpoints are allowed. Requests timeout after ${EXTERNAL_TIMEOUT_MS / 1000} seconds.
 
 **Use when:** Getting a quick overview of what data an external endpoint contains before writing detailed queries.`,
     inputSchema: {
       endpointUrl: z.string().describe("URL of the SPARQL endpoint to explore (HTTPS required)"),
       limit: z.number().optional().default(20).describe("Maximum number of classes to return"),
+      curies: curiesInput,
+      noCache: noCacheInput,
     },
     annotations: {
       readOnlyHint: true,
@@ -2344,8 +5912,8 @@ server.registerTool(
       openWorldHint: true,
     },
   },
-  async ({ endpointUrl, limit }) => {
-    return executeTool("explore_external_endpoint", { endpointUrl, limit }, async () => {
+  async ({ endpointUrl, limit, curies, noCache }) => {
+    return executeTool("explore_external_endpoint", { endpointUrl, limit, curies, noCache }, async () => {
       const safeEndpoint = sanitizeSparqlUri(endpointUrl);
       const query = `
         SELECT ?class (COUNT(?s) AS ?count)
@@ -2354,7 +5922,7 @@ server.registerTool(
         ORDER BY DESC(?count)
         LIMIT ${limit}
       `;
-      const result = await executeSparql(query, safeEndpoint, false, 15000);
+      const result = await executeSparql(query, safeEndpoint, false, EXTERNAL_TIMEOUT_MS);
       const rowCount = result.results?.bindings?.length ?? 0;
       const compressed = compressSparqlResult(result);
       return { success: true, data: compressed, rowCount };
@@ -2362,6 +5930,312 @@ server.registerTool(
   }
 );
 
+// =============================================================================
+// GROUP K: Cache Tools
+// =============================================================================
+
+server.registerTool(
+  "cache_stats",
+  {
+    title: "Cache Statistics",
+    description: `Show the state of the SPARQL result cache.
+
+**Args:** None
+
+**Returns:**
+- entries / maxEntries: Cached results in memory and LRU capacity
+- ttlSeconds / externalTtlSeconds: Time-to-live for schema.gov.it and external endpoints
+- persistent / persistDir: Whether results are also stored on disk
+- hits, diskHits, misses, coalesced, bypassed, evictions, hitRate: Counters since startup
+
+**Note:** The cache is shared by all sessions of this server process.`,
+    inputSchema: {},
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  async () => {
+    return executeTool("cache_stats", {}, async () => {
+      return { success: true, data: sparqlCache.stats() };
+    });
+  }
+);
+
+server.registerTool(
+  "cache_clear",
+  {
+    title: "Clear Cache",
+    description: `Remove cached SPARQL results so the next queries fetch fresh data.
+
+**Args:**
+- endpointUrl: (optional) Only clear results of this endpoint (default: all endpoints)
+
+**Returns:**
+- removed: Number of cache entries removed (memory and disk)
+
+**Use when:** The catalog was just updated, or a single query should rather use the noCache argument.`,
+    inputSchema: {
+      endpointUrl: z.string().optional().describe("Only clear results cached for this endpoint URL"),
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  async ({ endpointUrl }) => {
+    return executeTool("cache_clear", { endpointUrl }, async () => {
+      const removed = await sparqlCache.clear(endpointUrl);
+      return { success: true, data: { removed, endpointUrl: endpointUrl ?? "all" } };
+    });
+  }
+);
+
+// =============================================================================
+// GROUP L: Result Cursors
+// =============================================================================
+
+server.registerTool(
+  "fetch_more",
+  {
+    title: "Fetch More Results",
+    description: `Continue a truncated result from its cursor, without re-running the query.
+
+**Args:**
+- cursor: The _cursor value of a truncated response
+
+**Returns:**
+- The next rows (or lines, for Turtle/N-Triples text) in the same shape as the original list
+- If the remainder is still too large, it is truncated again with a new _cursor
+
+**Note:** Each cursor can be used once and expires after 15 minutes.`,
+    inputSchema: {
+      cursor: z.string().describe("The _cursor value returned by a truncated response"),
+    },
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  async ({ cursor }) => {
+    return executeTool("fetch_more", { cursor }, async () => {
+      const pending = cursorStore.take(cursor);
+      if (!pending) {
+        return {
+          success: false,
+          error: "Unknown or expired cursor",
+          suggestion: "Cursors can be used once and expire after 15 minutes: re-run the original tool to get a new one",
+        };
+      }
+      return { success: true, data: pendingToData(pending), rowCount: pending.rows.length };
+    });
+  }
+);
+
+// =============================================================================
+// RESOURCES
+// =============================================================================
+
+/** Label languages used for resource names and contents */
+const RESOURCE_LANGUAGES = ["it", "en"];
+
+// Subscriptions: the catalog monitor sends notifications/resources/updated for the subscribed URIs
+const subscriber = { server, uris: new Set<string>() };
+server.server.registerCapabilities({ resources: { subscribe: true } });
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  subscriber.uris.add(normalizeResourceUri(request.params.uri));
+  resourceSubscribers.add(subscriber);
+  return {};
+});
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriber.uris.delete(normalizeResourceUri(request.params.uri));
+  if (subscriber.uris.size === 0) resourceSubscribers.delete(subscriber);
+  return {};
+});
+server.server.onclose = () => {
+  resourceSubscribers.delete(subscriber);
+};
+
+/** Maximum number of artifacts listed per resource template */
+const RESOURCE_LIST_LIMIT = 200;
+
+/** Run a listing query and return one { uri, label } entry per artifact, best label first */
+async function listCatalogEntries(query: string, idVariable: string): Promise<{ uri: string; label?: string }[]> {
+  const result = await executeSparql(query);
+  const bindings = preferLanguages(result.results?.bindings ?? [], RESOURCE_LANGUAGES);
+  const entries = new Map<string, { uri: string; label?: string }>();
+  for (const binding of bindings) {
+    const uri = binding[idVariable]?.value;
+    if (!uri || entries.has(uri)) continue;
+    const label = binding.label?.value;
+    entries.set(uri, label ? { uri, label } : { uri });
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Expose one kind of catalog artifact as a resource template schemagovit://{kind}/{uri}.
+ * The {uri} part is the artifact URI (or a CURIE), either as is or percent-encoded.
+ */
+function registerCatalogResource(
+  kind: string,
+  title: string,
+  description: string,
+  listing: { query: string; idVariable: string },
+  read: (safeUri: string) => Promise<unknown>
+): void {
+  const list = () => listCatalogEntries(listing.query, listing.idVariable);
+
+  server.registerResource(
+    kind,
+    new ResourceTemplate(`schemagovit://${kind}/{+uri}`, {
+      list: async () => ({
+        resources: (await list()).map((entry) => ({
+          uri: `schemagovit://${kind}/${entry.uri}`,
+          name: entry.label ?? entry.uri,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        uri: async (value) => {
+          const needle = value.toLowerCase();
+          return (await list())
+            .filter((entry) => entry.uri.toLowerCase().includes(needle) || entry.label?.toLowerCase().includes(needle))
+            .slice(0, 50)
+            .map((entry) => entry.uri);
+        },
+      },
+    }),
+    { title, description, mimeType: "application/json" },
+    async (uri, variables) => {
+      const raw = Array.isArray(variables.uri) ? variables.uri.join(",") : variables.uri ?? "";
+      const value = /^https?:\/\//.test(raw) ? raw : decodeURIComponent(raw);
+      const data = await read(resolveUri(value));
+      await logUsage(`resource:${kind}`, { uri: value }, "Success");
+
+      // Same row-aware limit as tools: the remainder is reachable through fetch_more
+      const { output } = truncateToLimit(data, CHARACTER_LIMIT, cursorStore, `resource:${kind}`);
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(output) }],
+      };
+    }
+  );
+}
+
+registerCatalogResource(
+  "ontology",
+  "Ontology",
+  "Classes and properties defined in a schema.gov.it ontology (as explore_ontology)",
+  { query: listOntologiesQuery(RESOURCE_LIST_LIMIT, RESOURCE_LANGUAGES), idVariable: "ont" },
+  async (safeUri) => {
+    const result = await executeSparql(exploreOntologyQuery(safeUri, RESOURCE_LANGUAGES));
+    return { ontology: safeUri, items: compressSparqlResult(result, { languages: RESOURCE_LANGUAGES }) };
+  }
+);
+
+registerCatalogResource(
+  "vocabulary",
+  "Controlled Vocabulary",
+  "Concepts of a controlled vocabulary (ConceptScheme) with codes and labels (as browse_vocabulary)",
+  { query: listVocabulariesQuery(RESOURCE_LIST_LIMIT, RESOURCE_LANGUAGES), idVariable: "scheme" },
+  async (safeUri) => {
+    const { dataQuery, countQuery } = browseVocabularyQueries(safeUri, 1000, 0, undefined, "contains", RESOURCE_LANGUAGES);
+    const [dataResult, countResult] = await Promise.all([
+      executeSparql(dataQuery),
+      executeSparql(countQuery),
+    ]);
+    return {
+      vocabulary: safeUri,
+      total: parseInt(countResult.results?.bindings?.[0]?.total?.value ?? "0", 10),
+      concepts: compressSparqlResult(dataResult, { languages: RESOURCE_LANGUAGES }),
+    };
+  }
+);
+
+registerCatalogResource(
+  "dataset",
+  "Dataset",
+  "Metadata and distributions of a catalog dataset (as explore_dataset)",
+  { query: listDatasetsQueries(RESOURCE_LIST_LIMIT, 0, RESOURCE_LANGUAGES).dataQuery, idVariable: "dataset" },
+  async (safeUri) => {
+    const { metadataQuery, distQuery } = exploreDatasetQueries(safeUri, RESOURCE_LANGUAGES);
+    const [details, distributions] = await Promise.all([
+      executeSparql(metadataQuery),
+      executeSparql(distQuery),
+    ]);
+    return {
+      dataset: safeUri,
+      metadata: compressSparqlResult(details, { languages: RESOURCE_LANGUAGES }),
+      distributions: compressSparqlResult(distributions),
+    };
+  }
+);
+
+server.registerResource(
+  "export",
+  new ResourceTemplate("schemagovit://export/{id}", {
+    list: async () => ({
+      resources: exportStore.list().map((entry) => ({
+        uri: `schemagovit://export/${entry.id}`,
+        name: entry.name,
+        mimeType: entry.mimeType,
+      })),
+    }),
+  }),
+  {
+    title: "Vocabulary Export",
+    description: "Files generated by export_vocabulary, kept for one hour",
+  },
+  async (uri, variables) => {
+    const id = Array.isArray(variables.id) ? variables.id.join(",") : variables.id ?? "";
+    const file = exportStore.get(id);
+    if (!file) {
+      throw new Error(`Unknown or expired export ${id}. Run export_vocabulary again`);
+    }
+    await logUsage("resource:export", { id }, "Success");
+    // Exports are meant to be complete files: no truncation
+    return { contents: [{ uri: uri.href, mimeType: file.mimeType, text: file.content }] };
+  }
+);
+
+server.registerResource(
+  "catalog-changes",
+  CATALOG_CHANGES_RESOURCE,
+  {
+    title: "Catalog Changes",
+    description: "Changes of the schema.gov.it catalog found by the monitor in the last 7 days (as catalog_changes); subscribe to be notified of new ones",
+    mimeType: "application/json",
+  },
+  async (uri) => {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const data = { since: since.toISOString(), monitor: await catalogHistory.info(), changes: await catalogHistory.changesSince(since) };
+    await logUsage("resource:catalog-changes", {}, "Success");
+    const { output } = truncateToLimit(data, CHARACTER_LIMIT, cursorStore, "resource:catalog-changes");
+    return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(output) }] };
+  }
+);
+
+// =============================================================================
+// PROMPTS
+// =============================================================================
+
+for (const prompt of WORKFLOW_PROMPTS) {
+  server.registerPrompt(
+    prompt.name,
+    { title: prompt.title, description: prompt.description, argsSchema: prompt.argsSchema },
+    (args: Record<string, string | undefined>) => ({
+      description: prompt.description,
+      messages: [{ role: "user" as const, content: { type: "text" as const, text: prompt.build(args) } }],
+    })
+  );
+}
+
   return server;
 }
 
@@ -2369,10 +6243,22 @@ async function main() {
   console.error("[Startup] Schema.gov.it MCP Server initializing...");
   console.error("[Startup] Node version:", process.version);
   console.error("[Startup] Working directory:", process.cwd());
+  console.error("[Startup] Configuration:", CONFIG.source ?? "built-in defaults");
+  console.error("[Startup] Endpoint:", CONFIG.profile ? `${ENDPOINT} (profile "${CONFIG.profile}")` : ENDPOINT);
 
   // Ensure log directory exists
   mkdirSync(LOG_DIR, { recursive: true });
 
+  // Offline snapshot mode: load the local dump before accepting any request
+  if (SNAPSHOT_PATH) {
+    console.error("[Startup] Loading offline snapshot from", SNAPSHOT_PATH);
+    snapshot = await loadSnapshot(SNAPSHOT_PATH);
+    for (const file of snapshot.info.files) {
+      console.error(`[Startup]   ${file.file} (${file.format}): ${file.quads} quads`);
+    }
+    console.error(`[Startup] ✓ Snapshot loaded: ${snapshot.info.quads} quads, schema.gov.it queries will be answered offline`);
+  }
+
   // Support both stdio (default) and HTTP/SSE modes
   const transportMode = process.env.MCP_TRANSPORT || 'stdio';
   console.error("[Startup] Transport mode:", transportMode);
@@ -2384,6 +6270,9 @@ async function main() {
     const HOST = process.env.HOST || '0.0.0.0';
     console.error(`[Startup] Will listen on ${HOST}:${PORT}`);
 
+    // Long-lived server: record catalog changes without waiting for the first session
+    startCatalogMonitor(CONFIG);
+
     // Session tracking: map session IDs to their transport + server
     const sessions = new Map<string, { server: McpServer; transport: StreamableHTTPServerTransport }>();
 
@@ -2409,7 +6298,14 @@ async function main() {
       // Health check endpoint
       if (url.pathname === '/health') {
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ status: 'ok', service: 'schema-gov-it-mcp', sessions: sessions.size }));
+        res.end(JSON.stringify({
+          status: 'ok',
+          service: 'schema-gov-it-mcp',
+          sessions: sessions.size,
+          mode: snapshot ? 'snapshot' : 'live',
+          ...(snapshot ? { snapshot: { quads: snapshot.info.quads, loadedAt: snapshot.info.loadedAt } } : {}),
+          ...(searchIndex ? { searchIndex: searchIndex.info } : {}),
+        }));
         return;
       }
 
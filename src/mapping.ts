@@ -0,0 +1,333 @@
+import { DataFactory } from "n3";
+import type { Quad, Quad_Object, Quad_Subject } from "n3";
+
+const { blankNode, literal, namedNode, quad } = DataFactory;
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** A JSON record: field values are scalars, arrays or nested records */
+export type JsonRecord = Record<string, unknown>;
+
+/** Scalar values of a record, by dotted field path ("address.city") */
+export type FlatRecord = Map<string, (string | number | boolean)[]>;
+
+/** A property that fields can be matched to, with the names it is known by */
+export interface MatchCandidate {
+  uri: string;
+  /** Local name, labels in any language, ... */
+  names: string[];
+}
+
+/** A field matched to a property by name similarity */
+export interface FieldMatch {
+  field: string;
+  property: string;
+  /** Similarity between 0 and 1 */
+  score: number;
+  /** The property name that matched best */
+  matchedName: string;
+}
+
+/** How the value of a mapped field becomes an RDF object */
+export interface ValueTarget {
+  /** "literal" for datatype properties, "resource" for object properties */
+  kind: "literal" | "resource";
+  /** XSD datatype of literals (none for plain strings) */
+  datatype?: string;
+}
+
+/** A field mapped to a property path: one or more properties, intermediate nodes are shared within a record */
+export interface FieldMapping {
+  field: string;
+  path: string[];
+  target: ValueTarget;
+}
+
+/** A value that could not be turned into an RDF term */
+export interface RejectedValue {
+  field: string;
+  value: string;
+  reason: string;
+}
+
+/** Options of recordsToQuads */
+export interface RecordConversion {
+  classUri: string;
+  mappings: FieldMapping[];
+  /** rdf:type of the intermediate node created for a path prefix ("p1", "p1 p2", ...) */
+  intermediateTypes: Map<string, string>;
+  /** IRI template with {field} placeholders and {index}; blank nodes without it */
+  idTemplate?: string;
+  /** Resolve a non-IRI value of a resource field to a URI (undefined to reject it, with the reason) */
+  resolve: (field: string, value: string) => { uri?: string; reason?: string };
+  /** Language tag for plain string literals */
+  language?: string;
+  /** Namespaces of the prefixes accepted in CURIE values and IRI templates (e.g. clv:City) */
+  prefixes?: Record<string, string>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+
+/** Words ignored when comparing names (Italian and English) */
+const STOPWORDS = new Set([
+  "a", "al", "da", "de", "del", "della", "dei", "delle", "di", "e", "il", "la", "le", "lo", "gli",
+  "the", "of", "and", "has", "ha", "is", "è", "per", "for", "in",
+]);
+
+/** Lexical checks of the XSD datatypes most used in OntoPiA */
+const XSD_PATTERNS: Record<string, RegExp> = {
+  integer: /^[+-]?\d+$/,
+  int: /^[+-]?\d+$/,
+  long: /^[+-]?\d+$/,
+  nonNegativeInteger: /^\+?\d+$/,
+  positiveInteger: /^\+?0*[1-9]\d*$/,
+  decimal: /^[+-]?(\d+(\.\d*)?|\.\d+)$/,
+  float: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|INF|-INF|NaN)$/,
+  double: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|INF|-INF|NaN)$/,
+  boolean: /^(true|false|1|0)$/,
+  date: /^-?\d{4}-\d{2}-\d{2}(Z|[+-]\d{2}:\d{2})?$/,
+  dateTime: /^-?\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+  gYear: /^-?\d{4}(Z|[+-]\d{2}:\d{2})?$/,
+  gYearMonth: /^-?\d{4}-\d{2}(Z|[+-]\d{2}:\d{2})?$/,
+  anyURI: /^\S+$/,
+};
+
+// =============================================================================
+// NAME MATCHING
+// =============================================================================
+
+/** Words of a field or property name: camelCase, snake_case and kebab-case split, lowercased, without accents and stopwords */
+export function nameTokens(name: string): string[] {
+  return name
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== "" && !STOPWORDS.has(token));
+}
+
+/** Character bigrams of a word */
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+}
+
+/** Dice coefficient between two lists (multiset intersection) */
+function dice(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const item of a) counts.set(item, (counts.get(item) ?? 0) + 1);
+  let shared = 0;
+  for (const item of b) {
+    const count = counts.get(item) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(item, count - 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * Similarity of two names between 0 and 1: the best of word overlap and of character
+ * bigram overlap of the joined words (which tolerates abbreviations and typos)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const joinedA = tokensA.join("");
+  const joinedB = tokensB.join("");
+  if (joinedA === joinedB) return 1;
+  return Math.max(dice(tokensA, tokensB), dice(bigrams(joinedA), bigrams(joinedB)));
+}
+
+/**
+ * Match fields to properties by name, best pairs first: each field gets at most one property
+ * and each property at most one field. Pairs below `threshold` are left out.
+ */
+export function matchFields(fields: string[], candidates: MatchCandidate[], threshold: number): FieldMatch[] {
+  const pairs: FieldMatch[] = [];
+  for (const field of fields) {
+    // For "address.city" the last segment says most
+    const fieldName = field.split(".").pop() ?? field;
+    for (const candidate of candidates) {
+      let best = { score: 0, name: "" };
+      for (const name of candidate.names) {
+        const score = Math.max(nameSimilarity(fieldName, name), field !== fieldName ? nameSimilarity(field, name) : 0);
+        if (score > best.score) best = { score, name };
+      }
+      if (best.score >= threshold) pairs.push({ field, property: candidate.uri, score: best.score, matchedName: best.name });
+    }
+  }
+
+  pairs.sort((a, b) => b.score - a.score || a.field.localeCompare(b.field));
+  const usedFields = new Set<string>();
+  const usedProperties = new Set<string>();
+  const matches: FieldMatch[] = [];
+  for (const pair of pairs) {
+    if (usedFields.has(pair.field) || usedProperties.has(pair.property)) continue;
+    usedFields.add(pair.field);
+    usedProperties.add(pair.property);
+    matches.push({ ...pair, score: Math.round(pair.score * 100) / 100 });
+  }
+  return matches.sort((a, b) => fields.indexOf(a.field) - fields.indexOf(b.field));
+}
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+/** Scalar values of a record by dotted path; arrays give several values, null and empty strings none */
+export function flattenRecord(record: JsonRecord, prefix = "", into: FlatRecord = new Map()): FlatRecord {
+  const add = (path: string, value: unknown) => {
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+      for (const item of value) add(path, item);
+    } else if (typeof value === "object") {
+      flattenRecord(value as JsonRecord, `${path}.`, into);
+    } else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      if (typeof value === "string" && value.trim() === "") return;
+      into.set(path, [...(into.get(path) ?? []), value]);
+    }
+  };
+  for (const [key, value] of Object.entries(record)) add(`${prefix}${key}`, value);
+  return into;
+}
+
+/** Placeholders of an IRI template: {field} (dotted paths allowed) and {index} */
+export function templateFields(template: string): string[] {
+  return [...template.matchAll(/\{([^{}]+)\}/g)].map((match) => match[1] ?? "").filter((field) => field !== "index");
+}
+
+/** Fill an IRI template from a record (values percent-encoded); undefined when a placeholder has no value */
+export function expandTemplate(template: string, record: FlatRecord, index: number): string | undefined {
+  let missing = false;
+  const iri = template.replace(/\{([^{}]+)\}/g, (_, field: string) => {
+    if (field === "index") return String(index + 1);
+    const value = record.get(field)?.[0];
+    if (value === undefined) {
+      missing = true;
+      return "";
+    }
+    return encodeURIComponent(String(value).trim());
+  });
+  return missing ? undefined : iri;
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * The IRI a value stands for: an http(s) or urn IRI as is, or a CURIE with one of the given prefixes
+ * expanded; undefined otherwise. Codes with a colon, like "IT:058091", are not IRIs.
+ */
+export function valueIri(value: string, prefixes: Record<string, string> = {}): string | undefined {
+  const curie = /^([A-Za-z][\w.-]*):([^\s/][^\s]*)$/.exec(value);
+  const namespace = curie ? prefixes[curie[1] ?? ""] : undefined;
+  const iri = namespace !== undefined ? namespace + (curie?.[2] ?? "") : value;
+  return /^(https?:\/\/[^\s<>"{}|\\^`]+|urn:[a-z0-9][a-z0-9-]*:[^\s<>"{}|\\^`]+)$/i.test(iri) ? iri : undefined;
+}
+
+/** Literal for a value, checked against the datatype; a reason when it does not fit */
+function literalFor(value: string | number | boolean, target: ValueTarget, language: string | undefined): Quad_Object | string {
+  const text = String(value).trim();
+  const datatype = target.datatype;
+  if (datatype) {
+    const pattern = datatype.startsWith(XSD) ? XSD_PATTERNS[datatype.slice(XSD.length)] : undefined;
+    if (pattern && !pattern.test(text)) return `not a valid ${datatype.replace(XSD, "xsd:")}`;
+    const normalized = datatype === `${XSD}boolean` ? String(text === "true" || text === "1") : text;
+    return literal(normalized, namedNode(datatype));
+  }
+  if (typeof value === "number") return literal(text, namedNode(Number.isInteger(value) ? `${XSD}integer` : `${XSD}decimal`));
+  if (typeof value === "boolean") return literal(text, namedNode(`${XSD}boolean`));
+  return language ? literal(text, language) : literal(text);
+}
+
+/**
+ * Turn records into instances of a class. Each record gets an IRI from the template (or a blank node)
+ * and rdf:type; each mapped field adds its values along its property path.
+ */
+export function recordsToQuads(
+  records: JsonRecord[],
+  conversion: RecordConversion
+): { quads: Quad[]; rejected: RejectedValue[]; subjects: string[] } {
+  const quads: Quad[] = [];
+  const rejected: RejectedValue[] = [];
+  const subjects: string[] = [];
+
+  records.forEach((record, index) => {
+    const flat = flattenRecord(record);
+    const expanded = conversion.idTemplate ? expandTemplate(conversion.idTemplate, flat, index) : undefined;
+    const iri = expanded ? valueIri(expanded, conversion.prefixes) : undefined;
+    if (conversion.idTemplate && !iri) {
+      rejected.push({ field: "(id)", value: `record ${index + 1}`, reason: `IRI template gives ${expanded ? `"${expanded}", not an IRI` : "no value (empty placeholder)"}` });
+      return;
+    }
+    const subject: Quad_Subject = iri ? namedNode(iri) : blankNode(`r${index + 1}`);
+    subjects.push(iri ?? `_:r${index + 1}`);
+    // Statements about the intermediate nodes follow those about the record
+    const own: Quad[] = [quad(subject, namedNode(RDF_TYPE), namedNode(conversion.classUri))];
+    const nested: Quad[] = [];
+    const add = (statement: Quad) => (statement.subject.equals(subject) ? own : nested).push(statement);
+
+    // Intermediate nodes by path prefix, created when a field first needs them
+    const intermediates = new Map<string, Quad_Subject>();
+    const nodeFor = (path: string[]): Quad_Subject => {
+      let node: Quad_Subject = subject;
+      for (let depth = 1; depth < path.length; depth++) {
+        const key = path.slice(0, depth).join(" ");
+        let next = intermediates.get(key);
+        if (!next) {
+          next = blankNode(`r${index + 1}_${intermediates.size + 1}`);
+          intermediates.set(key, next);
+          add(quad(node, namedNode(path[depth - 1] ?? ""), next));
+          const type = conversion.intermediateTypes.get(key);
+          if (type) add(quad(next, namedNode(RDF_TYPE), namedNode(type)));
+        }
+        node = next;
+      }
+      return node;
+    };
+
+    for (const mapping of conversion.mappings) {
+      const predicate = mapping.path[mapping.path.length - 1];
+      if (!predicate) continue;
+      for (const value of flat.get(mapping.field) ?? []) {
+        let object: Quad_Object | string;
+        if (mapping.target.kind === "resource") {
+          const text = String(value).trim();
+          const iri = valueIri(text, conversion.prefixes);
+          if (iri) {
+            object = namedNode(iri);
+          } else {
+            const resolved = conversion.resolve(mapping.field, text);
+            object = resolved.uri ? namedNode(resolved.uri) : resolved.reason ?? "not resolved";
+          }
+        } else {
+          object = literalFor(value, mapping.target, conversion.language);
+        }
+        if (typeof object === "string") {
+          rejected.push({ field: mapping.field, value: String(value), reason: object });
+          continue;
+        }
+        add(quad(nodeFor(mapping.path), namedNode(predicate), object));
+      }
+    }
+    quads.push(...own, ...nested);
+  });
+
+  return { quads, rejected, subjects };
+}
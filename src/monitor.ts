@@ -0,0 +1,190 @@
+import { createHash } from "crypto";
+import { appendFile, mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Catalog artifacts tracked by the monitor, named after their resource templates */
+export type ArtifactKind = "ontology" | "vocabulary" | "dataset";
+
+/** What the monitor remembers of an artifact */
+export interface ArtifactState {
+  /** Hash of the details, compared between observations */
+  fingerprint: string;
+  /** Label, version, modification date and counts, shown in the changes */
+  details: Record<string, string | number>;
+}
+
+/** Statistics and artifact fingerprints taken at one point in time */
+export interface CatalogObservation {
+  takenAt: string;
+  /** Counts by resource type, e.g. { datasets: 1234, concepts: 56789 } */
+  statistics: Record<string, number>;
+  artifacts: Record<ArtifactKind, Record<string, ArtifactState>>;
+}
+
+/** A difference between two consecutive observations */
+export interface CatalogChange {
+  detectedAt: string;
+  kind: ArtifactKind | "statistic";
+  change: "added" | "removed" | "modified" | "changed";
+  /** Artifact URI, or statistic name */
+  id: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Observations recorded so far */
+export interface CatalogHistoryInfo {
+  dir: string;
+  observations: number;
+  firstAt?: string;
+  lastAt?: string;
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/** Stable hash of an artifact's details (key order does not matter) */
+export function fingerprint(details: Record<string, string | number>): string {
+  const sorted = Object.keys(details).sort().map((key) => [key, details[key]]);
+  return createHash("sha256").update(JSON.stringify(sorted)).digest("hex").slice(0, 16);
+}
+
+/** Details that differ between two states of an artifact */
+function changedDetails(
+  before: Record<string, string | number>,
+  after: Record<string, string | number>
+): { before: Record<string, string | number>; after: Record<string, string | number> } {
+  const result = { before: {} as Record<string, string | number>, after: {} as Record<string, string | number> };
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (before[key] === after[key]) continue;
+    if (before[key] !== undefined) result.before[key] = before[key];
+    if (after[key] !== undefined) result.after[key] = after[key];
+  }
+  return result;
+}
+
+/** Changes from one observation to the next: statistics first, then artifacts by kind and URI */
+export function compareObservations(before: CatalogObservation, after: CatalogObservation): CatalogChange[] {
+  const detectedAt = after.takenAt;
+  const changes: CatalogChange[] = [];
+
+  for (const name of new Set([...Object.keys(before.statistics), ...Object.keys(after.statistics)])) {
+    const previous = before.statistics[name] ?? 0;
+    const current = after.statistics[name] ?? 0;
+    if (previous !== current) changes.push({ detectedAt, kind: "statistic", change: "changed", id: name, before: previous, after: current });
+  }
+
+  for (const kind of Object.keys(after.artifacts) as ArtifactKind[]) {
+    const previous = before.artifacts[kind] ?? {};
+    const current = after.artifacts[kind];
+    for (const uri of Object.keys(current).sort()) {
+      const state = current[uri];
+      const old = previous[uri];
+      if (!state) continue;
+      if (!old) {
+        changes.push({ detectedAt, kind, change: "added", id: uri, after: state.details });
+      } else if (old.fingerprint !== state.fingerprint) {
+        changes.push({ detectedAt, kind, change: "modified", id: uri, ...changedDetails(old.details, state.details) });
+      }
+    }
+    for (const uri of Object.keys(previous).sort()) {
+      if (!current[uri]) changes.push({ detectedAt, kind, change: "removed", id: uri, before: previous[uri]?.details });
+    }
+  }
+  return changes;
+}
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+/**
+ * Observations kept on disk: the latest full observation (latest.json),
+ * the statistics of every observation (history.jsonl) and every change found (changes.jsonl)
+ */
+export class CatalogHistory {
+  constructor(private readonly dir: string) {}
+
+  private get latestFile(): string {
+    return join(this.dir, "latest.json");
+  }
+
+  private get historyFile(): string {
+    return join(this.dir, "history.jsonl");
+  }
+
+  private get changesFile(): string {
+    return join(this.dir, "changes.jsonl");
+  }
+
+  /** The last recorded observation, if any */
+  async latest(): Promise<CatalogObservation | undefined> {
+    try {
+      return JSON.parse(await readFile(this.latestFile, "utf-8")) as CatalogObservation;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Record an observation and return its changes from the previous one.
+   * The first observation is the baseline and has no changes.
+   */
+  async record(observation: CatalogObservation): Promise<CatalogChange[]> {
+    await mkdir(this.dir, { recursive: true });
+    const previous = await this.latest();
+    const changes = previous ? compareObservations(previous, observation) : [];
+
+    if (changes.length > 0) {
+      await appendFile(this.changesFile, changes.map((change) => JSON.stringify(change) + "\n").join(""), "utf-8");
+    }
+    await appendFile(this.historyFile, JSON.stringify({ takenAt: observation.takenAt, statistics: observation.statistics }) + "\n", "utf-8");
+    await writeFile(this.latestFile, JSON.stringify(observation), "utf-8");
+    return changes;
+  }
+
+  /** Changes detected after `since`, newest first */
+  async changesSince(since: Date): Promise<CatalogChange[]> {
+    return (await this.readLines<CatalogChange>(this.changesFile))
+      .filter((change) => new Date(change.detectedAt) > since)
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }
+
+  /** Number and time span of the recorded observations */
+  async info(): Promise<CatalogHistoryInfo> {
+    const entries = await this.readLines<{ takenAt: string }>(this.historyFile);
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    return {
+      dir: this.dir,
+      observations: entries.length,
+      ...(first ? { firstAt: first.takenAt } : {}),
+      ...(last ? { lastAt: last.takenAt } : {}),
+    };
+  }
+
+  /** Parse a JSONL file, skipping a truncated last line; a missing file is empty */
+  private async readLines<T>(file: string): Promise<T[]> {
+    let text: string;
+    try {
+      text = await readFile(file, "utf-8");
+    } catch {
+      return [];
+    }
+    const entries: T[] = [];
+    for (const line of text.split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        entries.push(JSON.parse(line) as T);
+      } catch {
+        // A crash while appending can leave a partial line
+      }
+    }
+    return entries;
+  }
+}
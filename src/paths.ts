@@ -0,0 +1,32 @@
+import { realpath } from "fs/promises";
+import { isAbsolute, relative, resolve, sep } from "path";
+
+// =============================================================================
+// CONFINED PATHS
+// =============================================================================
+
+/** Whether a path lies strictly inside a directory (both absolute and normalized) */
+function isInside(dir: string, path: string): boolean {
+  const inside = relative(dir, path);
+  return inside !== "" && inside !== ".." && !inside.startsWith(`..${sep}`) && !isAbsolute(inside);
+}
+
+/**
+ * Resolve a path given by a client against a base directory and refuse it unless it lies
+ * inside the directory, both as written ("..", absolute paths) and after following symlinks.
+ * The file must exist; paths outside the directory are refused before the filesystem is read.
+ */
+export async function resolveWithin(baseDir: string, path: string): Promise<string> {
+  const outside = new Error(`${path} is outside the allowed directory`);
+  const written = resolve(baseDir, path);
+  if (!isInside(resolve(baseDir), written)) throw outside;
+
+  let target: string;
+  try {
+    target = await realpath(written);
+  } catch {
+    throw new Error(`File not found: ${path}`);
+  }
+  if (!isInside(await realpath(baseDir), target)) throw outside;
+  return target;
+}
@@ -0,0 +1,230 @@
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** XSD datatype inferred for a column ("string" when nothing more specific fits every value) */
+export type InferredDatatype = "boolean" | "integer" | "decimal" | "date" | "dateTime" | "gYear" | "anyURI" | "string";
+
+/** Italian codes recognised in column values */
+export type CodeKind =
+  | "istatMunicipality"
+  | "istatProvince"
+  | "istatRegion"
+  | "belfiore"
+  | "provinceSigla"
+  | "postCode"
+  | "fiscalCode"
+  | "vatNumber";
+
+/** Share of the non-empty values of a column that look like a code */
+export interface CodeDetection {
+  kind: CodeKind;
+  share: number;
+}
+
+/** A value shape ("9" digit, "A" uppercase, "a" lowercase letter) and its share of the values */
+export interface ValueShape {
+  shape: string;
+  share: number;
+}
+
+/** What a column contains, from a sample of its values */
+export interface ColumnProfile {
+  name: string;
+  values: number;
+  nullRatio: number;
+  distinct: number;
+  datatype: InferredDatatype;
+  /** The values use a decimal comma (Italian notation) */
+  decimalComma?: true;
+  /** The values use the DD/MM/YYYY notation */
+  italianDates?: true;
+  shapes: ValueShape[];
+  codes: CodeDetection[];
+  examples: string[];
+}
+
+/** A value and the number of rows holding it */
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+/** Range and most frequent values of a column */
+export interface ColumnStatistics {
+  /** Smallest and largest value, compared as numbers, dates or text depending on the datatype */
+  min?: string;
+  max?: string;
+  topValues: ValueCount[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Smallest share of the values matching a code pattern for the column to be reported as such codes */
+const CODE_SHARE_THRESHOLD = 0.8;
+
+/** Description of each code kind, used as evidence */
+export const CODE_DESCRIPTIONS: Record<CodeKind, string> = {
+  istatMunicipality: "ISTAT municipality codes (6 digits, or 4-5 without the leading zeros)",
+  istatProvince: "ISTAT province codes (3 digits)",
+  istatRegion: "ISTAT region codes (2 digits)",
+  belfiore: "Belfiore cadastral codes (letter and 3 digits)",
+  provinceSigla: "province abbreviations (sigle)",
+  postCode: "postal codes (CAP)",
+  fiscalCode: "personal fiscal codes (codice fiscale)",
+  vatNumber: "VAT numbers (partita IVA)",
+};
+
+/** Digits of the ISTAT code kinds, to which codes that lost their leading zeros are padded */
+export const ISTAT_CODE_DIGITS: Partial<Record<CodeKind, number>> = {
+  istatMunicipality: 6,
+  istatProvince: 3,
+  istatRegion: 2,
+};
+
+/** Province abbreviations, current and of the suppressed Sardinian provinces */
+const PROVINCE_SIGLE = new Set(`AG AL AN AO AP AQ AR AT AV BA BG BI BL BN BO BR BS BT BZ CA CB CE CH CI CL CN CO CR CS CT CZ
+  EN FC FE FG FI FM FR GE GO GR IM IS KR LC LE LI LO LT LU MB MC ME MI MN MO MS MT NA NO NU OG OR OT PA PC PD PE PG PI
+  PN PO PR PT PU PV PZ RA RC RE RG RI RM RN RO SA SI SO SP SR SS SU SV TA TE TN TO TP TR TS TV UD VA VB VC VE VI VR VS VT VV`.split(/\s+/));
+
+/** Checks for each code kind */
+const CODE_PATTERNS: Record<CodeKind, (value: string) => boolean> = {
+  // Spreadsheets drop the leading zeros: 58091 is 058091
+  istatMunicipality: (value) => /^\d{4,6}$/.test(value) && inRange(padIstatCode(value, 6).slice(0, 3), 1, 111),
+  istatProvince: (value) => /^\d{3}$/.test(value) && inRange(value, 1, 111),
+  istatRegion: (value) => /^\d{2}$/.test(value) && inRange(value, 1, 20),
+  belfiore: (value) => /^[A-MZ]\d{3}$/i.test(value),
+  provinceSigla: (value) => PROVINCE_SIGLE.has(value.toUpperCase()) && /^[A-Za-z]{2}$/.test(value),
+  postCode: (value) => /^\d{5}$/.test(value),
+  fiscalCode: (value) => /^[A-Z]{6}\d{2}[A-EHLMPR-T]\d{2}[A-Z]\d{3}[A-Z]$/i.test(value),
+  vatNumber: (value) => /^\d{11}$/.test(value),
+};
+
+/** Values read as booleans */
+const BOOLEAN_VALUES = new Set(["true", "false", "vero", "falso", "si", "sì", "no", "yes"]);
+
+/** Checks for each inferred datatype, most specific first */
+const DATATYPE_CHECKS: [InferredDatatype, (value: string) => boolean][] = [
+  ["boolean", (value) => BOOLEAN_VALUES.has(value.toLowerCase())],
+  // Leading zeros mark codes, not numbers
+  ["integer", (value) => /^[+-]?(0|[1-9]\d*)$/.test(value)],
+  ["decimal", (value) => /^[+-]?(\d+([.,]\d+)?|[.,]\d+)$/.test(value) && !/^[+-]?0\d/.test(value)],
+  ["date", (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) || /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(value)],
+  ["dateTime", (value) => /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(value)],
+  ["anyURI", (value) => /^https?:\/\/\S+$/i.test(value)],
+];
+
+// =============================================================================
+// PROFILING
+// =============================================================================
+
+function inRange(digits: string, min: number, max: number): boolean {
+  const number = parseInt(digits, 10);
+  return number >= min && number <= max;
+}
+
+/** An ISTAT code with the leading zeros lost by spreadsheets restored ("58091" → "058091" for 6 digits); other values as they are */
+export function padIstatCode(value: string, digits: number): string {
+  return /^\d+$/.test(value) && value.length < digits ? value.padStart(digits, "0") : value;
+}
+
+/** Whether a value counts as missing */
+export function isEmptyValue(value: string): boolean {
+  const trimmed = value.trim().toLowerCase();
+  return trimmed === "" || trimmed === "null" || trimmed === "n/a" || trimmed === "na" || trimmed === "-";
+}
+
+/** Shape of a value: digits become 9, letters A or a, other characters stay */
+function valueShape(value: string): string {
+  return value.replace(/\p{N}/gu, "9").replace(/\p{Lu}/gu, "A").replace(/\p{Ll}/gu, "a");
+}
+
+/** Round a ratio to two decimals */
+function ratio(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 100) / 100;
+}
+
+/** The most specific datatype all values fit; gYear for integers that all look like years */
+export function inferDatatype(values: string[]): InferredDatatype {
+  if (values.length === 0) return "string";
+  const match = DATATYPE_CHECKS.find(([, check]) => values.every(check));
+  if (!match) return "string";
+  if (match[0] === "integer" && values.every((value) => /^(1[89]|20)\d{2}$/.test(value))) return "gYear";
+  return match[0];
+}
+
+/** Code kinds matching at least CODE_SHARE_THRESHOLD of the values, best first */
+export function detectCodes(values: string[]): CodeDetection[] {
+  if (values.length === 0) return [];
+  return (Object.keys(CODE_PATTERNS) as CodeKind[])
+    .map((kind) => ({ kind, share: ratio(values.filter(CODE_PATTERNS[kind]).length, values.length) }))
+    .filter((detection) => detection.share >= CODE_SHARE_THRESHOLD)
+    .sort((a, b) => b.share - a.share);
+}
+
+/** Profile a column from a sample of its values */
+export function profileColumn(name: string, rawValues: string[]): ColumnProfile {
+  const values = rawValues.map((value) => value.trim()).filter((value) => !isEmptyValue(value));
+  const distinct = [...new Set(values)];
+  const datatype = inferDatatype(values);
+
+  const shapeCounts = new Map<string, number>();
+  for (const value of values.filter((item) => item.length <= 40)) {
+    const shape = valueShape(value);
+    shapeCounts.set(shape, (shapeCounts.get(shape) ?? 0) + 1);
+  }
+  const shapes = [...shapeCounts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([shape, count]) => ({ shape, share: ratio(count, values.length) }));
+
+  return {
+    name,
+    values: rawValues.length,
+    nullRatio: ratio(rawValues.length - values.length, rawValues.length),
+    distinct: distinct.length,
+    datatype,
+    ...(datatype === "decimal" && values.some((value) => value.includes(",")) ? { decimalComma: true as const } : {}),
+    ...(datatype === "date" && values.some((value) => value.includes("/")) ? { italianDates: true as const } : {}),
+    shapes,
+    codes: detectCodes(values),
+    examples: distinct.slice(0, 5),
+  };
+}
+
+/** Sort key of a value of a datatype: numbers with a decimal point, dates as YYYY-MM-DD */
+function sortKey(value: string, datatype: InferredDatatype): number | string {
+  if (datatype === "integer" || datatype === "decimal" || datatype === "gYear") return Number(value.replace(",", "."));
+  if (datatype === "date") {
+    const italian = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+    return italian ? `${italian[3]}-${(italian[2] ?? "").padStart(2, "0")}-${(italian[1] ?? "").padStart(2, "0")}` : value;
+  }
+  return value;
+}
+
+/** Minimum, maximum and the most frequent values of a column (missing values left out) */
+export function columnStatistics(rawValues: string[], datatype: InferredDatatype, topCount: number): ColumnStatistics {
+  const counts = new Map<string, number>();
+  for (const value of rawValues.map((item) => item.trim()).filter((item) => !isEmptyValue(item))) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  let min: { value: string; key: number | string } | undefined;
+  let max: { value: string; key: number | string } | undefined;
+  for (const value of counts.keys()) {
+    const key = sortKey(value, datatype);
+    if (!min || key < min.key) min = { value, key };
+    if (!max || key > max.key) max = { value, key };
+  }
+
+  return {
+    ...(min ? { min: min.value } : {}),
+    ...(max ? { max: max.value } : {}),
+    topValues: [...counts]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, topCount)
+      .map(([value, count]) => ({ value, count })),
+  };
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** A parameterized workflow that chains the server's tools */
+export interface WorkflowPrompt {
+  name: string;
+  title: string;
+  description: string;
+  /** Prompt arguments are strings; optional ones may be omitted by the client */
+  argsSchema: Record<string, z.ZodString | z.ZodOptional<z.ZodString>>;
+  /** Build the instructions sent to the model as a user message */
+  build(args: Record<string, string | undefined>): string;
+}
+
+/** Render optional context lines, skipping the ones whose value is missing */
+function contextLines(entries: [string, string | undefined][]): string {
+  return entries
+    .filter(([, value]) => value !== undefined && value.trim() !== "")
+    .map(([label, value]) => `- ${label}: ${value}`)
+    .join("\n");
+}
+
+// =============================================================================
+// PROMPTS
+// =============================================================================
+
+const findVocabularyForColumn: WorkflowPrompt = {
+  name: "find_vocabulary_for_column",
+  title: "Find a Controlled Vocabulary for a Column",
+  description: "Find the schema.gov.it controlled vocabulary that best fits a CSV column, and map its values to concept codes",
+  argsSchema: {
+    columnName: z.string().describe("Name of the CSV column (e.g. 'titolo_studio')"),
+    sampleValues: z.string().optional().describe("Some distinct values of the column, comma-separated"),
+    datasetUri: z.string().optional().describe("URI of the dataset the column comes from, if it is in the catalog"),
+  },
+  build: ({ columnName, sampleValues, datasetUri }) => `Find the controlled vocabulary of schema.gov.it that best fits a data column.
+
+${contextLines([["Column", columnName], ["Sample values", sampleValues], ["Dataset", datasetUri]])}
+
+Steps:
+1. ${datasetUri ? "Call explore_dataset on the dataset and, if a distribution is available, preview_distribution to see the column in context." : "Infer what the column describes from its name and sample values."}
+2. Call list_vocabularies (lang "it,en") and shortlist the ConceptSchemes whose label matches the column's meaning.
+3. Call search_concepts with the column name and a few sample values, both in Italian and English, to find vocabularies the list may have missed.
+4. For the two or three best candidates, call search_in_vocabulary with the sample values, then browse_vocabulary to check the codes and the depth of the hierarchy.
+5. Pick one vocabulary and explain why. Give a table mapping each sample value to a concept (URI, skos:notation, label), and flag values without a good match.
+
+Only use URIs returned by the tools; never invent concept URIs or codes.`,
+};
+
+const checkConceptBeforeModelling: WorkflowPrompt = {
+  name: "check_concept_before_modelling",
+  title: "Check Existing Concepts Before Modelling",
+  description: "Check whether a concept already exists in schema.gov.it before adding it to a new ontology, and propose what to reuse",
+  argsSchema: {
+    concept: z.string().describe("Name or short description of the concept to model (e.g. 'Albo professionale')"),
+    ontologyUri: z.string().optional().describe("URI of the ontology being designed or extended, if any"),
+  },
+  build: ({ concept, ontologyUri }) => `Before modelling a new concept, check what schema.gov.it already provides, following the reuse-first approach of the OntoPiA ontologies.
+
+${contextLines([["Concept", concept], ["Target ontology", ontologyUri]])}
+
+Steps:
+1. Call search_concepts with the concept name, its synonyms and its English translation (lang "it,en").
+2. For each relevant class or property found, call inspect_concept to read its definition, superclasses, subclasses and usage.
+3. Check the foundational ontologies first (l0, CPV, COV, CLV, TI): candidates such as l0:Collection, l0:Entity or l0:hasMember may already cover the concept generically.
+4. Use find_relations between the best candidates, and list_properties on their ontologies to find properties that can be reused as they are.
+5. Call check_overlaps to see whether similar labels already collide across ontologies.
+6. Conclude with one of: reuse an existing term, specialise it (rdfs:subClassOf / rdfs:subPropertyOf), or create a new term. Give the URIs to reuse${ontologyUri ? ` and how the new terms fit into ${ontologyUri}` : ""}, and list the controlled vocabularies (list_vocabularies) the new model should reference.
+
+Only cite URIs returned by the tools.`,
+};
+
+const auditOntologyQuality: WorkflowPrompt = {
+  name: "audit_ontology_quality",
+  title: "Audit Ontology Quality",
+  description: "Audit the quality of a schema.gov.it ontology: labels, documentation, domains and ranges, and structural issues",
+  argsSchema: {
+    ontologyUri: z.string().describe("URI of the ontology to audit (from list_ontologies)"),
+  },
+  build: ({ ontologyUri }) => `Audit the quality of the ontology ${ontologyUri}.
+
+Steps:
+1. Call explore_ontology (lang "it,en") to list its classes and properties.
+2. Call list_properties with ontologyUri "${ontologyUri}" and note properties without a label, domain or range.
+3. Call check_quality and suggest_improvements, keeping only the findings whose URI starts with ${ontologyUri}.
+4. For the classes and properties with issues, call inspect_concept or get_property_details to confirm the problem (e.g. labels present in only one language, missing rdfs:comment).
+5. Call check_overlaps to spot labels shared with other ontologies.
+6. Report the findings grouped by severity (blocking, important, cosmetic), each with the affected URIs and a concrete fix.
+
+Do not report issues you could not confirm with a tool call.`,
+};
+
+const describeDatasetSemantics: WorkflowPrompt = {
+  name: "describe_dataset_semantics",
+  title: "Describe Dataset Semantics",
+  description: "Explain a catalog dataset and link its columns to schema.gov.it ontologies and controlled vocabularies",
+  argsSchema: {
+    datasetUri: z.string().describe("URI of the dataset (from list_datasets)"),
+  },
+  build: ({ datasetUri }) => `Describe the dataset ${datasetUri} and how its data relates to schema.gov.it.
+
+Steps:
+1. Call explore_dataset (lang "it,en") to read its metadata and distributions.
+2. Call preview_distribution on the most suitable distribution (CSV or JSON) to see the columns.
+3. For each column, call search_concepts to find the ontology class or property that describes it, and list_vocabularies / search_in_vocabulary for coded columns.
+4. Summarise the dataset (publisher, theme, update frequency, formats), then give a table column → ontology term → controlled vocabulary, marking uncertain matches.
+
+Only use URIs returned by the tools.`,
+};
+
+/** All workflow prompts registered by the server */
+export const WORKFLOW_PROMPTS: WorkflowPrompt[] = [
+  findVocabularyForColumn,
+  checkConceptBeforeModelling,
+  auditOntologyQuality,
+  describeDatasetSemantics,
+];
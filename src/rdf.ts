@@ -0,0 +1,165 @@
+import { Parser, Writer } from "n3";
+import type { Quad, Term } from "n3";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Serializations offered for CONSTRUCT/DESCRIBE results */
+export type GraphFormat = "turtle" | "ntriples" | "jsonld";
+
+/** Graph result as returned by the tools */
+export interface SerializedGraph {
+  format: GraphFormat;
+  tripleCount: number;
+  /** Turtle / N-Triples text, or a compact JSON-LD document */
+  content: string | JsonLdDocument;
+}
+
+/** Compact JSON-LD document: one node object per subject */
+export interface JsonLdDocument {
+  "@context": Record<string, string>;
+  "@graph": Record<string, unknown>[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const XSD_STRING = "http://www.w3.org/2001/XMLSchema#string";
+const RDF_LANG_STRING = "http://www.w3.org/1999/02/22-rdf-syntax-ns#langString";
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Parse a "PREFIX p: <ns>" block into a prefix → namespace map */
+export function parsePrefixBlock(prefixes: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const match of prefixes.matchAll(/PREFIX\s+([\w.-]*):\s*<([^>]*)>/gi)) {
+    map[match[1] ?? ""] = match[2] ?? "";
+  }
+  return map;
+}
+
+/** Parse Turtle or N-Triples text into quads */
+export function parseTurtle(text: string): Quad[] {
+  return new Parser({ format: "text/turtle" }).parse(text);
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/** Keep only the prefixes whose namespace is actually used in the graph */
+function usedPrefixes(quads: Quad[], prefixes: Record<string, string>): Record<string, string> {
+  const iris = new Set<string>();
+  for (const quad of quads) {
+    for (const term of [quad.subject, quad.predicate, quad.object]) {
+      if (term.termType === "NamedNode") iris.add(term.value);
+      if (term.termType === "Literal") iris.add(term.datatype.value);
+    }
+  }
+  const used: Record<string, string> = {};
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    for (const iri of iris) {
+      if (iri.startsWith(namespace) && iri.length > namespace.length) {
+        used[prefix] = namespace;
+        break;
+      }
+    }
+  }
+  return used;
+}
+
+/** Compact an IRI into prefix:local when a namespace matches and the local part is safe */
+export function compactIri(iri: string, prefixes: Record<string, string>): string {
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    if (iri.startsWith(namespace)) {
+      const local = iri.slice(namespace.length);
+      if (/^[A-Za-z_][\w.-]*$/.test(local) && !local.endsWith(".")) {
+        return `${prefix}:${local}`;
+      }
+    }
+  }
+  return iri;
+}
+
+/** Expand prefix:local into a full IRI; values that are not CURIEs of a known prefix are returned unchanged */
+export function expandCurie(value: string, prefixes: Record<string, string>): string {
+  const match = /^([A-Za-z][\w.-]*)?:([^\s/][^\s]*)?$/.exec(value);
+  if (!match) return value;
+  const namespace = prefixes[match[1] ?? ""];
+  return namespace === undefined ? value : namespace + (match[2] ?? "");
+}
+
+/** Node identifier in JSON-LD: compacted IRI or blank node label */
+function nodeId(term: Term, prefixes: Record<string, string>): string {
+  return term.termType === "BlankNode" ? `_:${term.value}` : compactIri(term.value, prefixes);
+}
+
+/** JSON-LD value object for an RDF term */
+function jsonLdValue(term: Term, prefixes: Record<string, string>): unknown {
+  if (term.termType === "Literal") {
+    if (term.language) return { "@value": term.value, "@language": term.language };
+    const datatype = term.datatype.value;
+    if (datatype === XSD_STRING || datatype === RDF_LANG_STRING) return term.value;
+    return { "@value": term.value, "@type": compactIri(datatype, prefixes) };
+  }
+  return { "@id": nodeId(term, prefixes) };
+}
+
+/** Build a compact JSON-LD document: CURIE keys, one node object per subject, arrays only for repeated values */
+function toCompactJsonLd(quads: Quad[], prefixes: Record<string, string>): JsonLdDocument {
+  const nodes = new Map<string, Record<string, unknown>>();
+
+  for (const quad of quads) {
+    const id = nodeId(quad.subject, prefixes);
+    let node = nodes.get(id);
+    if (!node) {
+      node = { "@id": id };
+      nodes.set(id, node);
+    }
+
+    const isType = quad.predicate.value === RDF_TYPE && quad.object.termType === "NamedNode";
+    const key = isType ? "@type" : compactIri(quad.predicate.value, prefixes);
+    const value = isType ? compactIri(quad.object.value, prefixes) : jsonLdValue(quad.object, prefixes);
+
+    const existing = node[key];
+    if (existing === undefined) {
+      node[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      node[key] = [existing, value];
+    }
+  }
+
+  return { "@context": prefixes, "@graph": [...nodes.values()] };
+}
+
+/**
+ * Serialize a graph in the requested format.
+ * Only the prefixes actually used are emitted, to keep the output small.
+ */
+export async function serializeGraph(
+  quads: Quad[],
+  format: GraphFormat,
+  prefixes: Record<string, string>
+): Promise<SerializedGraph> {
+  const used = usedPrefixes(quads, prefixes);
+
+  if (format === "jsonld") {
+    return { format, tripleCount: quads.length, content: toCompactJsonLd(quads, used) };
+  }
+
+  const writer = new Writer(format === "turtle"
+    ? { format: "Turtle", prefixes: used }
+    : { format: "N-Triples" });
+  writer.addQuads(quads);
+  const content = await new Promise<string>((resolve, reject) => {
+    writer.end((error: Error | null, result: string) => (error ? reject(error) : resolve(result)));
+  });
+  return { format, tripleCount: quads.length, content };
+}
@@ -0,0 +1,261 @@
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Documents produced by generate_json_schema */
+export type SchemaTarget = "json-schema" | "openapi";
+
+/** A JSON Schema object (kept loose: keywords vary with the value being described) */
+export type JsonSchema = Record<string, unknown>;
+
+/** A concept of a controlled vocabulary offered as an enum value */
+export interface VocabularyValue {
+  uri: string;
+  label?: string;
+}
+
+/** The ConceptScheme whose concepts are the allowed values of a property */
+export interface SchemaVocabulary {
+  scheme: string;
+  label?: string;
+  values: VocabularyValue[];
+}
+
+/** A property of a class, as read from the ontology */
+export interface SchemaProperty {
+  uri: string;
+  label?: string;
+  description?: string;
+  kind: "datatype" | "object" | "unknown";
+  ranges: string[];
+  minCount?: number;
+  maxCount?: number;
+  vocabulary?: SchemaVocabulary;
+}
+
+/** A class to turn into an object schema */
+export interface SchemaClass {
+  uri: string;
+  label?: string;
+  description?: string;
+  properties: SchemaProperty[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#";
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/** JSON type (and format or bounds) of the XSD datatypes; other datatypes and literals are strings */
+const XSD_TYPES: Record<string, JsonSchema> = {
+  string: { type: "string" },
+  normalizedString: { type: "string" },
+  token: { type: "string" },
+  language: { type: "string" },
+  boolean: { type: "boolean" },
+  decimal: { type: "number" },
+  float: { type: "number" },
+  double: { type: "number" },
+  integer: { type: "integer" },
+  int: { type: "integer" },
+  long: { type: "integer" },
+  short: { type: "integer" },
+  byte: { type: "integer" },
+  nonNegativeInteger: { type: "integer", minimum: 0 },
+  positiveInteger: { type: "integer", minimum: 1 },
+  nonPositiveInteger: { type: "integer", maximum: 0 },
+  negativeInteger: { type: "integer", maximum: -1 },
+  unsignedLong: { type: "integer", minimum: 0 },
+  unsignedInt: { type: "integer", minimum: 0 },
+  unsignedShort: { type: "integer", minimum: 0 },
+  unsignedByte: { type: "integer", minimum: 0 },
+  date: { type: "string", format: "date" },
+  dateTime: { type: "string", format: "date-time" },
+  dateTimeStamp: { type: "string", format: "date-time" },
+  time: { type: "string", format: "time" },
+  duration: { type: "string", format: "duration" },
+  gYear: { type: "string", pattern: "^-?[0-9]{4}$" },
+  gYearMonth: { type: "string", pattern: "^-?[0-9]{4}-[0-9]{2}$" },
+  anyURI: { type: "string", format: "uri" },
+};
+
+/** A reference to another resource, written as its URI */
+const URI_SCHEMA: JsonSchema = { type: "string", format: "uri" };
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+/** Last segment of a URI, after "#" or "/" */
+export function localName(uri: string): string {
+  return uri.replace(/[/#]$/, "").split(/[/#]/).pop() || uri;
+}
+
+/** Whether a range is a datatype rather than a class */
+export function isDatatypeRange(range: string): boolean {
+  return range.startsWith(XSD) || range === `${RDFS}Literal` || range === `${RDF}langString` || range === `${RDF}PlainLiteral`;
+}
+
+/** JSON Schema of an XSD datatype */
+export function datatypeSchema(range: string): JsonSchema {
+  return { ...(range.startsWith(XSD) ? XSD_TYPES[range.slice(XSD.length)] : undefined) ?? { type: "string" } };
+}
+
+/**
+ * Names for a set of URIs, from their local names; local names used by more than one URI
+ * get the CURIE prefix (l0_name, cpv_name)
+ */
+export function uniqueNames(uris: string[], compact: (uri: string) => string): Map<string, string> {
+  const byLocal = new Map<string, string[]>();
+  for (const uri of uris) {
+    const local = localName(uri);
+    byLocal.set(local, [...(byLocal.get(local) ?? []), uri]);
+  }
+  const names = new Map<string, string>();
+  for (const [local, owners] of byLocal) {
+    for (const uri of owners) {
+      const curie = compact(uri);
+      const prefix = curie !== uri && curie.includes(":") ? curie.slice(0, curie.indexOf(":")) : "";
+      names.set(uri, owners.length === 1 ? local : `${prefix || "ns"}_${local}`);
+    }
+  }
+  // Different URIs can still collide (same prefix and local name with "#" and "/"): number them
+  const taken = new Set<string>();
+  for (const [uri, name] of names) {
+    let unique = name;
+    for (let i = 2; taken.has(unique); i++) unique = `${name}_${i}`;
+    taken.add(unique);
+    names.set(uri, unique);
+  }
+  return names;
+}
+
+// =============================================================================
+// SCHEMA GENERATION
+// =============================================================================
+
+/**
+ * JSON Schema of one value of a property:
+ * - datatype ranges → JSON types
+ * - controlled-vocabulary ranges → one const per concept URI, titled with its label
+ * - class ranges with a generated schema → $ref, others → URI strings
+ */
+function valueSchema(property: SchemaProperty, refs: Map<string, string>): JsonSchema {
+  if (property.vocabulary) {
+    return {
+      type: "string",
+      format: "uri",
+      oneOf: property.vocabulary.values.map((value) => ({ const: value.uri, ...(value.label ? { title: value.label } : {}) })),
+    };
+  }
+
+  const options = property.ranges.map((range): JsonSchema => {
+    if (isDatatypeRange(range)) return datatypeSchema(range);
+    const ref = refs.get(range);
+    return ref ? { $ref: ref } : { ...URI_SCHEMA };
+  });
+  if (options.length === 0) return property.kind === "datatype" ? { type: "string" } : { ...URI_SCHEMA };
+
+  const distinct = [...new Map(options.map((option) => [JSON.stringify(option), option])).values()];
+  return distinct.length === 1 ? distinct[0] as JsonSchema : { anyOf: distinct };
+}
+
+/** Whether the values of a property are resource URIs in JSON-LD */
+function isReference(property: SchemaProperty): boolean {
+  if (property.vocabulary) return true;
+  if (property.ranges.length > 0) return property.ranges.every((range) => !isDatatypeRange(range));
+  return property.kind === "object";
+}
+
+/** JSON-LD term definition of a property: its URI, and @type for references and typed literals */
+function contextEntry(property: SchemaProperty): Record<string, string> {
+  if (isReference(property)) return { "@id": property.uri, "@type": "@id" };
+  const [range] = property.ranges;
+  if (property.ranges.length === 1 && range?.startsWith(XSD) && range !== `${XSD}string`) {
+    return { "@id": property.uri, "@type": range };
+  }
+  return { "@id": property.uri };
+}
+
+/**
+ * Object schema of a class, annotated for JSON-LD with x-jsonld-type (the class URI)
+ * and x-jsonld-context (property names to URIs).
+ * Properties with maxCount 1 take a single value, the others an array; minCount ≥ 1 makes them required.
+ */
+function classSchema(cls: SchemaClass, refs: Map<string, string>, compact: (uri: string) => string): JsonSchema {
+  const names = uniqueNames(cls.properties.map((property) => property.uri), compact);
+  const properties: Record<string, JsonSchema> = {
+    id: { ...URI_SCHEMA, description: "URI of the resource" },
+  };
+  const context: Record<string, unknown> = { id: "@id" };
+  const required: string[] = [];
+
+  for (const property of [...cls.properties].sort((a, b) => (names.get(a.uri) ?? "").localeCompare(names.get(b.uri) ?? ""))) {
+    const name = names.get(property.uri) ?? localName(property.uri);
+    const value = valueSchema(property, refs);
+    const annotations = {
+      ...(property.label ? { title: property.label } : {}),
+      ...(property.description ? { description: property.description } : {}),
+    };
+    properties[name] = property.maxCount === 1
+      ? { ...annotations, ...value }
+      : {
+          ...annotations,
+          type: "array",
+          items: value,
+          ...(property.minCount !== undefined && property.minCount > 0 ? { minItems: property.minCount } : {}),
+          ...(property.maxCount !== undefined ? { maxItems: property.maxCount } : {}),
+        };
+    context[name] = contextEntry(property);
+    if ((property.minCount ?? 0) > 0) required.push(name);
+  }
+
+  return {
+    type: "object",
+    ...(cls.label ? { title: cls.label } : {}),
+    ...(cls.description ? { description: cls.description } : {}),
+    "x-jsonld-type": cls.uri,
+    "x-jsonld-context": context,
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/**
+ * Generate the schema of a class and of the classes it references.
+ * - "json-schema": a JSON Schema 2020-12 document for the root class, the others under $defs
+ * - "openapi": an OpenAPI 3.1 components block with one schema per class
+ */
+export function generateSchemaDocument(
+  rootUri: string,
+  classes: SchemaClass[],
+  target: SchemaTarget,
+  compact: (uri: string) => string
+): JsonSchema {
+  const names = uniqueNames(classes.map((cls) => cls.uri), compact);
+  const base = target === "openapi" ? "#/components/schemas/" : "#/$defs/";
+  const refs = new Map(classes.map((cls) => [cls.uri, cls.uri === rootUri && target === "json-schema" ? "#" : `${base}${names.get(cls.uri) ?? ""}`]));
+  const schemas = new Map(classes.map((cls) => [cls.uri, classSchema(cls, refs, compact)]));
+
+  if (target === "openapi") {
+    return {
+      components: {
+        schemas: Object.fromEntries(classes.map((cls) => [names.get(cls.uri) ?? localName(cls.uri), schemas.get(cls.uri)])),
+      },
+    };
+  }
+
+  const defs = classes.filter((cls) => cls.uri !== rootUri);
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...schemas.get(rootUri),
+    ...(defs.length > 0
+      ? { $defs: Object.fromEntries(defs.map((cls) => [names.get(cls.uri) ?? localName(cls.uri), schemas.get(cls.uri)])) }
+      : {}),
+  };
+}
@@ -0,0 +1,435 @@
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Kinds of resources covered by the index, used as search facets */
+export type SearchType = "class" | "property" | "concept" | "vocabulary" | "dataset";
+
+/** Which text of the resource a string comes from */
+export type SearchField = "label" | "altLabel" | "notation" | "comment";
+
+/** How a hit matched the query, best first */
+export type MatchKind = "exact" | "prefix" | "token" | "fuzzy";
+
+/** Literal matching modes; without one, search is ranked and typo tolerant */
+export type TextMatchMode = "exact" | "prefix" | "contains";
+
+/** One literal to index */
+export interface IndexedText {
+  uri: string;
+  type: SearchType;
+  field: SearchField;
+  text: string;
+  /** Language tag, empty for untagged literals */
+  lang: string;
+}
+
+/** Options of a search */
+export interface SearchOptions {
+  /** Keep only these resource types (facets are still counted over all types) */
+  types?: SearchType[] | undefined;
+  /** Keep only concepts of this ConceptScheme */
+  scheme?: string | undefined;
+  /** Preferred languages, best first: other tagged languages are ignored */
+  languages?: string[] | undefined;
+  /** Require the normalized text to equal, start with or contain the normalized query */
+  match?: TextMatchMode | undefined;
+  limit: number;
+  offset?: number;
+}
+
+/** A ranked search result */
+export interface SearchHit {
+  uri: string;
+  type: SearchType;
+  /** Label in the best available language */
+  label?: string;
+  labelLang?: string;
+  /** skos:notation, for concepts that have one */
+  code?: string;
+  score: number;
+  match: MatchKind;
+  /** The indexed text that matched, when it is not the label itself */
+  matchedText?: string;
+  matchedField: SearchField;
+}
+
+/** One page of ranked hits, with the number of hits per type */
+export interface SearchResponse {
+  total: number;
+  facets: Partial<Record<SearchType, number>>;
+  hits: SearchHit[];
+}
+
+/** Summary of the index, reported by /health */
+export interface SearchIndexInfo {
+  resources: number;
+  texts: number;
+  tokens: number;
+  builtAt: string;
+}
+
+/** How an indexed token matched a query token */
+type TokenMatch = "token" | "prefix" | "infix" | "fuzzy";
+
+interface FieldText {
+  field: SearchField;
+  text: string;
+  lang: string;
+  normalized: string;
+  tokens: string[];
+}
+
+interface Entry {
+  uri: string;
+  types: SearchType[];
+  schemes: string[];
+  fields: FieldText[];
+}
+
+interface FieldMatch {
+  score: number;
+  match: MatchKind;
+  field: FieldText;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Base score of each match kind */
+const MATCH_SCORES: Record<MatchKind, number> = {
+  exact: 100,
+  prefix: 80,
+  token: 60,
+  fuzzy: 30,
+};
+
+/** Share of the token score earned by each query token, by how it matched */
+const TOKEN_SCORES: Record<TokenMatch | "none", number> = {
+  token: 1,
+  prefix: 0.8,
+  infix: 0.6,
+  fuzzy: 0.5,
+  none: 0,
+};
+
+/** Weight of each field: a hit on the label counts more than one on the description */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  label: 1,
+  notation: 1,
+  altLabel: 0.9,
+  comment: 0.5,
+};
+
+/** Shortest query token that gets typo tolerance */
+const FUZZY_MIN_LENGTH = 4;
+
+// =============================================================================
+// TEXT NORMALIZATION
+// =============================================================================
+
+/** Lowercase, strip accents and punctuation: "Forlì-Cesena" becomes "forli cesena" */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Split normalized text into tokens */
+function tokenize(normalized: string): string[] {
+  return normalized === "" ? [] : normalized.split(" ");
+}
+
+/** Edits allowed for a query token: one for short words, two for long ones */
+function maxEdits(token: string): number {
+  if (token.length < FUZZY_MIN_LENGTH) return 0;
+  return token.length >= 8 ? 2 : 1;
+}
+
+/** Levenshtein distance, giving up as soon as it exceeds `max` */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length] ?? max + 1;
+}
+
+/** Rank of a language tag in the preference list; untagged text ranks after every preferred language */
+function languageRank(lang: string, languages: string[] | undefined): number {
+  if (!languages || lang === "") return languages?.length ?? 0;
+  const index = languages.findIndex((tag) => lang === tag || lang.startsWith(`${tag}-`));
+  return index === -1 ? Infinity : index;
+}
+
+// =============================================================================
+// INDEX
+// =============================================================================
+
+/**
+ * In-memory full-text index over the labels, altLabels, notations and comments of
+ * classes, properties, concepts, vocabularies and datasets.
+ * Matching ignores case and accents; hits are ranked exact > prefix > token > fuzzy.
+ */
+export class SearchIndex {
+  private readonly entries: Entry[] = [];
+  /** Token → ids of the entries containing it */
+  private readonly postings = new Map<string, number[]>();
+  private readonly builtAt = new Date().toISOString();
+  private readonly textCount: number;
+
+  /**
+   * @param texts - Literals to index, several per resource
+   * @param memberships - [concept, scheme] pairs from skos:inScheme
+   */
+  constructor(texts: IndexedText[], memberships: [string, string][] = []) {
+    const ids = new Map<string, number>();
+    const seen = new Set<string>();
+    let textCount = 0;
+
+    for (const item of texts) {
+      let id = ids.get(item.uri);
+      if (id === undefined) {
+        id = this.entries.length;
+        ids.set(item.uri, id);
+        this.entries.push({ uri: item.uri, types: [], schemes: [], fields: [] });
+      }
+      const entry = this.entries[id] as Entry;
+      if (!entry.types.includes(item.type)) entry.types.push(item.type);
+
+      // The same literal comes back once per rdf:type of the resource
+      const key = `${id}\u0000${item.field}\u0000${item.lang}\u0000${item.text}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const normalized = normalizeText(item.text);
+      if (normalized === "") continue;
+      const tokens = tokenize(normalized);
+      entry.fields.push({ field: item.field, text: item.text, lang: item.lang.toLowerCase(), normalized, tokens });
+      textCount++;
+
+      for (const token of new Set(tokens)) {
+        const posting = this.postings.get(token);
+        if (!posting) {
+          this.postings.set(token, [id]);
+        } else if (posting[posting.length - 1] !== id) {
+          posting.push(id);
+        }
+      }
+    }
+
+    for (const [concept, scheme] of memberships) {
+      const id = ids.get(concept);
+      if (id === undefined) continue;
+      const entry = this.entries[id] as Entry;
+      if (!entry.schemes.includes(scheme)) entry.schemes.push(scheme);
+    }
+
+    this.textCount = textCount;
+  }
+
+  get info(): SearchIndexInfo {
+    return {
+      resources: this.entries.length,
+      texts: this.textCount,
+      tokens: this.postings.size,
+      builtAt: this.builtAt,
+    };
+  }
+
+  /** Rank the indexed resources against a free-text query */
+  search(query: string, options: SearchOptions): SearchResponse {
+    const queryNormalized = normalizeText(query);
+    const queryTokens = [...new Set(tokenize(queryNormalized))];
+    if (queryTokens.length === 0) {
+      return { total: 0, facets: {}, hits: [] };
+    }
+
+    // Every query token must match some indexed token exactly, as a prefix or within the edit budget
+    const tokenMatches = queryTokens.map((token) => this.matchingTokens(token, options.match));
+    let candidates: Set<number> | undefined;
+    for (const matches of tokenMatches) {
+      const ids = new Set<number>();
+      for (const token of matches.keys()) {
+        for (const id of this.postings.get(token) ?? []) {
+          if (!candidates || candidates.has(id)) ids.add(id);
+        }
+      }
+      candidates = ids;
+    }
+
+    const facets: Partial<Record<SearchType, number>> = {};
+    const hits: SearchHit[] = [];
+    for (const id of candidates ?? []) {
+      const entry = this.entries[id] as Entry;
+      if (options.scheme && !entry.schemes.includes(options.scheme)) continue;
+
+      const best = this.bestFieldMatch(entry, queryNormalized, tokenMatches, options.languages, options.match);
+      if (!best) continue;
+
+      const type = entry.types[0] as SearchType;
+      for (const entryType of entry.types) {
+        facets[entryType] = (facets[entryType] ?? 0) + 1;
+      }
+      if (options.types && !entry.types.some((entryType) => options.types?.includes(entryType))) continue;
+
+      hits.push(this.toHit(entry, options.types?.find((t) => entry.types.includes(t)) ?? type, best, options.languages));
+    }
+
+    hits.sort((a, b) =>
+      b.score - a.score ||
+      (a.label ?? a.uri).length - (b.label ?? b.uri).length ||
+      a.uri.localeCompare(b.uri)
+    );
+
+    const offset = options.offset ?? 0;
+    return { total: hits.length, facets, hits: hits.slice(offset, offset + options.limit) };
+  }
+
+  /** Indexed tokens matching a query token, with their match kind; literal modes turn off typo tolerance */
+  private matchingTokens(queryToken: string, mode: TextMatchMode | undefined): Map<string, TokenMatch> {
+    const matches = new Map<string, TokenMatch>();
+    const edits = mode ? 0 : maxEdits(queryToken);
+    for (const token of this.postings.keys()) {
+      if (token === queryToken) {
+        matches.set(token, "token");
+      } else if (token.startsWith(queryToken)) {
+        matches.set(token, "prefix");
+      } else if (mode === "contains" && token.includes(queryToken)) {
+        matches.set(token, "infix");
+      } else if (edits > 0 && editDistance(queryToken, token, edits) <= edits) {
+        matches.set(token, "fuzzy");
+      }
+    }
+    return matches;
+  }
+
+  /** Best scoring field of an entry, or undefined when no field in an accepted language matches every token */
+  private bestFieldMatch(
+    entry: Entry,
+    queryNormalized: string,
+    tokenMatches: Map<string, TokenMatch>[],
+    languages: string[] | undefined,
+    mode: TextMatchMode | undefined
+  ): FieldMatch | undefined {
+    let best: FieldMatch | undefined;
+    for (const field of entry.fields) {
+      const rank = languageRank(field.lang, languages);
+      if (rank === Infinity) continue;
+      if (mode === "exact" && field.normalized !== queryNormalized) continue;
+      if (mode === "prefix" && !field.normalized.startsWith(queryNormalized)) continue;
+      if (mode === "contains" && !field.normalized.includes(queryNormalized)) continue;
+
+      let match: MatchKind;
+      let score: number;
+      if (field.normalized === queryNormalized) {
+        match = "exact";
+        score = MATCH_SCORES.exact;
+      } else if (field.normalized.startsWith(queryNormalized)) {
+        match = "prefix";
+        score = MATCH_SCORES.prefix;
+      } else {
+        // Each query token scores by its best match among the field's tokens
+        let sum = 0;
+        let fuzzy = false;
+        let missing = false;
+        for (const matches of tokenMatches) {
+          let tokenScore = 0;
+          for (const token of field.tokens) {
+            tokenScore = Math.max(tokenScore, TOKEN_SCORES[matches.get(token) ?? "none"]);
+          }
+          if (tokenScore === 0) {
+            missing = true;
+            break;
+          }
+          if (tokenScore === TOKEN_SCORES.fuzzy) fuzzy = true;
+          sum += tokenScore;
+        }
+        if (missing) continue;
+        match = fuzzy ? "fuzzy" : "token";
+        score = MATCH_SCORES[match] * (sum / tokenMatches.length);
+      }
+
+      // Shorter texts are closer to the query; preferred languages get a small boost
+      score *= FIELD_WEIGHTS[field.field];
+      score -= Math.min(10, Math.max(0, field.tokens.length - tokenMatches.length));
+      if (languages && rank < languages.length) score += (languages.length - rank) * 2;
+
+      if (!best || score > best.score) best = { score, match, field };
+    }
+    return best;
+  }
+
+  private toHit(entry: Entry, type: SearchType, best: FieldMatch, languages: string[] | undefined): SearchHit {
+    // Without a preference, show the label in the language of the matched text
+    const labelLanguages = languages ?? (best.field.lang ? [best.field.lang] : undefined);
+    let label: FieldText | undefined;
+    for (const field of entry.fields) {
+      if (field.field !== "label") continue;
+      if (!label || languageRank(field.lang, labelLanguages) < languageRank(label.lang, labelLanguages)) label = field;
+    }
+    const code = entry.fields.find((field) => field.field === "notation")?.text;
+
+    return {
+      uri: entry.uri,
+      type,
+      ...(label ? { label: label.text } : {}),
+      ...(label && label.lang ? { labelLang: label.lang } : {}),
+      ...(code !== undefined ? { code } : {}),
+      score: Math.round(best.score * 10) / 10,
+      match: best.match,
+      ...(best.field !== label ? { matchedText: best.field.text } : {}),
+      matchedField: best.field.field,
+    };
+  }
+}
+
+// =============================================================================
+// REGEX PATTERNS
+// =============================================================================
+
+/** Longest pattern accepted in regex match mode */
+const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Why a pattern is refused in regex match mode (too long, invalid, or likely to backtrack
+ * catastrophically on the endpoint), with a suggestion; undefined when it can be sent
+ */
+export function checkRegex(pattern: string): { error: string; suggestion: string } | undefined {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return {
+      error: `Regex too long (${pattern.length} characters, max ${MAX_REGEX_LENGTH})`,
+      suggestion: "Shorten the pattern, or use match \"contains\" or \"prefix\" for literal text",
+    };
+  }
+  try {
+    new RegExp(pattern);
+  } catch (err) {
+    return {
+      error: `Invalid regex: ${err instanceof Error ? err.message : String(err)}`,
+      suggestion: "Fix the pattern, or use match \"contains\" to search the text literally (e.g. \"S.p.A.\" or \"(ex)\")",
+    };
+  }
+  // Quantified groups that contain a quantifier, e.g. (a+)+ or (\w*)*
+  if (/\([^)]*[+*}][^)]*\)\s*[+*{]/.test(pattern)) {
+    return {
+      error: "Regex with nested quantifiers is not allowed: it can make the endpoint time out",
+      suggestion: "Use match \"contains\" or simplify the pattern",
+    };
+  }
+  return undefined;
+}
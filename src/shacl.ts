@@ -0,0 +1,297 @@
+import jsonld from "jsonld";
+import type { JsonLdDocument } from "jsonld";
+import { DataFactory, Parser, Store } from "n3";
+import type { Quad, Quad_Object, Quad_Subject } from "n3";
+import SHACLValidator from "rdf-validate-shacl";
+
+const { blankNode, literal, namedNode, quad } = DataFactory;
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Serializations accepted by validate_rdf */
+export type RdfInputFormat = "turtle" | "jsonld";
+
+/** A property applicable to a class, with the constraints read from the ontology */
+export interface PropertyConstraint {
+  property: string;
+  /** "object" and "datatype" for OWL properties; undefined when the ontology does not say */
+  kind?: "object" | "datatype";
+  ranges: string[];
+  minCount?: number;
+  maxCount?: number;
+}
+
+/** Constraints of one class used in the data, including those inherited from its superclasses */
+export interface ClassConstraints {
+  classUri: string;
+  properties: PropertyConstraint[];
+}
+
+/** One SHACL validation result, in a compact form */
+export interface ValidationIssue {
+  severity: "Violation" | "Warning" | "Info";
+  path?: string;
+  /** Constraint component without namespace and suffix, e.g. "class", "datatype", "minCount" */
+  constraint: string;
+  /** What the shape expects, e.g. { class: "...City" } or { minCount: 1 } */
+  expected?: Record<string, string | number | string[]>;
+  value?: string;
+  message?: string;
+  shape?: string;
+}
+
+/** Validation results grouped by focus node */
+export interface FocusNodeReport {
+  focusNode: string;
+  issues: ValidationIssue[];
+}
+
+/** Outcome of a validation */
+export interface ValidationSummary {
+  conforms: boolean;
+  violations: number;
+  warnings: number;
+  /** Informational results (sh:Info): reported, but neither violations nor warnings */
+  infos: number;
+  focusNodes: FocusNodeReport[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#";
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+const OWL = "http://www.w3.org/2002/07/owl#";
+export const SH = "http://www.w3.org/ns/shacl#";
+
+/** Ranges that only say "some literal": checked with sh:nodeKind sh:Literal */
+const LITERAL_RANGES = new Set([
+  `${RDFS}Literal`,
+  `${RDF}PlainLiteral`,
+  `${RDF}langString`,
+  // Italian and English names are often given as language-tagged strings where the range says xsd:string
+  `${XSD}string`,
+]);
+
+/** Ranges that do not constrain anything */
+const UNCONSTRAINED_RANGES = new Set([`${OWL}Thing`, `${RDFS}Resource`]);
+
+// =============================================================================
+// INPUT
+// =============================================================================
+
+/** Guess the format of user-supplied RDF: JSON-LD starts with "{" or "[" */
+export function detectRdfFormat(text: string): RdfInputFormat {
+  return /^\s*[[{]/.test(text) ? "jsonld" : "turtle";
+}
+
+/**
+ * Parse Turtle (or N-Triples) or JSON-LD into quads.
+ * JSON-LD contexts must be inline: remote contexts are never fetched.
+ */
+export async function parseRdfInput(text: string, format: RdfInputFormat): Promise<Quad[]> {
+  if (format === "turtle") {
+    return new Parser({ format: "text/turtle" }).parse(text);
+  }
+
+  let document: JsonLdDocument;
+  try {
+    document = JSON.parse(text) as JsonLdDocument;
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  let rdf: Awaited<ReturnType<typeof jsonld.toRDF>>;
+  try {
+    rdf = await jsonld.toRDF(document, {
+      format: "application/n-quads",
+      documentLoader: async (url: string) => {
+        throw new Error(`Remote JSON-LD context ${url} is not loaded: inline the @context`);
+      },
+    });
+  } catch (err) {
+    // jsonld wraps loader failures in a generic message: report the cause
+    const cause = (err as { details?: { cause?: unknown } }).details?.cause;
+    throw cause instanceof Error ? cause : err;
+  }
+  // With a format, jsonld returns the serialized dataset rather than quad objects
+  if (typeof rdf !== "string") throw new Error("JSON-LD conversion did not produce N-Quads");
+  return new Parser({ format: "application/n-quads" }).parse(rdf);
+}
+
+/** Distinct IRIs used as rdf:type in the data */
+export function dataClasses(quads: Quad[]): string[] {
+  const classes = new Set<string>();
+  for (const q of quads) {
+    if (q.predicate.value === `${RDF}type` && q.object.termType === "NamedNode") classes.add(q.object.value);
+  }
+  return [...classes].sort();
+}
+
+/**
+ * rdfs:subClassOf statements for [subclass, superclass] pairs: SHACL targets instances
+ * of subclasses only when the data graph states the hierarchy
+ */
+export function subClassQuads(edges: [string, string][]): Quad[] {
+  return edges.map(([child, parent]) => quad(namedNode(child), namedNode(`${RDFS}subClassOf`), namedNode(parent)));
+}
+
+// =============================================================================
+// DERIVED SHAPES
+// =============================================================================
+
+/** Whether a range is an XSD (or RDF) datatype rather than a class */
+function isDatatype(range: string): boolean {
+  return range.startsWith(XSD) || range === `${RDF}langString` || range === `${RDFS}Literal` || range === `${RDF}PlainLiteral`;
+}
+
+/**
+ * Build a SHACL shapes graph from ontology axioms: one sh:NodeShape per class,
+ * targeting it, with a property shape per applicable property.
+ * - datatype ranges → sh:datatype (sh:nodeKind sh:Literal for xsd:string and rdfs:Literal)
+ * - class ranges → sh:nodeKind sh:BlankNodeOrIRI, and sh:class as a warning:
+ *   linked resources are often not typed in the data being checked
+ * - owl:cardinality / min / max restrictions and owl:FunctionalProperty → sh:minCount / sh:maxCount
+ */
+export function deriveShapes(classes: ClassConstraints[]): Quad[] {
+  const quads: Quad[] = [];
+  const add = (s: Quad_Subject, p: string, o: Quad_Object) => quads.push(quad(s, namedNode(p), o));
+  const propertyShape = (node: Quad_Subject, property: string, severity?: string): Quad_Subject => {
+    const shape = blankNode();
+    add(node, `${SH}property`, shape);
+    add(shape, `${SH}path`, namedNode(property));
+    if (severity) add(shape, `${SH}severity`, namedNode(`${SH}${severity}`));
+    return shape;
+  };
+
+  for (const { classUri, properties } of classes) {
+    const node = namedNode(`${classUri}#shape`) as Quad_Subject;
+    add(node, `${RDF}type`, namedNode(`${SH}NodeShape`));
+    add(node, `${SH}targetClass`, namedNode(classUri));
+
+    for (const constraint of properties) {
+      const { property, ranges } = constraint;
+      const classRanges = ranges.filter((range) => !isDatatype(range) && !UNCONSTRAINED_RANGES.has(range));
+      const datatypeRanges = ranges.filter(isDatatype);
+
+      if (constraint.minCount !== undefined || constraint.maxCount !== undefined) {
+        const shape = propertyShape(node, property);
+        if (constraint.minCount !== undefined) add(shape, `${SH}minCount`, literal(String(constraint.minCount), namedNode(`${XSD}integer`)));
+        if (constraint.maxCount !== undefined) add(shape, `${SH}maxCount`, literal(String(constraint.maxCount), namedNode(`${XSD}integer`)));
+      }
+
+      for (const range of datatypeRanges) {
+        const shape = propertyShape(node, property);
+        if (LITERAL_RANGES.has(range)) {
+          add(shape, `${SH}nodeKind`, namedNode(`${SH}Literal`));
+        } else {
+          add(shape, `${SH}datatype`, namedNode(range));
+        }
+      }
+      if (datatypeRanges.length === 0 && constraint.kind === "datatype") {
+        add(propertyShape(node, property), `${SH}nodeKind`, namedNode(`${SH}Literal`));
+      }
+
+      if (classRanges.length > 0 || constraint.kind === "object") {
+        add(propertyShape(node, property), `${SH}nodeKind`, namedNode(`${SH}BlankNodeOrIRI`));
+      }
+      for (const range of classRanges) {
+        add(propertyShape(node, property, "Warning"), `${SH}class`, namedNode(range));
+      }
+    }
+  }
+  return quads;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/** The parts of an RDF term read from a validation report */
+interface ReportTerm {
+  termType: string;
+  value: string;
+  language?: string;
+  datatype?: { value: string };
+}
+
+/** Short name of a constraint component: sh:MinCountConstraintComponent → "minCount" */
+function constraintName(component: ReportTerm | undefined): string {
+  const local = (component?.value ?? "").replace(SH, "").replace(/ConstraintComponent$/, "");
+  return local.charAt(0).toLowerCase() + local.slice(1);
+}
+
+/** Render a term for the report: IRIs through `formatIri` (SHACL terms as sh:), literals with their language or datatype */
+function formatTerm(term: ReportTerm, formatIri: (iri: string) => string): string {
+  if (term.termType === "NamedNode") return term.value.startsWith(SH) ? `sh:${term.value.slice(SH.length)}` : formatIri(term.value);
+  if (term.termType === "BlankNode") return `_:${term.value}`;
+  if (term.termType === "Literal") {
+    if (term.language) return `"${term.value}"@${term.language}`;
+    if (term.datatype && term.datatype.value !== `${XSD}string`) return `"${term.value}"^^${formatIri(term.datatype.value)}`;
+    return `"${term.value}"`;
+  }
+  return term.value;
+}
+
+/**
+ * Validate data against a shapes graph and summarise the SHACL report per focus node.
+ * `formatIri` renders IRIs in the summary (e.g. as CURIEs).
+ */
+export async function validateAgainstShapes(
+  data: Quad[],
+  shapes: Quad[],
+  formatIri: (iri: string) => string = (iri) => iri
+): Promise<ValidationSummary> {
+  const shapesStore = new Store(shapes);
+  const validator = new SHACLValidator(shapesStore);
+  const report = await validator.validate(new Store(data));
+
+  const byFocusNode = new Map<string, ValidationIssue[]>();
+  let violations = 0;
+  let warnings = 0;
+  let infos = 0;
+  for (const result of report.results) {
+    const severity = (result.severity?.value ?? `${SH}Violation`).replace(SH, "") as ValidationIssue["severity"];
+    if (severity === "Violation") violations++;
+    else if (severity === "Warning") warnings++;
+    else infos++;
+
+    const constraint = constraintName(result.sourceConstraintComponent);
+    const shape = result.sourceShape;
+    const expected: Record<string, string | number | string[]> = {};
+    if (shape && constraint) {
+      const values = shapesStore.getObjects(shape as Quad_Subject, namedNode(`${SH}${constraint}`), null);
+      if (values.length > 0 && values.every((value) => value.termType !== "BlankNode")) {
+        const rendered = values.map((value) =>
+          value.termType === "Literal" && /integer$/.test(value.datatype.value) ? Number(value.value) : formatTerm(value, formatIri)
+        );
+        expected[constraint] = rendered.length === 1 ? rendered[0] as string | number : rendered as string[];
+      }
+    }
+
+    const issue: ValidationIssue = {
+      severity,
+      ...(result.path ? { path: formatTerm(result.path, formatIri) } : {}),
+      constraint,
+      ...(Object.keys(expected).length > 0 ? { expected } : {}),
+      ...(result.value ? { value: formatTerm(result.value, formatIri) } : {}),
+      ...(result.message.length > 0 ? { message: result.message.map((message) => message.value).join("; ") } : {}),
+      ...(shape && shape.termType === "NamedNode" ? { shape: formatIri(shape.value) } : {}),
+    };
+    const focus = result.focusNode ? formatTerm(result.focusNode, formatIri) : "(unknown)";
+    const issues = byFocusNode.get(focus) ?? [];
+    issues.push(issue);
+    byFocusNode.set(focus, issues);
+  }
+
+  return {
+    conforms: report.conforms,
+    violations,
+    warnings,
+    infos,
+    focusNodes: [...byFocusNode].map(([focusNode, issues]) => ({ focusNode, issues })),
+  };
+}
@@ -0,0 +1,115 @@
+import oxigraph from "oxigraph";
+import { readFile, readdir, stat } from "fs/promises";
+import { basename, extname, join } from "path";
+import { gunzipSync } from "zlib";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Summary of a loaded snapshot, reported at startup and by /health */
+export interface SnapshotInfo {
+  path: string;
+  files: { file: string; format: string; quads: number }[];
+  quads: number;
+  loadedAt: string;
+}
+
+/** In-process triple store answering SPARQL queries in place of the live endpoint */
+export interface Snapshot {
+  info: SnapshotInfo;
+  /**
+   * Run a query and return the serialized result: a SPARQL 1.1 JSON results document
+   * for SELECT/ASK, or the requested RDF format (e.g. text/turtle) for CONSTRUCT/DESCRIBE
+   */
+  query(fullQuery: string, resultsFormat?: string): string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** RDF serializations recognised by file extension (a trailing .gz is allowed) */
+const FORMATS_BY_EXTENSION: Record<string, string> = {
+  ".ttl": "text/turtle",
+  ".nt": "application/n-triples",
+  ".nq": "application/n-quads",
+  ".trig": "application/trig",
+  ".rdf": "application/rdf+xml",
+  ".owl": "application/rdf+xml",
+};
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/** Detect the RDF format of a dump file from its extension */
+function detectFormat(file: string): string | undefined {
+  const name = file.endsWith(".gz") ? file.slice(0, -".gz".length) : file;
+  return FORMATS_BY_EXTENSION[extname(name).toLowerCase()];
+}
+
+/** List the dump files to load: the file itself, or every supported file in a directory */
+async function listDumpFiles(path: string): Promise<string[]> {
+  const info = await stat(path);
+  if (!info.isDirectory()) {
+    return [path];
+  }
+  const entries = await readdir(path);
+  return entries
+    .filter((entry) => detectFormat(entry) !== undefined)
+    .sort()
+    .map((entry) => join(path, entry));
+}
+
+/**
+ * Load a Turtle/N-Triples/N-Quads (or TriG, RDF/XML) dump into an in-memory store.
+ * The path may point to a single file or to a directory of dump files; .gz files are decompressed.
+ */
+export async function loadSnapshot(path: string): Promise<Snapshot> {
+  const files = await listDumpFiles(path);
+  if (files.length === 0) {
+    throw new Error(`No RDF dump files (.ttl, .nt, .nq, .trig, .rdf, .owl) found in ${path}`);
+  }
+
+  const store = new oxigraph.Store();
+  const loaded: SnapshotInfo["files"] = [];
+
+  for (const file of files) {
+    const format = detectFormat(file);
+    if (!format) {
+      throw new Error(`Unsupported snapshot format for ${file}. Use .ttl, .nt, .nq, .trig, .rdf or .owl (optionally .gz)`);
+    }
+    const raw = await readFile(file);
+    const data = file.endsWith(".gz") ? gunzipSync(raw) : raw;
+    const before = store.size;
+    try {
+      store.load(data.toString("utf-8"), { format });
+    } catch (err) {
+      throw new Error(`Failed to load snapshot ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    loaded.push({ file: basename(file), format, quads: store.size - before });
+  }
+
+  const info: SnapshotInfo = {
+    path,
+    files: loaded,
+    quads: store.size,
+    loadedAt: new Date().toISOString(),
+  };
+
+  return {
+    info,
+    query(fullQuery: string, resultsFormat = "application/sparql-results+json"): string {
+      // Virtuoso exposes the union of all named graphs as the default graph: do the same
+      const result = store.query(fullQuery, {
+        results_format: resultsFormat,
+        use_default_graph_as_union: true,
+      });
+      if (typeof result !== "string") {
+        throw new Error("Snapshot store returned an unexpected result type");
+      }
+      return result;
+    },
+  };
+}
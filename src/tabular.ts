@@ -0,0 +1,300 @@
+import { flattenRecord } from "./mapping.js";
+import type { JsonRecord } from "./mapping.js";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Rows of a distribution as strings, one column per header */
+export interface Table {
+  headers: string[];
+  rows: string[][];
+}
+
+/** How a CSV file is written */
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+  /** Whether the first row holds the column names (otherwise they are column1, column2, ...) */
+  header: boolean;
+}
+
+/** Dialect settings given by the caller instead of being detected */
+export interface CsvOptions {
+  delimiter?: string | undefined;
+  quote?: string | undefined;
+  header?: boolean | undefined;
+  maxRows?: number | undefined;
+  /** The text was cut short: the last record may be incomplete and is dropped */
+  partial?: boolean | undefined;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Delimiters tried when sniffing a CSV: Italian files often use ";" */
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+
+/** Characters sniffed for the CSV dialect */
+const SNIFF_SAMPLE_LENGTH = 64 * 1024;
+
+/** Keys of the object holding the records in a JSON document, after a top-level array */
+const RECORD_ARRAY_KEYS = ["results", "data", "items", "records"];
+
+/** Numbers (with a decimal point or comma) and dates, for header detection */
+const NUMERIC_CELL = /^[+-]?(\d+([.,]\d+)?|\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})$/;
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/** Split CSV text into records (RFC 4180: quoted fields may contain delimiters, quotes and line breaks) */
+export function parseDelimited(text: string, delimiter: string, maxRows = Infinity, quote = '"'): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length && records.length < maxRows; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === quote && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      field = "";
+      if (record.length > 1 || record[0] !== "") records.push(record);
+      record = [];
+    } else {
+      field += char;
+    }
+  }
+  if ((field !== "" || record.length > 0) && records.length < maxRows) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/** The candidate delimiter giving the same, largest number of columns on the first lines */
+export function sniffDelimiter(text: string): string {
+  const sample = text.slice(0, SNIFF_SAMPLE_LENGTH);
+  let best = { delimiter: ",", score: 0 };
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const rows = parseDelimited(sample, delimiter, 20);
+    const widths = rows.slice(0, rows.length > 1 ? -1 : undefined).map((row) => row.length);
+    const first = widths[0] ?? 0;
+    const consistent = widths.filter((width) => width === first).length / Math.max(widths.length, 1);
+    const score = first > 1 ? first * consistent : 0;
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+/** The quote character: a single quote only when more fields are wrapped in it than in double quotes */
+export function sniffQuote(text: string, delimiter: string): string {
+  const sample = text.slice(0, SNIFF_SAMPLE_LENGTH);
+  const separator = delimiter.replace(/[\\^\]-]/g, "\\$&");
+  const wrapped = (quote: string) =>
+    sample.match(new RegExp(`(^|[${separator}\\n])${quote}[^${quote}\\n]*${quote}(?=[${separator}\\r\\n]|$)`, "g"))?.length ?? 0;
+  return wrapped("'") > wrapped('"') ? "'" : '"';
+}
+
+/**
+ * Whether the first row is a header. Each column votes: against when its first cell is a number
+ * or date like the cells below, or repeats one of them; for when it is text above numbers.
+ * Ties (e.g. text everywhere) keep the header.
+ */
+export function hasHeaderRow(records: string[][]): boolean {
+  const [first, ...rest] = records;
+  if (!first || rest.length === 0) return true;
+  let votes = 0;
+  first.forEach((cell, index) => {
+    const value = cell.trim();
+    const below = rest.slice(0, 50).map((row) => (row[index] ?? "").trim()).filter((item) => item !== "");
+    if (value === "" || below.length === 0) return;
+    const numericBelow = below.filter((item) => NUMERIC_CELL.test(item)).length > below.length / 2;
+    if (NUMERIC_CELL.test(value) ? numericBelow : below.includes(value)) votes--;
+    else if (numericBelow) votes++;
+  });
+  return votes >= 0;
+}
+
+/** Detect the delimiter, quote character and header row of CSV text, keeping the given settings */
+export function sniffDialect(text: string, options: CsvOptions = {}): CsvDialect {
+  const delimiter = options.delimiter ?? sniffDelimiter(text);
+  const quote = options.quote ?? sniffQuote(text, delimiter);
+  const header = options.header ?? hasHeaderRow(parseDelimited(text.slice(0, SNIFF_SAMPLE_LENGTH), delimiter, 51, quote));
+  return { delimiter, quote, header };
+}
+
+/** Parse CSV text, detecting the dialect settings that are not given */
+export function parseCsvTable(text: string, options: CsvOptions = {}): Table & { dialect: CsvDialect } {
+  const content = text.replace(/^\uFEFF/, "");
+  const dialect = sniffDialect(content, options);
+  const limit = (options.maxRows ?? Infinity) + (dialect.header ? 1 : 0);
+  // One record more than needed tells whether the last one kept was complete
+  const records = parseDelimited(content, dialect.delimiter, limit + 1, dialect.quote);
+  if (records.length > limit) records.length = limit;
+  else if (options.partial) records.pop();
+
+  const width = records.reduce((max, record) => Math.max(max, record.length), 0);
+  const headers = dialect.header
+    ? (records.shift() ?? []).map((header) => header.trim())
+    : Array.from({ length: width }, (_, i) => `column${i + 1}`);
+  return { headers, rows: records, dialect };
+}
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+/** Whether a JSON value is a GeoJSON FeatureCollection */
+export function isFeatureCollection(json: unknown): boolean {
+  const object = json as Record<string, unknown> | null;
+  return object !== null && typeof object === "object" && object.type === "FeatureCollection" && Array.isArray(object.features);
+}
+
+/**
+ * A GeoJSON feature as a record: its id and properties, with the geometry type and,
+ * for points, longitude and latitude (other geometries keep their coordinates as JSON)
+ */
+function featureRecord(feature: unknown): JsonRecord {
+  const { id, properties, geometry } = (feature ?? {}) as { id?: unknown; properties?: unknown; geometry?: { type?: unknown; coordinates?: unknown } | null };
+  const coordinates = geometry?.coordinates;
+  return {
+    ...(id !== undefined ? { id } : {}),
+    ...(properties !== null && typeof properties === "object" ? properties as JsonRecord : {}),
+    ...(geometry
+      ? {
+          geometry: geometry.type === "Point" && Array.isArray(coordinates)
+            ? { type: geometry.type, longitude: coordinates[0], latitude: coordinates[1] }
+            : { type: geometry.type, coordinates: JSON.stringify(coordinates) },
+        }
+      : {}),
+  };
+}
+
+/** Records as a table: nested fields become dotted columns, multiple values are joined with " | " */
+export function recordsToTable(items: unknown[], maxRows = Infinity): Table {
+  const records = items
+    .slice(0, maxRows)
+    .map((item) => flattenRecord(item !== null && typeof item === "object" && !Array.isArray(item) ? item as JsonRecord : { value: item }));
+
+  const headers = [...new Set(records.flatMap((record) => [...record.keys()]))];
+  return {
+    headers,
+    rows: records.map((record) => headers.map((header) => (record.get(header) ?? []).map(String).join(" | "))),
+  };
+}
+
+/**
+ * Turn JSON into a table: an array of records, an object holding it in "results", "data",
+ * "items" or "records", or a GeoJSON FeatureCollection (one row per feature)
+ */
+export function jsonToTable(json: unknown, maxRows = Infinity): Table {
+  if (isFeatureCollection(json)) {
+    return recordsToTable((json as { features: unknown[] }).features.slice(0, maxRows).map(featureRecord));
+  }
+  const container = json as Record<string, unknown>;
+  const list = Array.isArray(json)
+    ? json
+    : RECORD_ARRAY_KEYS.map((key) => container?.[key]).find(Array.isArray) ?? [json];
+  return recordsToTable(list as unknown[], maxRows);
+}
+
+/**
+ * The complete items of a JSON document cut short: those of the top-level array, or of the first
+ * "features", "results", "data", "items" or "records" array (features become records)
+ */
+export function truncatedJsonItems(text: string, maxRows = Infinity): unknown[] {
+  let start: number;
+  let features = false;
+  if (text.trimStart().startsWith("[")) {
+    start = text.indexOf("[") + 1;
+  } else {
+    const match = new RegExp(`"(features|${RECORD_ARRAY_KEYS.join("|")})"\\s*:\\s*\\[`).exec(text);
+    if (!match) return [];
+    start = match.index + match[0].length;
+    features = match[1] === "features";
+  }
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let itemStart = start;
+  const push = (end: number) => {
+    const item = text.slice(itemStart, end).trim();
+    if (item !== "") items.push(JSON.parse(item));
+    itemStart = end + 1;
+  };
+  for (let i = start; i < text.length && items.length < maxRows; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      if (depth === 0) {
+        push(i);
+        break;
+      }
+      depth--;
+    } else if (char === "," && depth === 0) {
+      push(i);
+    }
+  }
+  return features ? items.map(featureRecord) : items;
+}
+
+/** Whether text is JSON Lines: a JSON object on the first line and another object starting the next one */
+export function looksLikeJsonLines(text: string): boolean {
+  const [first, second] = text.trimStart().split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (first === undefined || second === undefined || !second.trimStart().startsWith("{")) return false;
+  try {
+    const value: unknown = JSON.parse(first);
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+}
+
+/** Parse JSON Lines (one JSON value per line); with partial text the last line is dropped */
+export function jsonLinesToTable(text: string, maxRows = Infinity, partial = false): Table {
+  const lines = text.split(/\r?\n/);
+  if (partial) lines.pop();
+  const items: unknown[] = [];
+  for (const [index, line] of lines.entries()) {
+    if (items.length >= maxRows) break;
+    if (line.trim() === "") continue;
+    try {
+      items.push(JSON.parse(line));
+    } catch (err) {
+      throw new Error(`Line ${index + 1} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return recordsToTable(items);
+}
+
+/** Values of one column */
+export function columnValues(table: Table, index: number): string[] {
+  return table.rows.map((row) => row[index] ?? "");
+}
@@ -0,0 +1,136 @@
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** A node of a hierarchy, as read from the endpoint */
+export interface NodeInfo {
+  uri: string;
+  /** skos:notation, or another short code */
+  code?: string;
+  label?: string;
+}
+
+/** A node of an expanded hierarchy */
+export interface TreeNode extends NodeInfo {
+  children?: TreeNode[];
+  /** Number of children of a node that was not expanded (depth or size limit) */
+  childCount?: number;
+  /** The node already appears elsewhere in the tree (polyhierarchy or cycle) and is not expanded again */
+  repeated?: true;
+}
+
+/** Loads the hierarchy one level at a time, for many parents per query */
+export interface TreeSource {
+  /** Direct children of each parent */
+  children(parents: string[]): Promise<Map<string, NodeInfo[]>>;
+  /** Number of direct children of each node (nodes without children may be missing) */
+  childCounts(nodes: string[]): Promise<Map<string, number>>;
+}
+
+/** An expanded hierarchy */
+export interface ExpandedTree {
+  nodes: TreeNode[];
+  nodeCount: number;
+  /** False when maxNodes stopped the expansion before the requested depth */
+  complete: boolean;
+}
+
+// =============================================================================
+// EXPANSION
+// =============================================================================
+
+/** Order siblings by code (numeric-aware), then label, then URI */
+export function compareNodes(a: NodeInfo, b: NodeInfo): number {
+  if (a.code !== undefined && b.code !== undefined) {
+    const byCode = a.code.localeCompare(b.code, undefined, { numeric: true });
+    if (byCode !== 0) return byCode;
+  } else if (a.code !== undefined || b.code !== undefined) {
+    return a.code !== undefined ? -1 : 1;
+  }
+  return (a.label ?? a.uri).localeCompare(b.label ?? b.uri) || a.uri.localeCompare(b.uri);
+}
+
+/**
+ * Expand a hierarchy breadth-first from the roots down to `depth` levels below them.
+ * Nodes left collapsed (at the depth limit, or once maxNodes is reached) report their childCount.
+ */
+export async function expandTree(
+  roots: NodeInfo[],
+  depth: number,
+  source: TreeSource,
+  maxNodes: number
+): Promise<ExpandedTree> {
+  const seen = new Set<string>();
+  const toNode = (info: NodeInfo): TreeNode => {
+    const node: TreeNode = { ...info };
+    if (seen.has(info.uri)) node.repeated = true;
+    seen.add(info.uri);
+    return node;
+  };
+
+  const nodes = [...roots].sort(compareNodes).map(toNode);
+  let nodeCount = nodes.length;
+  let frontier = nodes.filter((node) => !node.repeated);
+  let complete = true;
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    if (nodeCount >= maxNodes) {
+      complete = false;
+      break;
+    }
+    const children = await source.children(frontier.map((node) => node.uri));
+    const next: TreeNode[] = [];
+    for (const parent of frontier) {
+      const kids = [...(children.get(parent.uri) ?? [])].sort(compareNodes);
+      if (kids.length === 0) continue;
+      if (nodeCount + kids.length > maxNodes) {
+        parent.childCount = kids.length;
+        complete = false;
+        continue;
+      }
+      parent.children = kids.map(toNode);
+      nodeCount += kids.length;
+      next.push(...parent.children.filter((node) => !node.repeated));
+    }
+    frontier = next;
+  }
+
+  // Collapsed nodes: tell how many children they would show
+  const collapsed = frontier.filter((node) => node.children === undefined && node.childCount === undefined);
+  if (collapsed.length > 0) {
+    const counts = await source.childCounts(collapsed.map((node) => node.uri));
+    for (const node of collapsed) {
+      const count = counts.get(node.uri) ?? 0;
+      if (count > 0) node.childCount = count;
+    }
+  }
+
+  return { nodes, nodeCount, complete };
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/** One outline line per node: "- code label <uri> (+N)", indented by two spaces per level */
+export function renderOutline(nodes: TreeNode[], indent = 0): string {
+  const lines: string[] = [];
+  for (const node of nodes) {
+    const parts = [node.code, node.label, `<${node.uri}>`].filter((part) => part !== undefined && part !== "");
+    let line = `${"  ".repeat(indent)}- ${parts.join(" ")}`;
+    if (node.childCount !== undefined) line += ` (+${node.childCount})`;
+    if (node.repeated) line += " (see above)";
+    lines.push(line);
+    if (node.children) lines.push(renderOutline(node.children, indent + 1));
+  }
+  return lines.join("\n");
+}
+
+/** Turn a root-to-node path into a chain of nested nodes */
+export function pathToTree(path: NodeInfo[]): TreeNode[] {
+  let chain: TreeNode[] = [];
+  for (const info of [...path].reverse()) {
+    chain = [{ ...info, ...(chain.length > 0 ? { children: chain } : {}) }];
+  }
+  return chain;
+}
@@ -0,0 +1,387 @@
+import sparqljs from "sparqljs";
+import type { SparqlQuery } from "sparqljs";
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/** Read-only query forms accepted by the raw query tools */
+export type QueryForm = "SELECT" | "CONSTRUCT" | "ASK" | "DESCRIBE";
+
+/** Single problem found in a query, positioned in the text written by the caller (1-based) */
+export interface QueryIssue {
+  kind: "syntax" | "iri" | "undeclared-prefix" | "unbound-variable" | "semantic";
+  message: string;
+  line?: number;
+  column?: number;
+  /** The offending line with a caret under the reported column */
+  context?: string;
+}
+
+/** Outcome of validating a raw SPARQL query before it is sent to an endpoint */
+export type QueryValidation =
+  | { valid: true; queryForm: QueryForm; serviceEndpoints: string[]; prefixes: Record<string, string> }
+  | { valid: false; error: string; suggestion: string; issues?: QueryIssue[] };
+
+/** Options for validateQuery */
+export interface QueryValidationOptions {
+  /** PREFIX block known to the server (used for injection and for hints) */
+  prefixes: string;
+  /** Whether the prefix block is prepended to the query before sending */
+  injectPrefixes: boolean;
+  /** Endpoints that SERVICE clauses may target */
+  allowedServiceEndpoints: string[];
+}
+
+/** Position in the query text, 1-based */
+interface TextPosition {
+  line: number;
+  column: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Readable names of the sparqljs update types */
+const UPDATE_OPERATION_NAMES: Record<string, string> = {
+  insert: "INSERT DATA",
+  delete: "DELETE DATA",
+  deletewhere: "DELETE WHERE",
+  insertdelete: "INSERT/DELETE",
+};
+
+/** Readable names of the grammar tokens reported by the parser */
+const TOKEN_NAMES: Record<string, string> = {
+  IRIREF: "<IRI>",
+  PNAME_NS: "prefix:",
+  PNAME_LN: "prefix:name",
+  VAR: "?variable",
+  NIL: "()",
+  EOF: "end of query",
+  INVALID: "invalid character",
+  STRING_LITERAL1: "string",
+  STRING_LITERAL2: "string",
+  STRING_LITERAL_LONG1: "string",
+  STRING_LITERAL_LONG2: "string",
+  INTEGER: "number",
+  DECIMAL: "number",
+  DOUBLE: "number",
+  BLANK_NODE_LABEL: "_:blank",
+};
+
+/** Maximum number of expected tokens listed in a syntax error */
+const MAX_EXPECTED_TOKENS = 12;
+
+/** Maximum number of undeclared prefixes collected before giving up */
+const MAX_UNDECLARED_PREFIXES = 20;
+
+/** Normalize an endpoint URL so that equivalent spellings compare equal */
+function normalizeEndpoint(url: string): string {
+  try {
+    return new URL(url).href.replace(/\/$/, "");
+  } catch {
+    return url;
+  }
+}
+
+/** Escape a string for literal use inside a RegExp */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Names declared in a PREFIX block, e.g. ["rdf", "rdfs", ...] */
+function prefixNames(prefixes: string): string[] {
+  return [...prefixes.matchAll(/PREFIX\s+([\w.-]*):/gi)].map((m) => m[1] ?? "");
+}
+
+/** Convert a 0-based character offset into a 1-based line/column */
+function positionAt(text: string, offset: number): TextPosition {
+  const before = text.slice(0, offset);
+  const lines = before.split("\n");
+  return { line: lines.length, column: (lines[lines.length - 1]?.length ?? 0) + 1 };
+}
+
+/** Convert a 1-based line/column into a 0-based character offset */
+function offsetAt(text: string, line: number, column: number): number {
+  const lines = text.split("\n");
+  let offset = 0;
+  for (let i = 0; i < line - 1 && i < lines.length; i++) {
+    offset += (lines[i]?.length ?? 0) + 1;
+  }
+  return Math.min(offset + column - 1, text.length);
+}
+
+/** Render the line at a position with a caret under the column */
+function contextAt(text: string, position: TextPosition): string {
+  const lineText = text.split("\n")[position.line - 1] ?? "";
+  return `${lineText}\n${" ".repeat(Math.max(position.column - 1, 0))}^`;
+}
+
+/** Locate the first occurrence of a pattern in the caller's query */
+function locate(query: string, pattern: RegExp): TextPosition | undefined {
+  const match = pattern.exec(query);
+  if (!match) return undefined;
+  const leading = match[1]?.length ?? 0;
+  return positionAt(query, match.index + leading);
+}
+
+/** Build an issue, attaching position and context when known */
+function issueAt(kind: QueryIssue["kind"], message: string, query: string, position: TextPosition | undefined): QueryIssue {
+  if (!position) return { kind, message };
+  return { kind, message, line: position.line, column: position.column, context: contextAt(query, position) };
+}
+
+/** Human-readable "at line L, column C" suffix */
+function where(issue: QueryIssue): string {
+  return issue.line !== undefined ? ` at line ${issue.line}, column ${issue.column}` : "";
+}
+
+/** Collect every SERVICE clause in a parsed query, including nested groups, subqueries and EXISTS filters */
+function collectServices(node: unknown, found: { name: string; isVariable: boolean }[]): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectServices(item, found);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  const record = node as Record<string, unknown>;
+  if (record.type === "service") {
+    const name = record.name as { termType?: string; value?: string } | undefined;
+    found.push({
+      name: name?.value ?? "",
+      isVariable: name?.termType === "Variable",
+    });
+  }
+  for (const value of Object.values(record)) {
+    collectServices(value, found);
+  }
+}
+
+/** Collect every variable mentioned in a parsed pattern tree (VALUES rows use "?name" keys) */
+function collectVariables(node: unknown, found: Set<string>): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectVariables(item, found);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  const record = node as Record<string, unknown>;
+  if (record.termType === "Variable" && typeof record.value === "string") {
+    found.add(record.value);
+    return;
+  }
+  for (const [key, value] of Object.entries(record)) {
+    if (key.startsWith("?")) found.add(key.slice(1));
+    collectVariables(value, found);
+  }
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Parser error raised by the Jison-generated grammar */
+interface JisonError {
+  message: string;
+  hash?: {
+    text?: string;
+    token?: string | null;
+    loc?: { first_line: number; first_column: number; last_line: number; last_column: number };
+    expected?: string[];
+  };
+}
+
+/**
+ * Parse the query, treating unknown prefixes as placeholders so that every
+ * undeclared prefix is reported at once instead of one per attempt.
+ */
+function parseCollectingPrefixes(fullQuery: string): { parsed?: SparqlQuery; undeclared: string[]; error?: JisonError } {
+  const undeclared: string[] = [];
+  for (;;) {
+    const placeholders = Object.fromEntries(undeclared.map((p) => [p, `urn:undeclared-prefix:${p}#`]));
+    try {
+      return { parsed: new sparqljs.Parser({ prefixes: placeholders }).parse(fullQuery), undeclared };
+    } catch (err) {
+      const error = (err instanceof Error ? err : new Error(String(err))) as JisonError;
+      const unknown = /^Unknown prefix: (.*)$/.exec(error.message);
+      if (unknown && !undeclared.includes(unknown[1] ?? "") && undeclared.length < MAX_UNDECLARED_PREFIXES) {
+        undeclared.push(unknown[1] ?? "");
+        continue;
+      }
+      return { undeclared, error };
+    }
+  }
+}
+
+/** Turn a Jison parse error into a positioned issue in the caller's query */
+function syntaxIssue(error: JisonError, fullQuery: string, query: string, lineOffset: number): QueryIssue {
+  const hash = error.hash;
+  const relativeIri = /^Cannot resolve relative IRI (.*) because no base IRI was set/.exec(error.message)?.[1];
+  if (relativeIri !== undefined) {
+    return issueAt(
+      "iri",
+      `Relative IRI <${relativeIri}> cannot be resolved: no BASE is declared`,
+      query,
+      locate(query, new RegExp(`<${escapeRegExp(relativeIri)}>`))
+    );
+  }
+  if (!hash?.loc) {
+    // Semantic checks done by sparqljs after parsing (e.g. ungrouped projections) carry no position
+    const variable = /\(\?(\w+)\)/.exec(error.message)?.[1];
+    const position = variable ? locate(query, new RegExp(`[?$]${escapeRegExp(variable)}\\b`)) : undefined;
+    return issueAt("semantic", error.message, query, position);
+  }
+
+  // The reported location is the last token accepted: the offending one starts after it
+  let offset = offsetAt(fullQuery, hash.loc.last_line, hash.loc.last_column + 1);
+  if (hash.token === "EOF") {
+    offset = fullQuery.replace(/\s+$/, "").length;
+  } else {
+    while (offset < fullQuery.length && /\s/.test(fullQuery[offset] ?? "")) offset++;
+  }
+  const absolute = positionAt(fullQuery, offset);
+  const position = { line: Math.max(absolute.line - lineOffset, 1), column: absolute.column };
+
+  const got = hash.token === "EOF"
+    ? "end of query"
+    : `"${hash.text ?? ""}"`;
+  const expected = [...new Set((hash.expected ?? [])
+    .map((t) => t.replace(/^'|'$/g, ""))
+    .filter((t) => !t.startsWith("FUNC_") && !t.endsWith("_SPARQL_STAR") && !/_(POSITIVE|NEGATIVE)$/.test(t))
+    .map((t) => TOKEN_NAMES[t] ?? t))];
+  const expectedText = expected.length > MAX_EXPECTED_TOKENS
+    ? `${expected.slice(0, MAX_EXPECTED_TOKENS).join(", ")}, ...`
+    : expected.join(", ");
+
+  return issueAt(
+    "syntax",
+    `Unexpected ${got}${expectedText ? `; expected one of: ${expectedText}` : ""}`,
+    query,
+    position
+  );
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Parse a raw query locally and check that it can be sent to an endpoint.
+ * Rejects syntax errors (with line/column in the caller's text), undeclared prefixes,
+ * projected variables never bound in WHERE, SPARQL Update operations
+ * (INSERT, DELETE, LOAD, CLEAR, CREATE, DROP, ...) and SERVICE clauses
+ * pointing to endpoints that are not in the allow-list.
+ * @param query - Query text written by the caller, without injected prefixes
+ * @param options - Prefix injection and SERVICE allow-list
+ */
+export function validateQuery(query: string, options: QueryValidationOptions): QueryValidation {
+  const fullQuery = options.injectPrefixes ? options.prefixes + "\n" + query : query;
+  const lineOffset = options.injectPrefixes ? (options.prefixes + "\n").split("\n").length - 1 : 0;
+  const knownPrefixes = prefixNames(options.prefixes).map((p) => `${p}:`).join(", ");
+
+  const { parsed, undeclared, error } = parseCollectingPrefixes(fullQuery);
+
+  if (undeclared.length > 0) {
+    const issues = undeclared.map((prefix) => issueAt(
+      "undeclared-prefix",
+      `Undeclared prefix "${prefix}:"`,
+      query,
+      locate(query, new RegExp(`(^|[^\\w<:./#-])${escapeRegExp(prefix)}:`, "m"))
+    ));
+    return {
+      valid: false,
+      error: issues.map((i) => `${i.message}${where(i)}`).join("; "),
+      suggestion: options.injectPrefixes
+        ? `Declare it with PREFIX ${undeclared[0]}: <namespace>, or use one of the auto-injected prefixes: ${knownPrefixes}`
+        : `Declare it with PREFIX ${undeclared[0]}: <namespace> (prefixes predefined by endpoints such as Wikidata or DBpedia must be declared too), or set injectPrefixes=true to use the schema.gov.it prefixes: ${knownPrefixes}`,
+      issues,
+    };
+  }
+
+  if (error || !parsed) {
+    const issue = syntaxIssue(error ?? { message: "Unknown parse error" }, fullQuery, query, lineOffset);
+    if (issue.kind === "iri") {
+      return {
+        valid: false,
+        error: `Invalid IRI${where(issue)}: ${issue.message}`,
+        suggestion: `Write the full IRI (e.g. <https://w3id.org/italia/onto/CLV/City>), use a prefixed name such as clv:City, or declare BASE <namespace>${issue.context ? `:\n${issue.context}` : ""}`,
+        issues: [issue],
+      };
+    }
+    return {
+      valid: false,
+      error: `${issue.kind === "syntax" ? "Syntax error" : "Invalid query"}${where(issue)}: ${issue.message}`,
+      suggestion: issue.context
+        ? `Fix the query near the caret:\n${issue.context}`
+        : "Only standard SPARQL 1.1 queries are accepted. Check the query structure.",
+      issues: [issue],
+    };
+  }
+
+  if (parsed.type === "update") {
+    const operations = [...new Set(parsed.updates.map((u) => {
+      const type = "updateType" in u ? u.updateType : u.type;
+      return UPDATE_OPERATION_NAMES[type] ?? type.toUpperCase();
+    }))];
+    return {
+      valid: false,
+      error: `SPARQL Update is not allowed (found: ${operations.join(", ")}). This tool is read-only.`,
+      suggestion: "Rewrite the request as a SELECT, CONSTRUCT, ASK or DESCRIBE query.",
+    };
+  }
+
+  if (parsed.queryType === "SELECT") {
+    const bound = new Set<string>();
+    collectVariables([parsed.where ?? [], parsed.values ?? [], parsed.group ?? []], bound);
+    const unbound = parsed.variables
+      .filter((v): v is { termType: "Variable"; value: string } & typeof v =>
+        "termType" in v && v.termType === "Variable" && !bound.has(v.value))
+      .map((v) => v.value);
+
+    if (unbound.length > 0) {
+      const issues = unbound.map((name) => issueAt(
+        "unbound-variable",
+        `Projected variable ?${name} is never bound in WHERE`,
+        query,
+        locate(query, new RegExp(`[?$]${escapeRegExp(name)}\\b`))
+      ));
+      return {
+        valid: false,
+        error: issues.map((i) => `${i.message}${where(i)}`).join("; "),
+        suggestion: "Use each projected variable in the WHERE clause, bind it with BIND(... AS ?var) or VALUES, or remove it from the SELECT list.",
+        issues,
+      };
+    }
+  }
+
+  const services: { name: string; isVariable: boolean }[] = [];
+  collectServices(parsed.where ?? [], services);
+
+  if (services.some((s) => s.isVariable)) {
+    return {
+      valid: false,
+      error: "SERVICE with a variable endpoint is not allowed.",
+      suggestion: `Use an explicit endpoint IRI. Allowed SERVICE endpoints: ${options.allowedServiceEndpoints.join(", ") || "none"}`,
+    };
+  }
+
+  const allowed = new Set(options.allowedServiceEndpoints.map(normalizeEndpoint));
+  const rejected = services.map((s) => s.name).filter((name) => !allowed.has(normalizeEndpoint(name)));
+  if (rejected.length > 0) {
+    return {
+      valid: false,
+      error: `SERVICE to a non-allowed endpoint: ${[...new Set(rejected)].join(", ")}`,
+      suggestion: options.allowedServiceEndpoints.length > 0
+        ? `Allowed SERVICE endpoints: ${options.allowedServiceEndpoints.join(", ")}. Otherwise query the endpoint directly with query_external_endpoint.`
+        : "Federated queries are disabled on this server. Query the endpoint directly with query_external_endpoint.",
+    };
+  }
+
+  return {
+    valid: true,
+    queryForm: parsed.queryType,
+    serviceEndpoints: [...new Set(services.map((s) => s.name))],
+    prefixes: Object.fromEntries(Object.entries(parsed.prefixes).filter(([, ns]) => !ns.startsWith("urn:undeclared-prefix:"))),
+  };
+}
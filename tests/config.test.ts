@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { loadConfig } from "../src/config.js";
+
+const PRIVATE_ENDPOINT = "http://virtuoso.internal:8890/sparql";
+
+describe("loadConfig", () => {
+  let dir: string;
+  let file: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "config-test-"));
+    file = join(dir, "config.yaml");
+    await writeFile(file, `
+profiles:
+  private:
+    endpoint: ${PRIVATE_ENDPOINT}
+    headers:
+      Authorization: Basic c2VjcmV0
+`);
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("sends the profile headers to the profile endpoint", () => {
+    const config = loadConfig({ MCP_CONFIG: file, MCP_PROFILE: "private" });
+    assert.equal(config.endpoint, PRIVATE_ENDPOINT);
+    assert.equal(config.headers.Authorization, "Basic c2VjcmV0");
+  });
+
+  it("drops the profile headers when MCP_ENDPOINT points elsewhere", () => {
+    const config = loadConfig({ MCP_CONFIG: file, MCP_PROFILE: "private", MCP_ENDPOINT: "https://other.example.org/sparql" });
+    assert.equal(config.endpoint, "https://other.example.org/sparql");
+    assert.equal(config.headers.Authorization, undefined);
+  });
+
+  it("refuses unknown profiles", () => {
+    assert.throws(() => loadConfig({ MCP_CONFIG: file, MCP_PROFILE: "staging" }), /Unknown endpoint profile "staging"/);
+  });
+});
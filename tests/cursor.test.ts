@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CursorStore, pendingToData, truncateToLimit } from "../src/cursor.js";
+
+interface Envelope {
+  _truncated: true;
+  _returned: number;
+  _omitted: number;
+  _cursor?: string;
+  data?: unknown;
+  text?: string;
+}
+
+function newStore(): CursorStore {
+  return new CursorStore({ maxEntries: 10, ttlMs: 60_000 });
+}
+
+/** Follow the cursors like repeated fetch_more calls, returning the rows returned by each page */
+function drain(store: CursorStore, first: Envelope, limit: number): number[] {
+  const pages = [first._returned];
+  let cursor = first._cursor;
+  while (cursor) {
+    assert.ok(pages.length < 100, "fetch_more does not finish");
+    const pending = store.take(cursor);
+    assert.ok(pending);
+    const { output, truncated } = truncateToLimit(pendingToData(pending), limit, store, pending.toolName);
+    if (!truncated) {
+      pages.push(Array.isArray(output) ? output.length : 1);
+      break;
+    }
+    const envelope = output as Envelope;
+    pages.push(envelope._returned);
+    cursor = envelope._cursor;
+  }
+  return pages;
+}
+
+describe("truncateToLimit", () => {
+  it("returns results within the limit unchanged", () => {
+    const data = { rows: [1, 2, 3] };
+    assert.deepEqual(truncateToLimit(data, 1000, newStore(), "tool"), { output: data, truncated: false });
+  });
+
+  it("cuts the largest list on row boundaries and keeps the rest for fetch_more", () => {
+    const store = newStore();
+    const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, label: `row ${i}`.padEnd(40, ".") }));
+    const { output, truncated } = truncateToLimit({ headers: ["id", "label"], rows }, 2000, store, "tool");
+    assert.equal(truncated, true);
+    const envelope = output as Envelope;
+    assert.ok(envelope._returned > 0);
+    assert.equal(envelope._returned + envelope._omitted, 100);
+    assert.ok(JSON.stringify(output).length <= 2000);
+
+    const pending = store.take(envelope._cursor ?? "");
+    assert.deepEqual(pending?.headers, ["id", "label"]);
+    assert.equal(pending?.rows.length, envelope._omitted);
+    assert.equal(store.take(envelope._cursor ?? ""), undefined, "a cursor can be used once");
+  });
+
+  it("makes progress when a single row is larger than the limit", () => {
+    const store = newStore();
+    const rows = ["x".repeat(5000), "short", "x".repeat(5000), "short"];
+    const { output } = truncateToLimit(rows, 1000, store, "tool");
+    const envelope = output as Envelope;
+    assert.equal(envelope._returned, 1);
+    assert.equal(envelope._omitted, 3);
+    assert.ok((envelope.text ?? "").length > 0);
+    assert.ok(JSON.stringify(output).length <= 1000);
+
+    const pages = drain(store, envelope, 1000);
+    assert.equal(pages.reduce((sum, count) => sum + count, 0), 4);
+  });
+
+  it("returns no cursor when the only row is larger than the limit", () => {
+    const { output } = truncateToLimit([{ value: "x".repeat(5000) }], 1000, newStore(), "tool");
+    const envelope = output as Envelope;
+    assert.equal(envelope._returned, 1);
+    assert.equal(envelope._omitted, 0);
+    assert.equal(envelope._cursor, undefined);
+  });
+
+  it("makes progress when a single line of text is larger than the limit", () => {
+    const store = newStore();
+    const turtle = ["@prefix ex: <https://example.org/> .", `ex:a ex:b "${"x".repeat(5000)}" .`, "ex:c ex:d ex:e ."].join("\n");
+    const { output } = truncateToLimit({ turtle }, 1000, store, "tool");
+    const envelope = output as Envelope;
+    assert.deepEqual(envelope.data, { turtle: "@prefix ex: <https://example.org/> ." });
+
+    const pages = drain(store, envelope, 1000);
+    assert.deepEqual(pages, [1, 1, 1]);
+  });
+});
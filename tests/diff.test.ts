@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Parser } from "n3";
+import { diffOntologies, ontologyFromQuads } from "../src/diff.js";
+
+const ONTOLOGY = "https://example.org/onto/";
+
+function model(turtle: string) {
+  const quads = new Parser().parse(`
+    @prefix owl: <http://www.w3.org/2002/07/owl#> .
+    @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+    @prefix : <${ONTOLOGY}> .
+    ${turtle}
+  `);
+  return ontologyFromQuads(quads, ONTOLOGY);
+}
+
+const BEFORE = model(`
+  : a owl:Ontology ; owl:versionInfo "1.0" .
+  :City a owl:Class ; rdfs:label "Comune"@it .
+  :Town a owl:Class ; rdfs:label "Town"@en .
+  :name a owl:DatatypeProperty ; rdfs:domain :City ; rdfs:range <http://www.w3.org/2001/XMLSchema#string> .
+`);
+
+describe("diffOntologies", () => {
+  it("finds no changes between identical versions", () => {
+    assert.deepEqual(diffOntologies(BEFORE, BEFORE), []);
+  });
+
+  it("reports added, removed and changed terms", () => {
+    const after = model(`
+      : a owl:Ontology ; owl:versionInfo "1.1" .
+      :City a owl:Class ; rdfs:label "Comune italiano"@it .
+      :name a owl:DatatypeProperty ; rdfs:domain :City ; rdfs:range rdfs:Literal .
+      :Region a owl:Class .
+    `);
+    const changes = diffOntologies(BEFORE, after).map((change) => `${change.change} ${change.uri}`);
+    assert.ok(changes.includes(`removed ${ONTOLOGY}Town`));
+    assert.ok(changes.includes(`added ${ONTOLOGY}Region`));
+    assert.ok(changes.includes(`label_changed ${ONTOLOGY}City`));
+    assert.ok(changes.includes(`range_changed ${ONTOLOGY}name`));
+    assert.ok(changes.includes(`version_changed ${ONTOLOGY}`));
+  });
+
+  it("reports a removed term linked to an added one as renamed", () => {
+    const after = model(`
+      :City a owl:Class ; rdfs:label "Comune"@it .
+      :Municipality a owl:Class ; rdfs:label "Municipality"@en ; owl:equivalentClass :Town .
+      :name a owl:DatatypeProperty ; rdfs:domain :City ; rdfs:range <http://www.w3.org/2001/XMLSchema#string> .
+    `);
+    const renamed = diffOntologies(BEFORE, after).find((change) => change.change === "renamed");
+    assert.equal(renamed?.uri, `${ONTOLOGY}Town`);
+    assert.equal(renamed?.after, `${ONTOLOGY}Municipality`);
+  });
+});
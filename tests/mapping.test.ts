@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { flattenRecord, matchFields, nameSimilarity, recordsToQuads, valueIri } from "../src/mapping.js";
+import type { RecordConversion } from "../src/mapping.js";
+
+const CLV = "https://w3id.org/italia/onto/CLV/";
+const CITY_058091 = "https://w3id.org/italia/data/identifiers/cities/058091";
+const PREFIXES = { clv: CLV };
+
+function conversion(overrides: Partial<RecordConversion> = {}): RecordConversion {
+  return {
+    classUri: `${CLV}Address`,
+    mappings: [{ field: "comune", path: [`${CLV}hasCity`], target: { kind: "resource" } }],
+    intermediateTypes: new Map(),
+    resolve: (_field, value) => (value === "IT:058091" || value === "Roma" ? { uri: CITY_058091 } : { reason: "no match" }),
+    prefixes: PREFIXES,
+    ...overrides,
+  };
+}
+
+describe("valueIri", () => {
+  it("accepts http(s) and urn IRIs as they are", () => {
+    assert.equal(valueIri(CITY_058091), CITY_058091);
+    assert.equal(valueIri("urn:isbn:9788804668237"), "urn:isbn:9788804668237");
+  });
+
+  it("expands CURIEs with a known prefix", () => {
+    assert.equal(valueIri("clv:City", PREFIXES), `${CLV}City`);
+  });
+
+  it("does not take codes with a colon for IRIs", () => {
+    assert.equal(valueIri("IT:058091", PREFIXES), undefined);
+    assert.equal(valueIri("clv:City"), undefined);
+    assert.equal(valueIri("mailto:info@example.org"), undefined);
+  });
+});
+
+describe("recordsToQuads", () => {
+  it("resolves coded values instead of minting IRIs from them", () => {
+    const { quads, rejected } = recordsToQuads([{ comune: "IT:058091" }], conversion());
+    assert.deepEqual(rejected, []);
+    assert.ok(quads.some((statement) => statement.object.value === CITY_058091));
+    assert.ok(!quads.some((statement) => statement.object.value === "IT:058091"));
+  });
+
+  it("expands CURIE values and IRI templates", () => {
+    const { quads, subjects } = recordsToQuads(
+      [{ id: "1", comune: "clv:City" }],
+      conversion({ idTemplate: "https://example.org/address/{id}" })
+    );
+    assert.deepEqual(subjects, ["https://example.org/address/1"]);
+    assert.ok(quads.some((statement) => statement.object.value === `${CLV}City`));
+  });
+
+  it("rejects records whose template does not give an IRI", () => {
+    const { rejected } = recordsToQuads([{ id: "1" }], conversion({ idTemplate: "office:{id}" }));
+    assert.equal(rejected[0]?.field, "(id)");
+  });
+});
+
+describe("field matching", () => {
+  it("flattens nested records into dotted fields", () => {
+    assert.deepEqual([...flattenRecord({ indirizzo: { comune: "Roma", cap: ["00100"] } })], [
+      ["indirizzo.comune", ["Roma"]],
+      ["indirizzo.cap", ["00100"]],
+    ]);
+  });
+
+  it("compares names across case styles and accents", () => {
+    assert.equal(nameSimilarity("dataDiNascita", "data_nascita"), 1);
+    assert.equal(nameSimilarity("città", "Citta"), 1);
+  });
+
+  it("gives each property to the best matching field only", () => {
+    const matches = matchFields(["comune", "nome_comune"], [{ uri: `${CLV}hasCity`, names: ["hasCity", "comune"] }], 0.7);
+    assert.deepEqual(matches.map((match) => match.field), ["comune"]);
+  });
+});
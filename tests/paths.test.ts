@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { resolveWithin } from "../src/paths.js";
+
+describe("resolveWithin", () => {
+  let root: string;
+  let base: string;
+
+  before(async () => {
+    root = await realpath(await mkdtemp(join(tmpdir(), "paths-test-")));
+    base = join(root, "ontologies");
+    await mkdir(join(base, "clv"), { recursive: true });
+    await writeFile(join(base, "clv", "v2.ttl"), "");
+    await writeFile(join(root, "secret.ttl"), "");
+    await symlink(join(root, "secret.ttl"), join(base, "link.ttl"));
+    await symlink(join(base, "clv", "v2.ttl"), join(base, "latest.ttl"));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("resolves paths relative to the directory", async () => {
+    assert.equal(await resolveWithin(base, "clv/v2.ttl"), join(base, "clv", "v2.ttl"));
+    assert.equal(await resolveWithin(base, join(base, "clv", "v2.ttl")), join(base, "clv", "v2.ttl"));
+  });
+
+  it("follows symlinks that stay inside the directory", async () => {
+    assert.equal(await resolveWithin(base, "latest.ttl"), join(base, "clv", "v2.ttl"));
+  });
+
+  it("refuses .. escapes and absolute paths outside the directory", async () => {
+    await assert.rejects(resolveWithin(base, "../secret.ttl"), /outside the allowed directory/);
+    await assert.rejects(resolveWithin(base, "clv/../../secret.ttl"), /outside the allowed directory/);
+    await assert.rejects(resolveWithin(base, "/etc/passwd"), /outside the allowed directory/);
+    await assert.rejects(resolveWithin(base, "."), /outside the allowed directory/);
+  });
+
+  it("refuses symlinks leading outside the directory", async () => {
+    await assert.rejects(resolveWithin(base, "link.ttl"), /outside the allowed directory/);
+  });
+
+  it("reports missing files inside the directory", async () => {
+    await assert.rejects(resolveWithin(base, "missing.ttl"), /File not found/);
+  });
+});
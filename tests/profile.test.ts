@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { columnStatistics, detectCodes, inferDatatype, padIstatCode, profileColumn } from "../src/profile.js";
+
+describe("padIstatCode", () => {
+  it("restores the leading zeros of municipality and province codes", () => {
+    assert.equal(padIstatCode("58091", 6), "058091");
+    assert.equal(padIstatCode("1272", 6), "001272");
+    assert.equal(padIstatCode("58", 3), "058");
+  });
+
+  it("leaves complete codes and other values as they are", () => {
+    assert.equal(padIstatCode("058091", 6), "058091");
+    assert.equal(padIstatCode("1058091", 6), "1058091");
+    assert.equal(padIstatCode("H501", 6), "H501");
+    assert.equal(padIstatCode("", 6), "");
+  });
+});
+
+describe("profileColumn", () => {
+  it("keeps values with leading zeros as codes, not numbers", () => {
+    const profile = profileColumn("codice_comune", ["058091", "015146", "", "001272"]);
+    assert.equal(profile.datatype, "string");
+    assert.equal(profile.nullRatio, 0.25);
+    assert.equal(profile.codes[0]?.kind, "istatMunicipality");
+  });
+
+  it("detects municipality codes that lost their leading zeros", () => {
+    const profile = profileColumn("codice_comune", ["58091", "15146", "1272", "108001"]);
+    assert.equal(profile.datatype, "integer");
+    assert.equal(profile.codes[0]?.kind, "istatMunicipality");
+    assert.equal(profile.codes[0]?.share, 1);
+  });
+
+  it("infers numbers, years and Italian dates", () => {
+    assert.equal(inferDatatype(["12", "-3", "0"]), "integer");
+    assert.equal(inferDatatype(["1999", "2024"]), "gYear");
+    assert.equal(inferDatatype(["3,5", "12"]), "decimal");
+    assert.equal(inferDatatype(["31/12/2024", "1/2/2023"]), "date");
+  });
+
+  it("recognises fiscal codes and province abbreviations", () => {
+    assert.equal(detectCodes(["RSSMRA80A01H501U"])[0]?.kind, "fiscalCode");
+    assert.equal(detectCodes(["RM", "mi", "TO"])[0]?.kind, "provinceSigla");
+  });
+});
+
+describe("columnStatistics", () => {
+  it("orders Italian dates as dates and counts the most frequent values", () => {
+    const statistics = columnStatistics(["2/1/2024", "31/12/2023", "2/1/2024", "n/a"], "date", 1);
+    assert.equal(statistics.min, "31/12/2023");
+    assert.equal(statistics.max, "2/1/2024");
+    assert.deepEqual(statistics.topValues, [{ value: "2/1/2024", count: 2 }]);
+  });
+});
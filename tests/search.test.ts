@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SearchIndex, checkRegex } from "../src/search.js";
+
+const CITY = "https://w3id.org/italia/onto/CLV/City";
+const FORLI = "https://example.org/city/040012";
+
+function newIndex(): SearchIndex {
+  return new SearchIndex(
+    [
+      { uri: CITY, type: "class", field: "label", text: "Comune", lang: "it" },
+      { uri: CITY, type: "class", field: "label", text: "City", lang: "en" },
+      { uri: FORLI, type: "concept", field: "label", text: "Forlì", lang: "it" },
+      { uri: FORLI, type: "concept", field: "notation", text: "040012", lang: "" },
+    ],
+    [[FORLI, "https://example.org/scheme/cities"]]
+  );
+}
+
+describe("SearchIndex", () => {
+  it("ignores case and accents", () => {
+    const found = newIndex().search("forli", { limit: 10 });
+    assert.equal(found.hits[0]?.uri, FORLI);
+    assert.equal(found.hits[0]?.match, "exact");
+    assert.equal(found.hits[0]?.code, "040012");
+  });
+
+  it("labels hits in the preferred language", () => {
+    const found = newIndex().search("city", { languages: ["it"], limit: 10 });
+    assert.equal(found.hits.length, 0, "English labels are skipped when only Italian is preferred");
+    assert.equal(newIndex().search("comune", { languages: ["it"], limit: 10 }).hits[0]?.label, "Comune");
+  });
+
+  it("filters by type and scheme", () => {
+    assert.equal(newIndex().search("040012", { types: ["class"], limit: 10 }).hits.length, 0);
+    assert.equal(newIndex().search("040012", { scheme: "https://example.org/scheme/cities", limit: 10 }).hits.length, 1);
+    assert.equal(newIndex().search("040012", { scheme: "https://example.org/scheme/other", limit: 10 }).hits.length, 0);
+  });
+
+  it("tolerates typos", () => {
+    assert.equal(newIndex().search("comue", { limit: 10 }).hits[0]?.uri, CITY);
+  });
+});
+
+describe("checkRegex", () => {
+  it("accepts ordinary patterns", () => {
+    assert.equal(checkRegex("^Rom(a|e)"), undefined);
+  });
+
+  it("returns an error with a suggestion instead of throwing for invalid patterns", () => {
+    const problem = checkRegex("S.p.A. (ex");
+    assert.match(problem?.error ?? "", /^Invalid regex/);
+    assert.match(problem?.suggestion ?? "", /contains/);
+  });
+
+  it("refuses nested quantifiers and overlong patterns", () => {
+    assert.match(checkRegex("(a+)+$")?.error ?? "", /nested quantifiers/);
+    assert.match(checkRegex("a".repeat(201))?.error ?? "", /too long/);
+  });
+});
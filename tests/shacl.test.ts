@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseRdfInput, validateAgainstShapes } from "../src/shacl.js";
+
+const SHAPES = `
+  @prefix sh: <http://www.w3.org/ns/shacl#> .
+  @prefix ex: <https://example.org/> .
+  ex:CityShape a sh:NodeShape ;
+    sh:targetClass ex:City ;
+    sh:property [ sh:path ex:name ; sh:minCount 1 ] ,
+      [ sh:path ex:code ; sh:minCount 1 ; sh:severity sh:Warning ] ,
+      [ sh:path ex:population ; sh:minCount 1 ; sh:severity sh:Info ] .
+`;
+
+describe("parseRdfInput", () => {
+  it("parses JSON-LD with an inline context into quads", async () => {
+    const quads = await parseRdfInput(
+      JSON.stringify({ "@context": { ex: "https://example.org/" }, "@id": "ex:rome", "@type": "ex:City" }),
+      "jsonld"
+    );
+    assert.equal(quads.length, 1);
+    assert.equal(quads[0]?.object.value, "https://example.org/City");
+  });
+
+  it("refuses remote contexts", async () => {
+    await assert.rejects(
+      parseRdfInput(JSON.stringify({ "@context": "https://example.org/context.jsonld", "@id": "x" }), "jsonld"),
+      /inline the @context/
+    );
+  });
+});
+
+describe("validateAgainstShapes", () => {
+  it("counts violations, warnings and informational results separately", async () => {
+    const data = await parseRdfInput("<https://example.org/rome> a <https://example.org/City> .", "turtle");
+    const shapes = await parseRdfInput(SHAPES, "turtle");
+    const summary = await validateAgainstShapes(data, shapes);
+    assert.equal(summary.conforms, false);
+    assert.equal(summary.violations, 1);
+    assert.equal(summary.warnings, 1);
+    assert.equal(summary.infos, 1);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { jsonLinesToTable, jsonToTable, parseCsvTable, parseDelimited, truncatedJsonItems } from "../src/tabular.js";
+
+describe("parseCsvTable", () => {
+  it("detects semicolons, a header row and a BOM", () => {
+    const table = parseCsvTable("\uFEFFcomune;abitanti\nRoma;2750000\nForlì;117000\n");
+    assert.deepEqual(table.dialect, { delimiter: ";", quote: '"', header: true });
+    assert.deepEqual(table.headers, ["comune", "abitanti"]);
+    assert.deepEqual(table.rows, [["Roma", "2750000"], ["Forlì", "117000"]]);
+  });
+
+  it("names the columns when there is no header row", () => {
+    const table = parseCsvTable("058091,Roma\n040012,Forlì\n", { header: false });
+    assert.deepEqual(table.headers, ["column1", "column2"]);
+    assert.equal(table.rows.length, 2);
+  });
+
+  it("drops the last record of text cut short", () => {
+    const table = parseCsvTable("a,b\n1,2\n3,\"unfinish", { header: true, partial: true });
+    assert.deepEqual(table.rows, [["1", "2"]]);
+  });
+});
+
+describe("parseDelimited", () => {
+  it("keeps delimiters, quotes and line breaks inside quoted fields", () => {
+    assert.deepEqual(parseDelimited('nome,nota\n"Rossi, Mario","disse ""sì""\nal voto"\n', ","), [
+      ["nome", "nota"],
+      ["Rossi, Mario", 'disse "sì"\nal voto'],
+    ]);
+  });
+});
+
+describe("JSON tables", () => {
+  it("reads records from a wrapper object, flattening nested fields", () => {
+    const table = jsonToTable({ results: [{ nome: "Roma", sede: { cap: "00100" } }, { nome: "Forlì", tags: ["a", "b"] }] });
+    assert.deepEqual(table.headers, ["nome", "sede.cap", "tags"]);
+    assert.deepEqual(table.rows[1], ["Forlì", "", "a | b"]);
+  });
+
+  it("turns GeoJSON point features into rows with coordinates", () => {
+    const table = jsonToTable({
+      type: "FeatureCollection",
+      features: [{ type: "Feature", id: 1, properties: { nome: "Roma" }, geometry: { type: "Point", coordinates: [12.5, 41.9] } }],
+    });
+    assert.deepEqual(table.headers, ["id", "nome", "geometry.type", "geometry.longitude", "geometry.latitude"]);
+    assert.deepEqual(table.rows[0], ["1", "Roma", "Point", "12.5", "41.9"]);
+  });
+
+  it("keeps the complete items of a JSON document cut short", () => {
+    assert.deepEqual(truncatedJsonItems('{"data": [{"a": "x]"}, {"a": 2}, {"a": '), [{ a: "x]" }, { a: 2 }]);
+  });
+
+  it("reads JSON Lines and reports the line of invalid JSON", () => {
+    assert.deepEqual(jsonLinesToTable('{"a":1}\n\n{"a":2}\n').rows, [["1"], ["2"]]);
+    assert.throws(() => jsonLinesToTable('{"a":1}\n{"a":\n'), /^Error: Line 2 is not valid JSON/);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateQuery } from "../src/validation.js";
+
+const options = {
+  prefixes: "PREFIX clv: <https://w3id.org/italia/onto/CLV/>",
+  injectPrefixes: true,
+  allowedServiceEndpoints: ["https://query.wikidata.org/sparql"],
+};
+
+describe("validateQuery", () => {
+  it("accepts a read-only query using injected prefixes", () => {
+    const result = validateQuery("SELECT ?c WHERE { ?c a clv:City }", options);
+    assert.equal(result.valid, true);
+    if (result.valid) assert.equal(result.queryForm, "SELECT");
+  });
+
+  it("positions syntax errors in the caller's text", () => {
+    const result = validateQuery("SELECT ?s\nWHERE { ?s ?p }", options);
+    assert.equal(result.valid, false);
+    if (result.valid) return;
+    assert.equal(result.issues?.[0]?.kind, "syntax");
+    assert.equal(result.issues?.[0]?.line, 2);
+  });
+
+  it("reports every undeclared prefix", () => {
+    const result = validateQuery("SELECT * WHERE { ?s foo:a bar:b }", options);
+    assert.equal(result.valid, false);
+    if (result.valid) return;
+    assert.deepEqual(result.issues?.map((issue) => issue.kind), ["undeclared-prefix", "undeclared-prefix"]);
+  });
+
+  it("reports relative IRIs as IRI problems, not semantic ones", () => {
+    const result = validateQuery("SELECT * WHERE {\n  ?s a <City> }", options);
+    assert.equal(result.valid, false);
+    if (result.valid) return;
+    assert.equal(result.issues?.[0]?.kind, "iri");
+    assert.equal(result.issues?.[0]?.line, 2);
+    assert.match(result.error, /^Invalid IRI/);
+    assert.match(result.suggestion, /BASE/);
+  });
+
+  it("accepts relative IRIs when BASE is declared", () => {
+    const result = validateQuery("BASE <https://example.org/>\nSELECT * WHERE { ?s a <City> }", options);
+    assert.equal(result.valid, true);
+  });
+
+  it("rejects projected variables never bound", () => {
+    const result = validateQuery("SELECT ?x WHERE { ?s ?p ?o }", options);
+    assert.equal(result.valid, false);
+    if (result.valid) return;
+    assert.equal(result.issues?.[0]?.kind, "unbound-variable");
+  });
+
+  it("rejects SPARQL Update and non-allowed SERVICE clauses", () => {
+    assert.equal(validateQuery("INSERT DATA { <urn:a> <urn:b> <urn:c> }", options).valid, false);
+    assert.equal(validateQuery("SELECT * WHERE { SERVICE <https://example.org/sparql> { ?s ?p ?o } }", options).valid, false);
+    assert.equal(validateQuery("SELECT * WHERE { SERVICE <https://query.wikidata.org/sparql> { ?s ?p ?o } }", options).valid, true);
+  });
+});